@@ -27,6 +27,22 @@ import cardsRoutes from "./routes/cards";
 import giftcardsRoutes from "./routes/giftcards";
 import adminRoutes from "./routes/admin";
 import activityLogRoutes from "./routes/activityLogs";
+import ledgerRoutes from "./routes/ledger";
+import standingOrderRoutes from "./routes/standingOrders";
+import beneficiaryRoutes from "./routes/beneficiaries";
+import paymentRequestRoutes from "./routes/paymentRequests";
+import feeRoutes from "./routes/fees";
+import metalsRoutes from "./routes/metals";
+import referralRoutes from "./routes/referrals";
+import reconciliationService from "./services/reconciliationService";
+import statementService from "./services/statementService";
+import standingOrderService from "./services/standingOrderService";
+import paymentRequestService from "./services/paymentRequestService";
+import contractMaturityService from "./services/contractMaturityService";
+import interestAccrualService from "./services/interestAccrualService";
+import metalPriceService from "./services/metalPriceService";
+import cardAuthorizationService from "./services/cardAuthorizationService";
+import { scheduleJob, hoursFromEnv } from "./utils/scheduler";
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -110,6 +126,13 @@ app.use("/api/cards", cardsRoutes);
 app.use("/api/giftcards", giftcardsRoutes);
 app.use("/api/admin", adminRoutes);
 app.use("/api/activity-logs", activityLogRoutes);
+app.use("/api/ledger", ledgerRoutes);
+app.use("/api/standing-orders", standingOrderRoutes);
+app.use("/api/beneficiaries", beneficiaryRoutes);
+app.use("/api/payment-requests", paymentRequestRoutes);
+app.use("/api/fees", feeRoutes);
+app.use("/api/metals", metalsRoutes);
+app.use("/api/referrals", referralRoutes);
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -138,6 +161,58 @@ const startServer = async () => {
 			console.log(`🔧 Withdrawal processing: Manual approval mode`);
 		});
 
+		// Background jobs
+		scheduleJob({
+			name: "balance-reconciliation",
+			intervalMs: hoursFromEnv("RECONCILIATION_INTERVAL_HOURS", 24),
+			run: () => reconciliationService.run({ trigger: "scheduled" }),
+		});
+		// Emails last month's statements; deliveries are recorded so reruns only pick up what is missing
+		scheduleJob({
+			name: "monthly-statements",
+			intervalMs: hoursFromEnv("STATEMENT_JOB_INTERVAL_HOURS", 6),
+			run: () => statementService.sendMonthlyStatements(),
+		});
+		scheduleJob({
+			name: "standing-orders",
+			intervalMs: hoursFromEnv("STANDING_ORDER_INTERVAL_HOURS", 0.25),
+			run: () => standingOrderService.runDue(),
+			runOnStart: true,
+		});
+		// Expires overdue payment requests and reminds payers of the ones still waiting
+		scheduleJob({
+			name: "payment-requests",
+			intervalMs: hoursFromEnv("PAYMENT_REQUEST_JOB_INTERVAL_HOURS", 1),
+			run: () => paymentRequestService.runMaintenance(),
+		});
+		// Credits each active contract's interest for every contract day that has ended, catching up after downtime
+		scheduleJob({
+			name: "interest-accrual",
+			intervalMs: hoursFromEnv("INTEREST_ACCRUAL_INTERVAL_HOURS", 1),
+			run: () => interestAccrualService.runDue(),
+			runOnStart: true,
+		});
+		// Stores spot prices from METAL_PRICE_PROVIDER for the dashboard and metal holdings
+		scheduleJob({
+			name: "metal-prices",
+			intervalMs: hoursFromEnv("METAL_PRICE_INTERVAL_HOURS", 1),
+			run: () => metalPriceService.refresh(),
+			runOnStart: true,
+		});
+		// Reverses card authorizations the processor never captured, returning the funds to the card
+		scheduleJob({
+			name: "card-authorization-expiry",
+			intervalMs: hoursFromEnv("CARD_AUTHORIZATION_EXPIRY_INTERVAL_HOURS", 1),
+			run: () => cardAuthorizationService.expireStale(),
+		});
+		// Completes contracts whose plan duration has run out, paying principal and interest
+		scheduleJob({
+			name: "contract-maturities",
+			intervalMs: hoursFromEnv("CONTRACT_MATURITY_INTERVAL_HOURS", 1),
+			run: () => contractMaturityService.runDue(),
+			runOnStart: true,
+		});
+
 		server.on("error", (error: any) => {
 			console.error("Server error:", error);
 			if (error.code === "EADDRINUSE") {
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
 import jwt from "jsonwebtoken";
 import { User } from "../models/user";
 
@@ -80,3 +81,17 @@ export function requireSelfOrAdmin(req: AuthRequest, res: Response, next: NextFu
 
 	return res.status(403).json({ message: "Access denied: You can only access your own data" });
 }
+
+// Card network messages: the processor sends CARD_PROCESSOR_KEY in X-Processor-Key; admins
+// can send them too, e.g. from a local simulator
+export async function requireCardProcessor(req: AuthRequest, res: Response, next: NextFunction) {
+	const key = req.get("X-Processor-Key");
+	if (!key) return requireAuth(req, res, () => requireAdmin(req, res, next));
+
+	const given = Buffer.from(key);
+	const expected = Buffer.from(process.env.CARD_PROCESSOR_KEY || "");
+	if (!expected.length || given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+		return res.status(401).json({ message: "Invalid processor key" });
+	}
+	return next();
+}
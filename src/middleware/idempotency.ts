@@ -0,0 +1,104 @@
+import { Response, NextFunction } from "express";
+import crypto from "crypto";
+import { IdempotencyKey } from "../models/idempotencyKey";
+import { AuthRequest } from "./auth";
+
+// Key order must not change the fingerprint of an otherwise identical body
+const stableStringify = (value: any): string => {
+	if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+	if (value && typeof value === "object") {
+		return `{${Object.keys(value)
+			.sort()
+			.map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`)
+			.join(",")}}`;
+	}
+	return JSON.stringify(value ?? null);
+};
+
+const fingerprintOf = (method: string, path: string, body: unknown) =>
+	crypto.createHash("sha256").update(`${method}\n${path}\n${stableStringify(body)}`).digest("hex");
+
+/**
+ * Honour an optional `Idempotency-Key` header on money-moving POSTs. Must run after requireAuth.
+ * The first request with a key is processed and its response stored; repeats replay that response,
+ * a repeat with a different body is rejected with 422, and one arriving while the first is still
+ * running gets 409. Server errors are not stored so the client can retry with the same key.
+ */
+export async function idempotency(req: AuthRequest, res: Response, next: NextFunction) {
+	const key = req.get("Idempotency-Key");
+	if (!key) return next();
+
+	if (key.length > 255) {
+		return res.status(400).json({ message: "Idempotency-Key must be at most 255 characters" });
+	}
+
+	const method = req.method;
+	const path = req.originalUrl.split("?")[0];
+	const fingerprint = fingerprintOf(method, path, req.body);
+	const userId = req.user?.userId || null;
+
+	try {
+		const record = await IdempotencyKey.create({ key, userId, method, path, fingerprint });
+
+		let responseBody: any = null;
+		const originalJson = res.json.bind(res);
+		res.json = (body: any) => {
+			responseBody = body;
+			return originalJson(body);
+		};
+
+		let settled = false;
+		const settle = async (finished: boolean) => {
+			if (settled) return;
+			settled = true;
+			try {
+				if (finished && res.statusCode < 500) {
+					await IdempotencyKey.updateOne(
+						{ _id: record._id },
+						{
+							$set: {
+								status: "completed",
+								"response.statusCode": res.statusCode,
+								"response.body": responseBody,
+								completedAt: new Date(),
+							},
+						},
+					);
+				} else {
+					await IdempotencyKey.deleteOne({ _id: record._id });
+				}
+			} catch (error) {
+				console.error("Failed to store idempotent response:", error);
+			}
+		};
+		res.on("finish", () => void settle(true));
+		res.on("close", () => void settle(res.writableFinished));
+
+		return next();
+	} catch (error: any) {
+		if (error?.code !== 11000) {
+			console.error("Idempotency check failed:", error);
+			return res.status(500).json({ message: "Failed to process Idempotency-Key" });
+		}
+	}
+
+	try {
+		const existing = await IdempotencyKey.findOne({ key, userId });
+		if (!existing) {
+			// Released by a failed first attempt between the insert and this read
+			return res.status(409).json({ message: "Idempotency-Key conflict, please retry" });
+		}
+		if (existing.fingerprint !== fingerprint) {
+			return res.status(422).json({ message: "Idempotency-Key was already used with a different request" });
+		}
+		if (existing.status !== "completed") {
+			return res.status(409).json({ message: "A request with this Idempotency-Key is still being processed" });
+		}
+
+		res.setHeader("Idempotent-Replayed", "true");
+		return res.status(existing.response.statusCode || 200).json(existing.response.body);
+	} catch (error) {
+		console.error("Idempotency replay failed:", error);
+		return res.status(500).json({ message: "Failed to process Idempotency-Key" });
+	}
+}
@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from "express";
 import { z, ZodSchema } from "zod";
+import { FEE_TYPES } from "../models/feeSchedule";
+import { CONTRACT_PRODUCT_TYPES, DELIVERY_PERIODS } from "../types/contract.types";
+import { isValidAccountNumber, isValidBic, isValidIban, isValidRoutingNumber } from "../utils/bankValidation";
 
 // Validation middleware factory
 export const validate = (schema: ZodSchema) => {
@@ -108,19 +111,131 @@ export const internalTransferSchema = z.object({
 	memo: z.string().max(500).optional(),
 });
 
+// Recipients come from the address book only, so new bank details always pass validation and cooling-off
 export const externalTransferSchema = z.object({
 	userId: z.string().length(24, "Invalid user ID"),
 	amount: z.number().positive("Amount must be positive").min(1, "Minimum transfer is $1"),
 	currency: z.string().default("USD"),
-	beneficiary: z.string().min(1, "Beneficiary name is required"),
-	bankDetails: z.object({
-		accountNumber: z.string().min(1),
-		routingNumber: z.string().min(1),
-		bankName: z.string().optional(),
-	}),
+	beneficiaryId: z.string().length(24, "Invalid beneficiary ID"),
 	memo: z.string().max(500).optional(),
 });
 
+export const standingOrderSchema = z
+	.object({
+		fromUserId: z.string().length(24, "Invalid sender user ID").optional(),
+		toUserId: z.string().length(24, "Invalid recipient user ID").optional(),
+		toEmail: z.string().email("Invalid recipient email").optional(),
+		amount: z.number().positive("Amount must be positive").min(0.01, "Minimum transfer is $0.01"),
+		currency: z.string().default("USD"),
+		memo: z.string().max(500).optional(),
+		frequency: z.enum(["once", "weekly", "monthly"]),
+		startDate: z.string().optional(),
+		endDate: z.string().nullable().optional(),
+	})
+	.refine((data) => Boolean(data.toUserId || data.toEmail), {
+		message: "toUserId or toEmail is required",
+		path: ["toUserId"],
+	});
+
+export const paymentRequestSchema = z
+	.object({
+		payerId: z.string().length(24, "Invalid payer user ID").optional(),
+		payerEmail: z.string().email("Invalid payer email").optional(),
+		amount: z.number().positive("Amount must be positive").min(0.01, "Minimum request is $0.01"),
+		currency: z.string().default("USD"),
+		memo: z.string().max(500).optional(),
+		expiresInDays: z.number().int().min(1).max(30).optional(),
+	})
+	.refine((data) => Boolean(data.payerId || data.payerEmail), {
+		message: "payerId or payerEmail is required",
+		path: ["payerId"],
+	});
+
+// Beneficiary bank details: either a US account + ABA routing number or an IBAN (with optional SWIFT/BIC)
+const beneficiaryBankDetails = z
+	.object({
+		bankName: z.string().max(100).optional(),
+		accountNumber: z.string().optional(),
+		routingNumber: z.string().optional(),
+		iban: z.string().optional(),
+		swift: z.string().optional(),
+		country: z.string().length(2, "Country must be a 2-letter ISO code").optional(),
+		bankAddress: z.string().max(200).optional(),
+	})
+	.superRefine((details, ctx) => {
+		if (details.iban) {
+			if (!isValidIban(details.iban)) ctx.addIssue({ code: "custom", path: ["iban"], message: "Invalid IBAN" });
+		} else {
+			if (!details.accountNumber || !isValidAccountNumber(details.accountNumber)) {
+				ctx.addIssue({ code: "custom", path: ["accountNumber"], message: "Account number must be 4-17 digits" });
+			}
+			if (!details.routingNumber || !isValidRoutingNumber(details.routingNumber)) {
+				ctx.addIssue({ code: "custom", path: ["routingNumber"], message: "Invalid routing number" });
+			}
+		}
+		if (details.swift && !isValidBic(details.swift)) {
+			ctx.addIssue({ code: "custom", path: ["swift"], message: "Invalid SWIFT/BIC code" });
+		}
+	});
+
+export const beneficiarySchema = z.object({
+	userId: z.string().length(24, "Invalid user ID").optional(),
+	nickname: z.string().trim().min(1, "Nickname is required").max(50),
+	name: z.string().trim().min(1, "Beneficiary name is required").max(100),
+	currency: z.string().default("USD"),
+	bankDetails: beneficiaryBankDetails,
+});
+
+export const beneficiaryUpdateSchema = z.object({
+	nickname: z.string().trim().min(1).max(50).optional(),
+	name: z.string().trim().min(1).max(100).optional(),
+	currency: z.string().optional(),
+	bankDetails: beneficiaryBankDetails.optional(),
+});
+
+// Fee schedules: percentages are 0-100, amounts in the schedule currency; a max of 0 means uncapped
+const feeRateFields = {
+	percent: z.number().min(0).max(100).optional(),
+	flat: z.number().min(0).optional(),
+	min: z.number().min(0).optional(),
+	max: z.number().min(0).optional(),
+};
+
+const feeTier = z
+	.object({
+		name: z.string().trim().min(1, "Tier name is required").max(50),
+		kycStatus: z.enum(["notSubmitted", "unverified", "pending", "approved", "rejected", "incomplete", "expired"]).optional(),
+		plan: z.string().trim().min(1).max(100).optional(),
+		...feeRateFields,
+	})
+	.refine((tier) => Boolean(tier.kycStatus || tier.plan), {
+		message: "A tier needs a kycStatus or a plan",
+		path: ["kycStatus"],
+	});
+
+const feeScheduleFields = {
+	currency: z.string().optional(),
+	description: z.string().max(500).optional(),
+	...feeRateFields,
+	tiers: z.array(feeTier).max(20).optional(),
+	active: z.boolean().optional(),
+};
+
+const checkFeeCaps = (data: { min?: number; max?: number }, ctx: z.RefinementCtx) => {
+	if (data.min !== undefined && data.max && data.max < data.min) {
+		ctx.addIssue({ code: "custom", path: ["max"], message: "max must not be below min" });
+	}
+};
+
+export const feeScheduleSchema = z
+	.object({
+		type: z.enum(FEE_TYPES),
+		...feeScheduleFields,
+	})
+	.superRefine(checkFeeCaps);
+
+export const feeScheduleUpdateSchema = z.object(feeScheduleFields).superRefine(checkFeeCaps);
+
 // Flight booking validation schema
 export const flightBookingSchema = z.object({
 	userId: z.string().length(24, "Invalid user ID"),
@@ -131,6 +246,68 @@ export const flightBookingSchema = z.object({
 	fee: z.number().optional(),
 });
 
+const metalProductFields = {
+	product: z.enum(CONTRACT_PRODUCT_TYPES as [string, ...string[]]),
+	name: z.string().min(1, "Name is required").max(100),
+	description: z.string().max(1000).optional(),
+	weight: z.string().min(1, "Weight is required").max(30),
+	weightGrams: z.number().positive("weightGrams must be positive"),
+	purity: z.number().min(0).max(1).optional(),
+	price: z.number().positive("Price must be positive"),
+	deliveryPeriods: z.array(z.enum(DELIVERY_PERIODS)).min(1).optional(),
+	isActive: z.boolean().optional(),
+};
+
+export const metalProductSchema = z.object(metalProductFields);
+
+export const metalProductUpdateSchema = z.object(metalProductFields).partial();
+
+export const metalsOrderSchema = z.object({
+	products: z
+		.array(
+			z.object({
+				productId: z.string().length(24, "Invalid product ID"),
+				quantity: z.number().int().positive("Quantity must be positive"),
+				deliveryPeriod: z.enum(DELIVERY_PERIODS).default("immediate"),
+			}),
+		)
+		.min(1, "Add at least one product"),
+});
+
+// Card network messages (processor or simulator)
+export const cardAuthorizationSchema = z
+	.object({
+		cardId: z.string().length(24, "Invalid card ID").optional(),
+		cardNumber: z.string().regex(/^[\d ]{12,23}$/, "Invalid card number").optional(),
+		expiryMonth: z.string().regex(/^\d{1,2}$/).optional(),
+		expiryYear: z.string().regex(/^\d{2}(\d{2})?$/).optional(),
+		cvv: z.string().regex(/^\d{3,4}$/).optional(),
+		amount: z.number().positive("Amount must be positive"),
+		currency: z.string().min(3).max(5).optional(),
+		merchant: z.object({
+			name: z.string().min(1, "Merchant name is required").max(200),
+			category: z.string().max(10).optional(),
+			country: z.string().max(3).optional(),
+		}),
+		reference: z.string().min(1, "reference is required").max(100),
+	})
+	.refine((data) => data.cardId || data.cardNumber, { message: "cardId or cardNumber is required" });
+
+export const cardAdjustmentSchema = z.object({
+	amount: z.number().positive("Amount must be positive").optional(),
+	reference: z.string().min(1).max(100).optional(),
+});
+
+// Referral program settings; fields left out keep their current value
+export const referralSettingsSchema = z.object({
+	levels: z.array(z.number().min(0).max(100)).min(1, "Add at least one level").max(5, "At most 5 levels").optional(),
+	perCommissionCap: z.number().min(0).optional(),
+	perReferrerCap: z.number().min(0).optional(),
+	firstDepositOnly: z.boolean().optional(),
+	requireKycApproved: z.boolean().optional(),
+	minDepositAmount: z.number().min(0).optional(),
+});
+
 // KYC submission validation schema
 export const kycSubmissionSchema = z.object({
 	documentFront: z.string().url("Invalid document front URL"),
@@ -0,0 +1,53 @@
+import mongoose from "mongoose";
+
+export interface IBeneficiaryBankDetails {
+	bankName: string;
+	accountNumber: string;
+	routingNumber: string;
+	iban: string;
+	swift: string;
+	country: string;
+	bankAddress: string;
+}
+
+export interface IBeneficiary extends mongoose.Document {
+	userId: mongoose.Types.ObjectId;
+	nickname: string;
+	name: string;
+	currency: string;
+	bankDetails: IBeneficiaryBankDetails;
+	// End of the cooling-off period; no transfers to this beneficiary before then
+	availableAt: Date;
+	lastUsedAt: Date | null;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+// Saved external transfer recipient in a user's address book
+const beneficiarySchema = new mongoose.Schema(
+	{
+		userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true, index: true },
+		nickname: { type: String, required: true, trim: true, maxLength: 50 },
+		name: { type: String, required: true, trim: true, maxLength: 100 },
+		currency: { type: String, default: "USD" },
+		bankDetails: {
+			bankName: { type: String, default: "" },
+			accountNumber: { type: String, default: "" },
+			routingNumber: { type: String, default: "" },
+			iban: { type: String, default: "" },
+			swift: { type: String, default: "" },
+			country: { type: String, default: "" },
+			bankAddress: { type: String, default: "" },
+		},
+		availableAt: { type: Date, required: true },
+		lastUsedAt: { type: Date, default: null },
+	},
+	{
+		timestamps: true,
+	},
+);
+
+// Nicknames are unique per user, ignoring case
+beneficiarySchema.index({ userId: 1, nickname: 1 }, { unique: true, collation: { locale: "en", strength: 2 } });
+
+export const Beneficiary = mongoose.model<IBeneficiary>("Beneficiary", beneficiarySchema);
@@ -0,0 +1,94 @@
+import mongoose from "mongoose";
+
+export const CARD_AUTHORIZATION_STATUSES = ["declined", "authorized", "captured", "reversed", "refunded"] as const;
+export type CardAuthorizationStatus = (typeof CARD_AUTHORIZATION_STATUSES)[number];
+
+export const CARD_DECLINE_REASONS = [
+	"card_not_active",
+	"card_expired",
+	"invalid_card_details",
+	"currency_mismatch",
+	"exceeds_transaction_limit",
+	"exceeds_daily_limit",
+	"exceeds_monthly_limit",
+	"insufficient_funds",
+] as const;
+export type CardDeclineReason = (typeof CARD_DECLINE_REASONS)[number];
+
+export type CardAuthorizationEventType = "authorization" | "decline" | "capture" | "reversal" | "refund" | "expiry";
+
+export interface ICardAuthorizationEvent {
+	type: CardAuthorizationEventType;
+	amount: number;
+	// Processor message id; a repeated message is answered without applying it twice
+	reference: string;
+	at: Date;
+}
+
+export interface ICardAuthorization extends mongoose.Document {
+	cardId: mongoose.Types.ObjectId;
+	userId: mongoose.Types.ObjectId;
+	// Processor reference of the authorization request; repeats return the same authorization
+	reference: string;
+	authorizationCode: string;
+	merchant: {
+		name: string;
+		category: string;
+		country: string;
+	};
+	amount: number;
+	currency: string;
+	// Moved to settlement, returned to the card before capture (including an uncaptured
+	// remainder), and given back after capture
+	capturedAmount: number;
+	reversedAmount: number;
+	refundedAmount: number;
+	status: CardAuthorizationStatus;
+	declineReason: CardDeclineReason | null;
+	// Authorizations still open at this time are reversed by the expiry job
+	expiresAt: Date | null;
+	events: ICardAuthorizationEvent[];
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+// One card payment from authorization to settlement; declined attempts are kept for the card's history
+const cardAuthorizationSchema = new mongoose.Schema(
+	{
+		cardId: { type: mongoose.Schema.Types.ObjectId, ref: "Card", required: true },
+		userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+		reference: { type: String, required: true },
+		authorizationCode: { type: String, default: "" },
+		merchant: {
+			name: { type: String, required: true },
+			category: { type: String, default: "" },
+			country: { type: String, default: "" },
+		},
+		amount: { type: Number, required: true, min: 0 },
+		currency: { type: String, default: "USD" },
+		capturedAmount: { type: Number, default: 0, min: 0 },
+		reversedAmount: { type: Number, default: 0, min: 0 },
+		refundedAmount: { type: Number, default: 0, min: 0 },
+		status: { type: String, enum: CARD_AUTHORIZATION_STATUSES, required: true },
+		declineReason: { type: String, enum: [...CARD_DECLINE_REASONS, null], default: null },
+		expiresAt: { type: Date, default: null },
+		events: [
+			{
+				_id: false,
+				type: { type: String, enum: ["authorization", "decline", "capture", "reversal", "refund", "expiry"], required: true },
+				amount: { type: Number, default: 0 },
+				reference: { type: String, default: "" },
+				at: { type: Date, default: Date.now },
+			},
+		],
+	},
+	{
+		timestamps: true,
+	},
+);
+
+cardAuthorizationSchema.index({ reference: 1 }, { unique: true });
+cardAuthorizationSchema.index({ cardId: 1, createdAt: -1 });
+cardAuthorizationSchema.index({ status: 1, expiresAt: 1 });
+
+export const CardAuthorization = mongoose.model<ICardAuthorization>("CardAuthorization", cardAuthorizationSchema);
@@ -0,0 +1,83 @@
+import mongoose from "mongoose";
+
+// Transaction types the fee engine prices; each has at most one schedule per currency
+export const FEE_TYPES = [
+	"internal_transfer",
+	"external_transfer",
+	"crypto_withdrawal",
+	"withdrawal",
+	"card_issuance",
+	"card_funding",
+	"gift_card_issue",
+	"gift_card_purchase",
+	"flight_booking",
+] as const;
+
+export type FeeType = (typeof FEE_TYPES)[number];
+
+export interface IFeeRate {
+	percent: number;
+	flat: number;
+	min: number;
+	// 0 means uncapped
+	max: number;
+}
+
+export interface IFeeTier extends Partial<IFeeRate> {
+	name: string;
+	// A tier applies when every condition it sets matches the user
+	kycStatus?: string;
+	plan?: string;
+}
+
+export interface IFeeSchedule extends mongoose.Document, IFeeRate {
+	type: FeeType;
+	// "*" applies to every currency without a schedule of its own
+	currency: string;
+	description: string;
+	tiers: IFeeTier[];
+	active: boolean;
+	updatedBy: {
+		userId: mongoose.Types.ObjectId | null;
+		email: string;
+	};
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+const feeScheduleSchema = new mongoose.Schema(
+	{
+		type: { type: String, enum: FEE_TYPES, required: true },
+		currency: { type: String, default: "*", uppercase: true, trim: true },
+		description: { type: String, default: "", maxLength: 500 },
+		percent: { type: Number, default: 0, min: 0, max: 100 },
+		flat: { type: Number, default: 0, min: 0 },
+		min: { type: Number, default: 0, min: 0 },
+		max: { type: Number, default: 0, min: 0 },
+		// Checked in order; the first matching tier overrides the base rate fields it sets
+		tiers: [
+			{
+				_id: false,
+				name: { type: String, required: true, trim: true },
+				kycStatus: { type: String },
+				plan: { type: String, trim: true },
+				percent: { type: Number, min: 0, max: 100 },
+				flat: { type: Number, min: 0 },
+				min: { type: Number, min: 0 },
+				max: { type: Number, min: 0 },
+			},
+		],
+		active: { type: Boolean, default: true },
+		updatedBy: {
+			userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+			email: { type: String, default: "" },
+		},
+	},
+	{
+		timestamps: true,
+	},
+);
+
+feeScheduleSchema.index({ type: 1, currency: 1 }, { unique: true });
+
+export const FeeSchedule = mongoose.model<IFeeSchedule>("FeeSchedule", feeScheduleSchema);
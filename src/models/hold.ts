@@ -0,0 +1,55 @@
+import mongoose from "mongoose";
+import { UserBalanceBucket } from "./ledger";
+
+export type HoldStatus = "active" | "captured" | "released";
+
+export interface IHoldAllocation {
+	bucket: UserBalanceBucket;
+	amount: number;
+}
+
+export interface IHold extends mongoose.Document {
+	userId: mongoose.Types.ObjectId;
+	transactionId: mongoose.Types.ObjectId;
+	referenceType: string;
+	currency: string;
+	amount: number;
+	// Buckets the funds were taken from, so a release puts them back where they were
+	allocations: IHoldAllocation[];
+	status: HoldStatus;
+	capturedAt: Date | null;
+	releasedAt: Date | null;
+	releaseReason: string;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+// Funds reserved for a pending transaction until it is approved (captured) or rejected (released)
+const holdSchema = new mongoose.Schema(
+	{
+		userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+		transactionId: { type: mongoose.Schema.Types.ObjectId, ref: "Transaction", required: true },
+		referenceType: { type: String, required: true },
+		currency: { type: String, default: "USD" },
+		amount: { type: Number, required: true, min: 0 },
+		allocations: [
+			{
+				_id: false,
+				bucket: { type: String, enum: ["deposit", "interest", "bonus"], required: true },
+				amount: { type: Number, required: true },
+			},
+		],
+		status: { type: String, enum: ["active", "captured", "released"], default: "active" },
+		capturedAt: { type: Date, default: null },
+		releasedAt: { type: Date, default: null },
+		releaseReason: { type: String, default: "" },
+	},
+	{
+		timestamps: true,
+	},
+);
+
+holdSchema.index({ transactionId: 1 }, { unique: true });
+holdSchema.index({ userId: 1, status: 1, currency: 1 });
+
+export const Hold = mongoose.model<IHold>("Hold", holdSchema);
@@ -0,0 +1,40 @@
+import mongoose from "mongoose";
+
+export interface IIdempotencyKey extends mongoose.Document {
+	key: string;
+	userId?: mongoose.Types.ObjectId | null;
+	method: string;
+	path: string;
+	fingerprint: string;
+	status: "processing" | "completed";
+	response: {
+		statusCode: number | null;
+		body: any;
+	};
+	createdAt: Date;
+	completedAt?: Date | null;
+}
+
+// One record per client-supplied Idempotency-Key and user. The stored response is replayed
+// when the same request is retried; records expire after a day.
+const idempotencyKeySchema = new mongoose.Schema(
+	{
+		key: { type: String, required: true, maxLength: 255 },
+		userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+		method: { type: String, required: true },
+		path: { type: String, required: true },
+		// sha256 of method, path and body
+		fingerprint: { type: String, required: true },
+		status: { type: String, enum: ["processing", "completed"], default: "processing" },
+		response: {
+			statusCode: { type: Number, default: null },
+			body: { type: mongoose.Schema.Types.Mixed, default: null },
+		},
+		createdAt: { type: Date, default: Date.now, expires: 24 * 60 * 60 },
+		completedAt: { type: Date, default: null },
+	},
+);
+
+idempotencyKeySchema.index({ key: 1, userId: 1 }, { unique: true });
+
+export const IdempotencyKey = mongoose.model<IIdempotencyKey>("IdempotencyKey", idempotencyKeySchema);
@@ -0,0 +1,38 @@
+import mongoose from "mongoose";
+
+export interface IInterestAccrual extends mongoose.Document {
+	contractId: mongoose.Types.ObjectId;
+	userId: mongoose.Types.ObjectId;
+	// 1-based day of the contract term; day N accrues once N full days have passed since opening
+	day: number;
+	// End of the day that accrued
+	accruedFor: Date;
+	amount: number;
+	currency: string;
+	plan: string;
+	journalEntryId: mongoose.Types.ObjectId | null;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+// One day of interest credited on a contract; the unique index makes each contract-day accrue once
+const interestAccrualSchema = new mongoose.Schema(
+	{
+		contractId: { type: mongoose.Schema.Types.ObjectId, ref: "Transaction", required: true },
+		userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+		day: { type: Number, required: true, min: 1 },
+		accruedFor: { type: Date, required: true },
+		amount: { type: Number, required: true, min: 0 },
+		currency: { type: String, default: "USD" },
+		plan: { type: String, default: "" },
+		journalEntryId: { type: mongoose.Schema.Types.ObjectId, ref: "JournalEntry", default: null },
+	},
+	{
+		timestamps: true,
+	},
+);
+
+interestAccrualSchema.index({ contractId: 1, day: 1 }, { unique: true });
+interestAccrualSchema.index({ userId: 1, accruedFor: -1 });
+
+export const InterestAccrual = mongoose.model<IInterestAccrual>("InterestAccrual", interestAccrualSchema);
@@ -0,0 +1,113 @@
+import mongoose from "mongoose";
+
+export type LedgerAccountKind = "asset" | "liability" | "equity" | "revenue" | "expense";
+export type UserBalanceBucket = "deposit" | "interest" | "bonus";
+
+export interface ILedgerAccount extends mongoose.Document {
+	code: string;
+	kind: LedgerAccountKind;
+	owner: "user" | "system";
+	userId?: mongoose.Types.ObjectId | null;
+	bucket?: UserBalanceBucket | null;
+	name: string;
+	currency: string;
+	balance: number;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+export interface IPosting {
+	account: string;
+	userId?: mongoose.Types.ObjectId | null;
+	debit: number;
+	credit: number;
+	currency: string;
+	memo?: string;
+}
+
+export interface IJournalEntry extends mongoose.Document {
+	description: string;
+	reference: {
+		type: string;
+		transactionIds: mongoose.Types.ObjectId[];
+	};
+	postings: IPosting[];
+	createdBy: {
+		userId?: mongoose.Types.ObjectId | null;
+		email: string;
+	};
+	postedAt: Date;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+// Chart of accounts. User balance buckets are liabilities (what the platform owes the user),
+// system accounts hold the other side of every movement.
+const ledgerAccountSchema = new mongoose.Schema(
+	{
+		code: { type: String, required: true, unique: true },
+		kind: {
+			type: String,
+			enum: ["asset", "liability", "equity", "revenue", "expense"],
+			required: true,
+		},
+		owner: { type: String, enum: ["user", "system"], required: true },
+		userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+		bucket: { type: String, enum: ["deposit", "interest", "bonus", null], default: null },
+		name: { type: String, required: true },
+		currency: { type: String, default: "USD" },
+		// Balance on the account's normal side (debit for assets/expenses, credit otherwise)
+		balance: { type: Number, default: 0 },
+	},
+	{
+		timestamps: true,
+	},
+);
+
+ledgerAccountSchema.index({ userId: 1, currency: 1 });
+ledgerAccountSchema.index({ owner: 1, kind: 1 });
+
+const postingSchema = new mongoose.Schema(
+	{
+		account: { type: String, required: true },
+		userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+		debit: { type: Number, default: 0, min: 0 },
+		credit: { type: Number, default: 0, min: 0 },
+		currency: { type: String, default: "USD" },
+		memo: { type: String, default: "" },
+	},
+	{ _id: false },
+);
+
+const journalEntrySchema = new mongoose.Schema(
+	{
+		description: { type: String, required: true },
+		reference: {
+			type: { type: String, default: "" },
+			transactionIds: [{ type: mongoose.Schema.Types.ObjectId, ref: "Transaction" }],
+		},
+		postings: {
+			type: [postingSchema],
+			validate: {
+				validator: (postings: IPosting[]) => postings.length >= 2,
+				message: "A journal entry needs at least two postings",
+			},
+		},
+		createdBy: {
+			userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+			email: { type: String, default: "" },
+		},
+		postedAt: { type: Date, default: Date.now },
+	},
+	{
+		timestamps: true,
+	},
+);
+
+journalEntrySchema.index({ "postings.account": 1, postedAt: -1 });
+journalEntrySchema.index({ "postings.userId": 1, postedAt: -1 });
+journalEntrySchema.index({ "reference.transactionIds": 1 });
+journalEntrySchema.index({ postedAt: -1 });
+
+export const LedgerAccount = mongoose.model<ILedgerAccount>("LedgerAccount", ledgerAccountSchema);
+export const JournalEntry = mongoose.model<IJournalEntry>("JournalEntry", journalEntrySchema);
@@ -0,0 +1,102 @@
+import mongoose from "mongoose";
+import {
+	CONTRACT_PRODUCT_TYPES,
+	ContractProductType,
+	DELIVERY_PERIODS,
+	DELIVERY_STATUSES,
+	DeliveryPeriod,
+	DeliveryStatus,
+	MetalOrderStatus,
+} from "../types/contract.types";
+
+export interface IMetalOrderLine extends mongoose.Types.Subdocument {
+	productId: mongoose.Types.ObjectId;
+	product: ContractProductType;
+	name: string;
+	weight: string;
+	weightGrams: number;
+	purity: number;
+	price: number;
+	quantity: number;
+	deliveryPeriod: DeliveryPeriod;
+	// Share of the order in percent
+	percentage: number;
+	// price x quantity, and what the line cost after its share of the premium benefit
+	amount: number;
+	totalSum: number;
+	status: DeliveryStatus;
+	expectedAt: Date;
+	shippedAt: Date | null;
+	deliveredAt: Date | null;
+	trackingNumber: string;
+}
+
+export interface IMetalOrder extends mongoose.Document {
+	orderNumber: string;
+	userId: mongoose.Types.ObjectId;
+	email: string;
+	products: mongoose.Types.DocumentArray<IMetalOrderLine>;
+	tempSum: number;
+	finalSum: number;
+	minimumOrderAmount: number;
+	premiumBenefit: { amount: number; quantity: number };
+	currency: string;
+	status: MetalOrderStatus;
+	transactionId: mongoose.Types.ObjectId;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+const metalOrderLineSchema = new mongoose.Schema({
+	productId: { type: mongoose.Schema.Types.ObjectId, ref: "MetalProduct", required: true },
+	product: { type: String, enum: CONTRACT_PRODUCT_TYPES, required: true },
+	name: { type: String, required: true },
+	weight: { type: String, required: true },
+	weightGrams: { type: Number, required: true },
+	purity: { type: Number, default: 0.999 },
+	price: { type: Number, required: true, min: 0 },
+	quantity: { type: Number, required: true, min: 1 },
+	deliveryPeriod: { type: String, enum: DELIVERY_PERIODS, required: true },
+	percentage: { type: Number, default: 0 },
+	amount: { type: Number, required: true, min: 0 },
+	totalSum: { type: Number, required: true, min: 0 },
+	status: { type: String, enum: DELIVERY_STATUSES, default: "scheduled" },
+	expectedAt: { type: Date, required: true },
+	shippedAt: { type: Date, default: null },
+	deliveredAt: { type: Date, default: null },
+	trackingNumber: { type: String, default: "" },
+});
+
+// A paid portfolio checkout; each line is delivered on its own timeline
+const metalOrderSchema = new mongoose.Schema(
+	{
+		orderNumber: { type: String, required: true, unique: true },
+		userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+		email: { type: String, default: "" },
+		products: { type: [metalOrderLineSchema], validate: (lines: unknown[]) => lines.length > 0 },
+		tempSum: { type: Number, required: true, min: 0 },
+		finalSum: { type: Number, required: true, min: 0 },
+		minimumOrderAmount: { type: Number, default: 0 },
+		// Discount on large orders and how many units it covered
+		premiumBenefit: {
+			amount: { type: Number, default: 0 },
+			quantity: { type: Number, default: 0 },
+		},
+		currency: { type: String, default: "USD" },
+		status: {
+			type: String,
+			enum: ["processing", "partially_delivered", "delivered"],
+			default: "processing",
+		},
+		// The metals_order transaction that debited the user
+		transactionId: { type: mongoose.Schema.Types.ObjectId, ref: "Transaction", required: true },
+	},
+	{
+		timestamps: true,
+	},
+);
+
+metalOrderSchema.index({ userId: 1, createdAt: -1 });
+metalOrderSchema.index({ "products.status": 1, "products.expectedAt": 1 });
+
+export const MetalOrder = mongoose.model<IMetalOrder>("MetalOrder", metalOrderSchema);
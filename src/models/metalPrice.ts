@@ -0,0 +1,85 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { METALS, Metal } from '../types/contract.types';
+
+export interface IMetalPrice extends Document {
+  metal: Metal;
+  displayName: string;
+  // Exchange symbol, e.g. XAU
+  symbol: string;
+  // USD per troy ounce
+  currentPrice: number;
+  previousPrice?: number;
+  change?: number;
+  changePercent?: number;
+  lastUpdated: Date;
+  source: string;
+  isActive: boolean;
+  historicalData: Array<{
+    date: Date;
+    price: number;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Spot price of one metal, kept like MarketRate: the latest value plus its history
+const metalPriceSchema = new Schema<IMetalPrice>({
+  metal: {
+    type: String,
+    required: true,
+    unique: true,
+    enum: METALS,
+  },
+  displayName: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  symbol: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  currentPrice: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  previousPrice: {
+    type: Number,
+  },
+  change: {
+    type: Number,
+  },
+  changePercent: {
+    type: Number,
+  },
+  lastUpdated: {
+    type: Date,
+    default: Date.now,
+  },
+  source: {
+    type: String,
+    required: true,
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+  historicalData: [{
+    date: {
+      type: Date,
+      required: true,
+    },
+    price: {
+      type: Number,
+      required: true,
+    },
+  }],
+}, {
+  timestamps: true,
+});
+
+metalPriceSchema.index({ lastUpdated: -1 });
+
+export default mongoose.model<IMetalPrice>('MetalPrice', metalPriceSchema);
@@ -0,0 +1,44 @@
+import mongoose from "mongoose";
+import { CONTRACT_PRODUCT_TYPES, ContractProductType, DELIVERY_PERIODS, DeliveryPeriod } from "../types/contract.types";
+
+export interface IMetalProduct extends mongoose.Document {
+	product: ContractProductType;
+	name: string;
+	description: string;
+	// Label shown to users, e.g. "1 oz" or "100 g"
+	weight: string;
+	weightGrams: number;
+	// Fineness, e.g. 0.9999
+	purity: number;
+	// USD per unit
+	price: number;
+	deliveryPeriods: DeliveryPeriod[];
+	isActive: boolean;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+// Bar or coin in the metals catalogue; orders copy what they need, so products can change or go away
+const metalProductSchema = new mongoose.Schema(
+	{
+		product: { type: String, enum: CONTRACT_PRODUCT_TYPES, required: true },
+		name: { type: String, required: true, trim: true },
+		description: { type: String, default: "" },
+		weight: { type: String, required: true, trim: true },
+		weightGrams: { type: Number, required: true, min: 0.01 },
+		purity: { type: Number, min: 0, max: 1, default: 0.999 },
+		price: { type: Number, required: true, min: 0.01 },
+		deliveryPeriods: {
+			type: [{ type: String, enum: DELIVERY_PERIODS }],
+			default: () => [...DELIVERY_PERIODS],
+		},
+		isActive: { type: Boolean, default: true },
+	},
+	{
+		timestamps: true,
+	},
+);
+
+metalProductSchema.index({ product: 1, weightGrams: 1 });
+
+export const MetalProduct = mongoose.model<IMetalProduct>("MetalProduct", metalProductSchema);
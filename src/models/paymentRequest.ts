@@ -0,0 +1,54 @@
+import mongoose from "mongoose";
+
+export type PaymentRequestStatus = "pending" | "paid" | "declined" | "cancelled" | "expired";
+
+export interface IPaymentRequest extends mongoose.Document {
+	requesterId: mongoose.Types.ObjectId;
+	requesterEmail: string;
+	payerId: mongoose.Types.ObjectId;
+	payerEmail: string;
+	amount: number;
+	currency: string;
+	memo: string;
+	status: PaymentRequestStatus;
+	expiresAt: Date;
+	remindersSent: number;
+	lastReminderAt: Date | null;
+	respondedAt: Date | null;
+	declineReason: string;
+	transactionIds: mongoose.Types.ObjectId[];
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+// Pull-style request: the requester asks the payer for money, the payer approves or declines
+const paymentRequestSchema = new mongoose.Schema(
+	{
+		requesterId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true, index: true },
+		requesterEmail: { type: String, default: "" },
+		payerId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true, index: true },
+		payerEmail: { type: String, default: "" },
+		amount: { type: Number, required: true, min: 0.01 },
+		currency: { type: String, default: "USD" },
+		memo: { type: String, default: "", maxLength: 500 },
+		status: {
+			type: String,
+			enum: ["pending", "paid", "declined", "cancelled", "expired"],
+			default: "pending",
+		},
+		expiresAt: { type: Date, required: true },
+		remindersSent: { type: Number, default: 0 },
+		lastReminderAt: { type: Date, default: null },
+		respondedAt: { type: Date, default: null },
+		declineReason: { type: String, default: "", maxLength: 500 },
+		// Debit and credit transactions of the internal transfer that paid the request
+		transactionIds: [{ type: mongoose.Schema.Types.ObjectId, ref: "Transaction" }],
+	},
+	{
+		timestamps: true,
+	},
+);
+
+paymentRequestSchema.index({ status: 1, expiresAt: 1 });
+
+export const PaymentRequest = mongoose.model<IPaymentRequest>("PaymentRequest", paymentRequestSchema);
@@ -6,35 +6,108 @@ const planSchema = new mongoose.Schema({
     required: true,
     trim: true
   },
+  // Tier label shown to users, e.g. "starter", "gold", "platinum"
+  tier: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true
+  },
   description: {
     type: String,
     required: true
   },
-  roi: {
+  // Contract amount bounds in USD; maxContract null means no upper bound
+  minContract: {
     type: Number,
     required: true,
+    min: 0
+  },
+  maxContract: {
+    type: Number,
     min: 0,
-    max: 1000
+    default: null,
+    validate: {
+      validator: function (this: any, value: number | null) {
+        return value === null || value === undefined || value >= (this.minContract || 0);
+      },
+      message: "maxContract must not be below minContract"
+    }
   },
-  minAmount: {
+  // Percent of the principal earned per day
+  dailyReturn: {
     type: Number,
     required: true,
-    min: 0
+    min: 0,
+    max: 100
   },
-  duration: {
-    type: String,
-    required: true
+  // Contract term in days
+  planDuration: {
+    type: Number,
+    required: true,
+    min: 1,
+    validate: {
+      validator: Number.isInteger,
+      message: "planDuration must be a whole number of days"
+    }
+  },
+  // Percent of the principal backed by physical gold
+  goldBacking: {
+    type: Number,
+    min: 0,
+    max: 100,
+    default: 0
+  },
+  // Most a user holding an active contract on this plan may withdraw per 24 hours (USD); 0 means no limit
+  withdrawalLimit: {
+    type: Number,
+    min: 0,
+    default: 0
   },
   features: [{
     type: String,
     required: true
   }],
+  color: {
+    primary: { type: String, default: "#1f2937" },
+    secondary: { type: String, default: "#374151" },
+    accent: { type: String, default: "#d4af37" }
+  },
   isActive: {
     type: Boolean,
     default: true
+  },
+  // Percent of the principal kept when a user terminates a contract before it matures;
+  // unset falls back to EARLY_TERMINATION_PENALTY_PERCENT
+  earlyTerminationPenalty: {
+    type: Number,
+    min: 0,
+    max: 100
+  },
+  // Derived from the tier fields on save and kept for contracts and clients that read them:
+  // roi is the return over the whole term, minAmount mirrors minContract, duration is "<planDuration> days"
+  roi: {
+    type: Number,
+    min: 0
+  },
+  minAmount: {
+    type: Number,
+    min: 0
+  },
+  duration: {
+    type: String
   }
 }, {
   timestamps: true
 });
 
-export const Plan = mongoose.model("Plan", planSchema);
\ No newline at end of file
+planSchema.pre("validate", function (next) {
+  if (this.minContract !== undefined && this.minContract !== null) this.minAmount = this.minContract;
+  if (this.dailyReturn !== undefined && this.planDuration) {
+    this.roi = Math.round(this.dailyReturn * this.planDuration * 10000) / 10000;
+    this.duration = `${this.planDuration} days`;
+  }
+  next();
+});
+
+export const Plan = mongoose.model("Plan", planSchema);
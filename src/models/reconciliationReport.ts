@@ -0,0 +1,77 @@
+import mongoose from "mongoose";
+
+export type ReconciliationField = "deposit" | "interest" | "bonus" | "withdraw";
+
+export interface IReconciliationMismatch {
+	userId: mongoose.Types.ObjectId;
+	email: string;
+	currency: string;
+	field: ReconciliationField;
+	expected: number;
+	actual: number;
+	difference: number;
+}
+
+export interface IReconciliationReport extends mongoose.Document {
+	trigger: "manual" | "scheduled" | "script";
+	status: "running" | "completed" | "failed";
+	startedAt: Date;
+	finishedAt?: Date | null;
+	tolerance: number;
+	usersChecked: number;
+	usersWithDrift: number;
+	transactionsReplayed: number;
+	mismatches: IReconciliationMismatch[];
+	error: string;
+	createdBy: {
+		userId?: mongoose.Types.ObjectId | null;
+		email: string;
+	};
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+const mismatchSchema = new mongoose.Schema(
+	{
+		userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+		email: { type: String, default: "" },
+		currency: { type: String, default: "USD" },
+		field: { type: String, enum: ["deposit", "interest", "bonus", "withdraw"], required: true },
+		expected: { type: Number, required: true },
+		actual: { type: Number, required: true },
+		// actual - expected
+		difference: { type: Number, required: true },
+	},
+	{ _id: false },
+);
+
+// Result of replaying every user's transactions against the balances stored on the user
+const reconciliationReportSchema = new mongoose.Schema(
+	{
+		trigger: { type: String, enum: ["manual", "scheduled", "script"], default: "manual" },
+		status: { type: String, enum: ["running", "completed", "failed"], default: "running", index: true },
+		startedAt: { type: Date, default: Date.now },
+		finishedAt: { type: Date, default: null },
+		tolerance: { type: Number, default: 0.01 },
+		usersChecked: { type: Number, default: 0 },
+		usersWithDrift: { type: Number, default: 0 },
+		transactionsReplayed: { type: Number, default: 0 },
+		mismatches: { type: [mismatchSchema], default: [] },
+		error: { type: String, default: "" },
+		createdBy: {
+			userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+			email: { type: String, default: "" },
+		},
+	},
+	{
+		timestamps: true,
+	},
+);
+
+reconciliationReportSchema.index({ createdAt: -1 });
+reconciliationReportSchema.index({ "mismatches.userId": 1 });
+
+export const ReconciliationReport = mongoose.model<IReconciliationReport>(
+	"ReconciliationReport",
+	reconciliationReportSchema,
+);
@@ -0,0 +1,89 @@
+import mongoose from "mongoose";
+
+export interface IReferralCommission extends mongoose.Document {
+	referrerId: mongoose.Types.ObjectId;
+	referredUserId: mongoose.Types.ObjectId;
+	depositId: mongoose.Types.ObjectId;
+	// 1 for the direct referrer, 2 for their referrer, and so on
+	level: number;
+	// Percent of the deposit at this level, and the deposit it applied to
+	rate: number;
+	depositAmount: number;
+	amount: number;
+	currency: string;
+	// Reduced by the per-commission or per-referrer cap
+	capped: boolean;
+	transactionId: mongoose.Types.ObjectId;
+	journalEntryId: mongoose.Types.ObjectId;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+export interface IReferralSettings extends mongoose.Document {
+	key: string;
+	// Commission percent per level, direct referrer first
+	levels: number[];
+	// Most one commission pays, and most a referrer earns in total (USD); 0 means no cap
+	perCommissionCap: number;
+	perReferrerCap: number;
+	// Only the referred user's first qualifying deposit pays commission
+	firstDepositOnly: boolean;
+	// The referred user, and every referrer paid, must have approved KYC
+	requireKycApproved: boolean;
+	minDepositAmount: number;
+	updatedBy: {
+		userId?: mongoose.Types.ObjectId | null;
+		email: string;
+	};
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+// One commission paid to one referrer for one deposit; the unique index pays each pair once
+const referralCommissionSchema = new mongoose.Schema(
+	{
+		referrerId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+		referredUserId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+		depositId: { type: mongoose.Schema.Types.ObjectId, ref: "Transaction", required: true },
+		level: { type: Number, required: true, min: 1 },
+		rate: { type: Number, required: true, min: 0 },
+		depositAmount: { type: Number, required: true, min: 0 },
+		amount: { type: Number, required: true, min: 0 },
+		currency: { type: String, default: "USD" },
+		capped: { type: Boolean, default: false },
+		transactionId: { type: mongoose.Schema.Types.ObjectId, ref: "Transaction", required: true },
+		journalEntryId: { type: mongoose.Schema.Types.ObjectId, ref: "JournalEntry", required: true },
+	},
+	{
+		timestamps: true,
+	},
+);
+
+referralCommissionSchema.index({ depositId: 1, referrerId: 1 }, { unique: true });
+referralCommissionSchema.index({ referrerId: 1, createdAt: -1 });
+
+// Program settings saved by an admin; a single document, env defaults apply until it exists
+const referralSettingsSchema = new mongoose.Schema(
+	{
+		key: { type: String, default: "default", unique: true },
+		levels: {
+			type: [{ type: Number, min: 0, max: 100 }],
+			validate: (levels: number[]) => levels.length >= 1 && levels.length <= 5,
+		},
+		perCommissionCap: { type: Number, min: 0, default: 0 },
+		perReferrerCap: { type: Number, min: 0, default: 0 },
+		firstDepositOnly: { type: Boolean, default: true },
+		requireKycApproved: { type: Boolean, default: true },
+		minDepositAmount: { type: Number, min: 0, default: 0 },
+		updatedBy: {
+			userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+			email: { type: String, default: "" },
+		},
+	},
+	{
+		timestamps: true,
+	},
+);
+
+export const ReferralCommission = mongoose.model<IReferralCommission>("ReferralCommission", referralCommissionSchema);
+export const ReferralSettings = mongoose.model<IReferralSettings>("ReferralSettings", referralSettingsSchema);
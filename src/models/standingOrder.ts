@@ -0,0 +1,64 @@
+import mongoose from "mongoose";
+
+export type StandingOrderFrequency = "once" | "weekly" | "monthly";
+export type StandingOrderStatus = "active" | "paused" | "cancelled" | "completed" | "failed";
+
+export interface IStandingOrder extends mongoose.Document {
+	userId: mongoose.Types.ObjectId;
+	toUserId: mongoose.Types.ObjectId;
+	toEmail: string;
+	amount: number;
+	currency: string;
+	memo: string;
+	frequency: StandingOrderFrequency;
+	startDate: Date;
+	endDate: Date | null;
+	// Occurrence currently being paid and when the runner should next try it (later than nextRunAt while retrying)
+	nextRunAt: Date | null;
+	dueAt: Date | null;
+	status: StandingOrderStatus;
+	runs: number;
+	failedAttempts: number;
+	lastRunAt: Date | null;
+	lastError: string;
+	transactionIds: mongoose.Types.ObjectId[];
+	cancelledAt: Date | null;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+// Scheduled or recurring internal transfer to another platform user
+const standingOrderSchema = new mongoose.Schema(
+	{
+		userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true, index: true },
+		toUserId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+		toEmail: { type: String, default: "" },
+		amount: { type: Number, required: true, min: 0.01 },
+		currency: { type: String, default: "USD" },
+		memo: { type: String, default: "", maxLength: 500 },
+		frequency: { type: String, enum: ["once", "weekly", "monthly"], required: true },
+		startDate: { type: Date, required: true },
+		endDate: { type: Date, default: null },
+		nextRunAt: { type: Date, default: null },
+		dueAt: { type: Date, default: null },
+		status: {
+			type: String,
+			enum: ["active", "paused", "cancelled", "completed", "failed"],
+			default: "active",
+		},
+		runs: { type: Number, default: 0 },
+		failedAttempts: { type: Number, default: 0 },
+		lastRunAt: { type: Date, default: null },
+		lastError: { type: String, default: "" },
+		// Debit transactions created by this order, newest last
+		transactionIds: [{ type: mongoose.Schema.Types.ObjectId, ref: "Transaction" }],
+		cancelledAt: { type: Date, default: null },
+	},
+	{
+		timestamps: true,
+	},
+);
+
+standingOrderSchema.index({ status: 1, dueAt: 1 });
+
+export const StandingOrder = mongoose.model<IStandingOrder>("StandingOrder", standingOrderSchema);
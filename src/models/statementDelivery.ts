@@ -0,0 +1,33 @@
+import mongoose from "mongoose";
+
+export interface IStatementDelivery extends mongoose.Document {
+	userId: mongoose.Types.ObjectId;
+	year: number;
+	month: number;
+	currency: string;
+	email: string;
+	status: "sent" | "failed";
+	error: string;
+	sentAt: Date;
+}
+
+// Month-end statement emails already sent, so the job never mails the same statement twice
+const statementDeliverySchema = new mongoose.Schema(
+	{
+		userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+		year: { type: Number, required: true },
+		month: { type: Number, required: true, min: 1, max: 12 },
+		currency: { type: String, default: "USD" },
+		email: { type: String, default: "" },
+		status: { type: String, enum: ["sent", "failed"], default: "sent" },
+		error: { type: String, default: "" },
+		sentAt: { type: Date, default: Date.now },
+	},
+	{
+		timestamps: true,
+	},
+);
+
+statementDeliverySchema.index({ userId: 1, year: 1, month: 1, currency: 1 }, { unique: true });
+
+export const StatementDelivery = mongoose.model<IStatementDelivery>("StatementDelivery", statementDeliverySchema);
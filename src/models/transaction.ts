@@ -1,13 +1,32 @@
 import mongoose from "mongoose";
+import {
+	ITransaction,
+	LEGACY_TRANSACTION_TYPES,
+	LegacyTransactionType,
+	CONTRACT_ROLLOVER_MODES,
+	TRANSACTION_TYPES,
+	TransactionMetadataFields,
+	TransactionMetadataMap,
+	TransactionType,
+} from "../types/transaction.types";
 
-// transaction schema
+// Documents are read through the base model, so the type-specific fields are optional here;
+// metadata exposes every field any type may carry
+export interface ITransactionDocument extends Omit<ITransaction, "_id" | "type" | "metadata">, mongoose.Document {
+	_id: mongoose.Types.ObjectId;
+	type: TransactionType | LegacyTransactionType;
+	metadata: Partial<TransactionMetadataFields>;
+	// Metadata keys the discriminator migration found no field for
+	legacyMetadata?: Record<string, any>;
+}
+
+// transaction schema; the fields every type shares. `type` picks the discriminator below.
 const transactionSchema = new mongoose.Schema(
 	{
 		type: {
 			type: String,
 			required: true,
-			minLength: 5,
-			maxLength: 20,
+			enum: [...TRANSACTION_TYPES, ...LEGACY_TRANSACTION_TYPES],
 		},
 		user: {
 			id: {
@@ -30,10 +49,18 @@ const transactionSchema = new mongoose.Schema(
 			type: String,
 			default: "USD",
 		},
+		description: {
+			type: String,
+			default: "",
+		},
+		// Replaced by a typed sub-schema in each discriminator; only legacy types keep it free-form
 		metadata: {
 			type: mongoose.Schema.Types.Mixed,
 			default: {},
 		},
+		legacyMetadata: {
+			type: mongoose.Schema.Types.Mixed,
+		},
 		amount: {
 			type: Number,
 			required: true,
@@ -44,83 +71,283 @@ const transactionSchema = new mongoose.Schema(
 			type: Date,
 			default: Date.now,
 		},
-		walletData: {
-			address: {
-				type: String,
-				default: "",
-			},
-			network: {
-				type: String,
-				default: "",
-			},
-			coinName: {
-				type: String,
-				default: "",
-			},
-			convertedAmount: {
-				type: Number,
-				default: "",
-			},
-		},
-		planData: {
-			plan: {
-				type: String,
-				default: "",
-			},
-			duration: {
-				type: String,
-				default: "",
-			},
-			interest: {
-				type: Number,
-				default: 0,
-			},
-		},
-		// NOWPayments automated payout fields
-		payoutProvider: {
-			type: String,
-			enum: ['nowpayments', 'manual'],
-			default: null,
-		},
-		nowPaymentsId: {
-			type: String,
-			default: null,
-		},
-		nowPaymentsTxHash: {
-			type: String,
-			default: null,
-		},
-		autoProcessed: {
-			type: Boolean,
-			default: false,
-		},
 		processedAt: {
 			type: Date,
 			default: null,
 		},
-		payoutError: {
-			type: String,
-			default: null,
-		},
-		payoutAttempts: {
-			type: Number,
-			default: 0,
-		},
-		lastAttemptAt: {
-			type: Date,
-			default: null,
-		},
+		// Every status change, applied through services/transactionStateMachine
+		statusHistory: [
+			{
+				_id: false,
+				from: { type: String, default: "" },
+				to: { type: String, required: true },
+				at: { type: Date, default: Date.now },
+				actor: {
+					userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+					email: { type: String, default: "" },
+				},
+				reason: { type: String, default: "" },
+			},
+		],
 	},
 	{
 		timestamps: true,
+		discriminatorKey: "type",
 	},
 );
 
 // Add indexes for better query performance
 transactionSchema.index({ userId: 1, type: 1, status: 1 });
+transactionSchema.index({ "user.id": 1, date: 1 });
 transactionSchema.index({ payoutProvider: 1, status: 1 });
 transactionSchema.index({ nowPaymentsId: 1 }, { sparse: true });
 transactionSchema.index({ date: -1 });
 transactionSchema.index({ processedAt: -1 }, { sparse: true });
+transactionSchema.index({ type: 1, status: 1, "planData.maturesAt": 1 });
+transactionSchema.index({ type: 1, status: 1, "planData.nextAccrualAt": 1 });
+
+export const Transaction = mongoose.model<ITransactionDocument>("Transaction", transactionSchema);
+
+const walletData = {
+	address: {
+		type: String,
+		default: "",
+	},
+	network: {
+		type: String,
+		default: "",
+	},
+	coinName: {
+		type: String,
+		default: "",
+	},
+	convertedAmount: {
+		type: Number,
+		default: 0,
+	},
+};
+
+const planData = {
+	plan: {
+		type: String,
+		default: "",
+	},
+	duration: {
+		type: String,
+		default: "",
+	},
+	interest: {
+		type: Number,
+		default: 0,
+	},
+	// Set from the plan duration when the contract is opened (see contractMaturityService)
+	maturesAt: {
+		type: Date,
+	},
+	// Daily accrual progress (see interestAccrualService)
+	accruedInterest: {
+		type: Number,
+		default: 0,
+	},
+	accruedDays: {
+		type: Number,
+		default: 0,
+	},
+	nextAccrualAt: {
+		type: Date,
+	},
+	planId: {
+		type: mongoose.Schema.Types.ObjectId,
+		ref: "Plan",
+	},
+	earlyTerminationPenalty: {
+		type: Number,
+		min: 0,
+		max: 100,
+	},
+	// Set when the user terminates the contract early (see contractTerminationService)
+	termination: {
+		type: new mongoose.Schema(
+			{
+				accruedInterest: { type: Number, default: 0 },
+				penaltyPercent: { type: Number, default: 0 },
+				penalty: { type: Number, default: 0 },
+				refund: { type: Number, default: 0 },
+				terminatedAt: { type: Date, default: Date.now },
+			},
+			{ _id: false },
+		),
+		default: undefined,
+	},
+	// Reinvestment on maturity (see contractService.rollOver)
+	rollover: {
+		mode: { type: String, enum: CONTRACT_ROLLOVER_MODES, default: "none" },
+		planId: { type: mongoose.Schema.Types.ObjectId, ref: "Plan", default: null },
+	},
+	fundedFromInterest: {
+		type: Number,
+		default: 0,
+	},
+	rolledFromId: {
+		type: mongoose.Schema.Types.ObjectId,
+		ref: "Transaction",
+	},
+	rolledIntoId: {
+		type: mongoose.Schema.Types.ObjectId,
+		ref: "Transaction",
+	},
+	rolloverSkipped: {
+		type: String,
+	},
+};
+
+// NOWPayments automated payout fields
+const payoutData = {
+	payoutProvider: {
+		type: String,
+		enum: ["nowpayments", "manual"],
+		default: null,
+	},
+	nowPaymentsId: {
+		type: String,
+		default: null,
+	},
+	nowPaymentsTxHash: {
+		type: String,
+		default: null,
+	},
+	autoProcessed: {
+		type: Boolean,
+		default: false,
+	},
+	payoutError: {
+		type: String,
+		default: null,
+	},
+	payoutAttempts: {
+		type: Number,
+		default: 0,
+	},
+	lastAttemptAt: {
+		type: Date,
+		default: null,
+	},
+};
+
+// Schema of every metadata field; each type picks the ones it carries in TYPE_METADATA
+const METADATA_FIELDS: Record<keyof TransactionMetadataFields, mongoose.SchemaDefinitionProperty> = {
+	rejectionReason: { type: String, maxLength: 500 },
+	holdId: { type: mongoose.Schema.Types.ObjectId, ref: "Hold" },
+	fee: { type: Number, min: 0 },
+	feePct: { type: Number, min: 0, max: 100 },
+	toUserId: { type: String },
+	fromUserId: { type: String },
+	standingOrderId: { type: String },
+	paymentRequestId: { type: String },
+	beneficiary: { type: String },
+	bankDetails: { type: mongoose.Schema.Types.Mixed },
+	beneficiaryId: { type: String, default: null },
+	address: { type: String },
+	chain: { type: String },
+	productId: { type: String },
+	giftCardId: { type: String },
+	giftCardCode: { type: String },
+	cardAmount: { type: Number, min: 0 },
+	recipient: { type: String },
+	cardId: { type: String },
+	cardDetails: { type: mongoose.Schema.Types.Mixed },
+	fundingAmount: { type: Number, min: 0 },
+	issuanceFee: { type: Number, min: 0 },
+	last4: { type: String, maxLength: 4 },
+	vendor: { type: String },
+	flightDetails: { type: mongoose.Schema.Types.Mixed },
+	passengers: { type: mongoose.Schema.Types.Mixed },
+	basePrice: { type: Number, min: 0 },
+	flightId: { type: String },
+	origin: { type: String },
+	destination: { type: String },
+	departureTime: { type: String },
+	carrier: { type: String },
+	platformFeePercent: { type: Number, min: 0, max: 100 },
+	platformFee: { type: Number, min: 0 },
+	totalAmount: { type: Number, min: 0 },
+	metalsOrderId: { type: String },
+	orderNumber: { type: String },
+	referredUserId: { type: String },
+	depositId: { type: String },
+	deltas: {
+		deposit: { type: Number, default: 0 },
+		interest: { type: Number, default: 0 },
+		bonus: { type: Number, default: 0 },
+	},
+	withdraw: {
+		from: { type: Number },
+		to: { type: Number },
+	},
+	adjustedBy: { type: String },
+};
+
+// Metadata fields per type, mirroring TransactionMetadataMap; every type also takes rejectionReason
+export const TYPE_METADATA: { [T in TransactionType]: Exclude<keyof TransactionMetadataMap[T], "rejectionReason">[] } = {
+	deposit: [],
+	withdrawal: ["holdId", "fee"],
+	contract: [],
+	interest_payout: [],
+	bonus: [],
+	referral_bonus: ["referredUserId", "depositId"],
+	internal_transfer: ["toUserId", "fromUserId", "fee", "standingOrderId", "paymentRequestId"],
+	external_transfer: ["beneficiary", "bankDetails", "beneficiaryId", "feePct", "fee", "holdId"],
+	crypto_deposit: ["address", "chain"],
+	crypto_withdrawal: ["address", "chain", "fee", "holdId"],
+	gift_card_purchase: ["productId", "giftCardId", "giftCardCode", "cardAmount", "recipient", "fee"],
+	gift_card_redemption: ["giftCardId", "giftCardCode"],
+	virtual_card_purchase: ["cardId", "cardDetails", "fundingAmount", "issuanceFee", "last4", "fee"],
+	card_funding: ["cardId", "fee"],
+	card_refund: ["cardId"],
+	flight_booking: [
+		"vendor",
+		"flightDetails",
+		"passengers",
+		"basePrice",
+		"flightId",
+		"origin",
+		"destination",
+		"departureTime",
+		"carrier",
+		"platformFeePercent",
+		"platformFee",
+		"totalAmount",
+		"fee",
+		"feePct",
+		"holdId",
+	],
+	metals_order: ["metalsOrderId", "orderNumber"],
+	admin_adjustment: ["deltas", "withdraw", "adjustedBy"],
+};
+
+// Top-level fields only some types have
+const TYPE_FIELDS: Partial<Record<TransactionType, mongoose.SchemaDefinition>> = {
+	deposit: { walletData },
+	withdrawal: { walletData, ...payoutData },
+	contract: { planData },
+};
+
+const metadataSchema = (type: TransactionType) => {
+	const fields: (keyof TransactionMetadataFields)[] = ["rejectionReason", ...TYPE_METADATA[type]];
+	return new mongoose.Schema(Object.fromEntries(fields.map((field) => [field, METADATA_FIELDS[field]])), { _id: false });
+};
 
-export const Transaction = mongoose.model("Transaction", transactionSchema);
+// One discriminator per type: `new Transaction({ type, ... })` and queries on the base model
+// resolve to them, and metadata keys a type does not declare are dropped on save
+export const TransactionTypes = Object.fromEntries(
+	TRANSACTION_TYPES.map((type) => [
+		type,
+		Transaction.discriminator<ITransactionDocument>(
+			type,
+			new mongoose.Schema({
+				...TYPE_FIELDS[type],
+				metadata: { type: metadataSchema(type), default: {} },
+			}),
+		),
+	]),
+) as Record<TransactionType, mongoose.Model<ITransactionDocument>>;
@@ -2,9 +2,20 @@ import mongoose from "mongoose";
 import jwt from "jsonwebtoken";
 import { UserRole, KYCStatus, AccountStatus } from "../types";
 
+export interface ICurrencyBalance {
+	currency: string;
+	deposit: number;
+	interest: number;
+	bonus: number;
+}
+
+// How this user was referred: `code` is the code they signed up with, resolved to `referrerId`.
+// Pending until their first qualifying deposit pays commission, then claimed.
 interface IReferral {
 	code: string;
 	status: "claimed" | "none" | "pending";
+	referrerId?: mongoose.Types.ObjectId | null;
+	claimedAt?: Date | null;
 }
 
 export interface IUser extends mongoose.Document {
@@ -40,13 +51,17 @@ export interface IUser extends mongoose.Document {
 		label?: string;
 	}[];
 
-	// Real balance fields (calculated from actual transactions)
+	// Balance fields, projected from ledger postings (see services/ledgerService).
+	// Top-level buckets are the base currency (USD), other currencies live in `balances`.
 	deposit: number;
 	interest: number;
 	withdraw: number;
 	bonus: number;
+	balances: ICurrencyBalance[];
 
 	profileImage: string;
+	// This user's own code to refer others with (see referralService)
+	referralCode?: string;
 	referral: IReferral;
 	role: UserRole;
 	kycStatus: KYCStatus;
@@ -175,17 +190,36 @@ export const userSchema = new mongoose.Schema(
 			default: 0,
 			min: 0,
 		},
-
+		// Non-USD buckets, one line per currency
+		balances: {
+			type: [
+				{
+					_id: false,
+					currency: { type: String, required: true, uppercase: true },
+					deposit: { type: Number, default: 0, min: 0 },
+					interest: { type: Number, default: 0, min: 0 },
+					bonus: { type: Number, default: 0, min: 0 },
+				},
+			],
+			default: [],
+		},
 
 		profileImage: {
 			type: String,
 			default: "",
 			maxLength: 500,
 		},
+		referralCode: {
+			type: String,
+			uppercase: true,
+			trim: true,
+		},
 		referral: {
 			type: {
 				code: String,
 				status: { type: String, enum: ["claimed", "none", "pending"], default: "none" },
+				referrerId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+				claimedAt: { type: Date, default: null },
 			},
 			default: () => ({ code: "", status: "none" }),
 		},
@@ -262,9 +296,12 @@ userSchema.pre("save", function (next) {
 	next();
 });
 
-// Virtual computed properties for balance calculations
+// Virtual computed properties for balance calculations.
+// deposit/interest/bonus are only moved by ledger postings, so their sum is the
+// posting-derived balance; `withdraw` is a lifetime payout counter already
+// reflected in those buckets and must not be subtracted again.
 userSchema.virtual('totalBalance').get(function() {
-	return this.deposit + this.interest + this.bonus - this.withdraw;
+	return this.deposit + this.interest + this.bonus;
 });
 
 userSchema.virtual('portfolioValue').get(function() {
@@ -274,6 +311,8 @@ userSchema.virtual('portfolioValue').get(function() {
 // Add indexes for better query performance
 userSchema.index({ accountStatus: 1 });
 userSchema.index({ kycStatus: 1 });
+userSchema.index({ referralCode: 1 }, { unique: true, sparse: true });
+userSchema.index({ "referral.referrerId": 1 });
 userSchema.index({ createdAt: -1 });
 
 export const User = mongoose.model<IUser>("User", userSchema);
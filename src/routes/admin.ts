@@ -2,6 +2,8 @@ import express, { Response } from "express";
 import { requireAuth, requireAdmin, AuthRequest } from "../middleware/auth";
 import { multiMails } from "../utils/mailer";
 import { EmailLog } from "../models/emailLog";
+import { ReconciliationReport } from "../models/reconciliationReport";
+import reconciliationService from "../services/reconciliationService";
 
 const router = express.Router();
 
@@ -145,5 +147,43 @@ router.get("/email-logs", requireAuth, requireAdmin, async (req: AuthRequest, re
 	}
 });
 
-export default router;
+// Latest balance reconciliation report plus a short history of earlier runs
+router.get("/reconciliation", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
+	try {
+		const limit = Math.min(50, Math.max(1, parseInt(String(req.query.limit || "10"), 10)));
+		const [latest, history] = await Promise.all([
+			ReconciliationReport.findOne({ status: { $ne: "running" } }).sort({ createdAt: -1 }).lean(),
+			ReconciliationReport.find().select("-mismatches").sort({ createdAt: -1 }).limit(limit).lean(),
+		]);
+		return res.json({ report: latest, history });
+	} catch (error: any) {
+		console.error("Admin reconciliation fetch error:", error);
+		return res.status(500).json({ message: "Failed to fetch reconciliation report", error: error.message });
+	}
+});
 
+router.get("/reconciliation/:id", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
+	try {
+		const report = await ReconciliationReport.findById(req.params.id).lean();
+		if (!report) return res.status(404).json({ message: "Reconciliation report not found" });
+		return res.json({ report });
+	} catch (error: any) {
+		console.error("Admin reconciliation fetch error:", error);
+		return res.status(500).json({ message: "Failed to fetch reconciliation report", error: error.message });
+	}
+});
+
+router.post("/reconciliation/run", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
+	try {
+		const report = await reconciliationService.run({
+			trigger: "manual",
+			actor: { userId: req.user?.userId, email: req.user?.email },
+		});
+		return res.json({ message: "Reconciliation completed", report });
+	} catch (error: any) {
+		console.error("Admin reconciliation run error:", error);
+		return res.status(500).json({ message: "Failed to run reconciliation", error: error.message });
+	}
+});
+
+export default router;
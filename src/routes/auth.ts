@@ -1,7 +1,6 @@
 import express, { Request, Response } from "express";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
-import mongoose from "mongoose";
 import { User } from "../models/user";
 import { adminNewUserAlert } from "../utils/mailer";
 import { v4 as uuidv4 } from "uuid";
@@ -9,6 +8,7 @@ import { validate, registerSchema, loginSchema } from "../middleware/validation"
 import { registrationLimiter, loginLimiter } from "../middleware/rateLimiter";
 import { requireAuth, AuthRequest } from "../middleware/auth";
 import { logActivity } from "../utils/activityLogger";
+import referralService from "../services/referralService";
 
 const router = express.Router();
 
@@ -73,6 +73,8 @@ router.post("/register", registrationLimiter, validate(registerSchema), async (r
 			return res.status(400).json({ message: "User already exists" });
 		}
 
+		// Unknown codes are dropped rather than stored as a pending referral
+		const referral = await referralService.referralFor(referralCode);
 		const hashedPassword = await bcrypt.hash(password, 12);
 		const accountNumber = `62${String(Math.floor(Math.random() * 1_000_000_0000)).padStart(10, "0")}`;
 		const routingNumber = "026009593";
@@ -112,10 +114,7 @@ router.post("/register", registrationLimiter, validate(registerSchema), async (r
 			withdraw: 0,
 			bonus: 0,
 			profileImage: "",
-			referral: {
-				code: referralCode || "",
-				status: referralCode ? "pending" : "none",
-			},
+			referral,
 			role: "user",
 			kycStatus: "notSubmitted",
 			accountStatus: "active",
@@ -126,6 +125,7 @@ router.post("/register", registrationLimiter, validate(registerSchema), async (r
 		});
 
 		await newUser.save();
+		await referralService.codeFor(newUser._id);
 		console.log(`User successfully saved to database: ${email} (username: ${username})`);
 
 		// Send admin alert for new user registration
@@ -368,18 +368,8 @@ router.get("/validate-referral/:code", async (req: Request, res: Response) => {
 			return res.status(400).json({ message: "Referral code required" });
 		}
 
-		// Prepare query conditions
-		const queryConditions: any[] = [{ username: code }];
-
-		// Only add _id condition if code is a valid ObjectId
-		if (mongoose.Types.ObjectId.isValid(code)) {
-			queryConditions.push({ _id: code });
-		}
-
-		// Check if a user exists with this username or _id
-		const user = await User.findOne({
-			$or: queryConditions
-		}).select("username _id");
+		// Referral code, or the username or id older links used
+		const user = await referralService.resolve(code);
 
 		if (!user) {
 			return res.status(404).json({ message: "Invalid referral code" });
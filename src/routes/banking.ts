@@ -2,63 +2,33 @@ import express from "express";
 import mongoose from "mongoose";
 import { User } from "../models/user";
 import { Transaction } from "../models/transaction";
-
-import { requireAuth, requireAdmin, AuthRequest } from "../middleware/auth";
+import transferService from "../services/transferService";
+import beneficiaryService, { BeneficiaryError } from "../services/beneficiaryService";
+import holdService from "../services/holdService";
+import feeService, { FeeError } from "../services/feeService";
+import planService, { PlanError } from "../services/planService";
+import transactionStateMachine, { TransactionStateError } from "../services/transactionStateMachine";
+import ledgerService, { systemAccount, normalizeCurrency, isSupportedCurrency } from "../services/ledgerService";
+import { runInTransaction, UnitOfWorkError } from "../utils/unitOfWork";
+
+import { requireAuth, requireAdmin, requireSelfOrAdmin, AuthRequest } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
+import { validate, externalTransferSchema } from "../middleware/validation";
 
 const router = express.Router();
 
-const percent = (amount: number, pct: number) => +(amount * (pct / 100)).toFixed(2);
 const parseAmount = (val: any) => {
 	const n = Number(val);
 	if (!Number.isFinite(n) || n <= 0) throw new Error("Invalid amount");
 	return n;
 };
-
-// Helper to calculate user's available balance
-const getAvailableBalance = (user: any): number => {
-	return (user.deposit || 0) + (user.interest || 0) + (user.bonus || 0) - (user.withdraw || 0);
+const parseCurrency = (val: any) => {
+	const code = normalizeCurrency(val);
+	if (!isSupportedCurrency(code)) throw new Error(`Unsupported currency: ${code}`);
+	return code;
 };
 
-// Helper to validate and deduct balance
-const validateAndDeductBalance = async (user: any, amount: number): Promise<{ success: boolean; message?: string }> => {
-	const availableBalance = getAvailableBalance(user);
-	if (availableBalance < amount) {
-		return {
-			success: false,
-			message: `Insufficient balance. Available: $${availableBalance.toFixed(2)}, Required: $${amount.toFixed(2)}`
-		};
-	}
-
-	// Deduct from deposit first, then interest, then bonus
-	let remaining = amount;
-
-	if (user.deposit >= remaining) {
-		user.deposit -= remaining;
-		remaining = 0;
-	} else {
-		remaining -= user.deposit;
-		user.deposit = 0;
-	}
-
-	if (remaining > 0 && user.interest >= remaining) {
-		user.interest -= remaining;
-		remaining = 0;
-	} else if (remaining > 0) {
-		remaining -= user.interest;
-		user.interest = 0;
-	}
-
-	if (remaining > 0 && user.bonus >= remaining) {
-		user.bonus -= remaining;
-		remaining = 0;
-	} else if (remaining > 0) {
-		remaining -= user.bonus;
-		user.bonus = 0;
-	}
-
-	await user.save();
-	return { success: true };
-};
+const actorOf = (req: AuthRequest) => ({ userId: req.user?.userId, email: req.user?.email });
 
 // Fetch account and wallet details for a user
 router.get("/account/:userId", requireAuth, async (req: AuthRequest, res) => {
@@ -78,119 +48,147 @@ router.get("/account/:userId", requireAuth, async (req: AuthRequest, res) => {
 	}
 });
 
-// Internal transfer (platform users, zero fee)
-router.post("/transfers/internal", requireAuth, async (req: AuthRequest, res) => {
+// Balances per currency, one line each (base currency first)
+router.get("/balances/:userId", requireAuth, requireSelfOrAdmin, async (req: AuthRequest, res) => {
+	try {
+		const user = await User.findById(req.params.userId).select("deposit interest bonus balances");
+		if (!user) return res.status(404).json({ message: "User not found" });
+		// Held funds are already out of the spendable buckets; shown separately until captured or released
+		const held = await holdService.heldByCurrency(user._id);
+		res.json({
+			balances: ledgerService.listBalances(user).map((line) => ({ ...line, held: held[line.currency] || 0 })),
+		});
+	} catch (err: any) {
+		res.status(500).json({ message: err.message || "Failed to fetch balances" });
+	}
+});
+
+// Active holds: funds reserved for pending withdrawals, payouts and flight bookings
+router.get("/holds/:userId", requireAuth, requireSelfOrAdmin, async (req: AuthRequest, res) => {
+	try {
+		res.json({ holds: await holdService.listActive(req.params.userId) });
+	} catch (err: any) {
+		res.status(500).json({ message: err.message || "Failed to fetch holds" });
+	}
+});
+
+// Internal transfer (platform users, free unless an internal_transfer fee schedule says otherwise)
+router.post("/transfers/internal", requireAuth, idempotency, async (req: AuthRequest, res) => {
 	try {
-		const { fromUserId, toUserId, amount, currency = "USD", memo } = req.body;
+		const { fromUserId, toUserId, amount, currency: currencyInput = "USD", memo } = req.body;
 		const amt = parseAmount(amount);
+		const currency = parseCurrency(currencyInput);
 
 		// SECURITY: Users can only transfer from their own account unless they're admin
 		if (!req.user?.isAdmin && req.user?.userId !== fromUserId) {
 			return res.status(403).json({ message: "Access denied: You can only transfer from your own account" });
 		}
 
-		const [fromUser, toUser] = await Promise.all([User.findById(fromUserId), User.findById(toUserId)]);
-		if (!fromUser || !toUser) return res.status(404).json({ message: "User not found" });
-
-		// SECURITY FIX: Check if sender has sufficient balance
-		const senderBalance = fromUser.deposit + fromUser.interest;
-		if (senderBalance < amt) {
-			return res.status(400).json({ message: "Insufficient balance" });
-		}
-
-		// CRITICAL FIX: Actually modify user balances
-		// Deduct from sender's deposit first, then interest if needed
-		if (fromUser.deposit >= amt) {
-			fromUser.deposit -= amt;
-		} else {
-			const remaining = amt - fromUser.deposit;
-			fromUser.deposit = 0;
-			fromUser.interest -= remaining;
-		}
+		const { newBalance } = await runInTransaction((session) =>
+			transferService.internalTransfer(
+				{ fromUserId, toUserId, amount: amt, currency, memo, actor: actorOf(req) },
+				session,
+			),
+		);
 
-		// Credit to recipient's deposit
-		toUser.deposit += amt;
-
-		// Save both users and create transactions atomically
-		await Promise.all([
-			fromUser.save(),
-			toUser.save(),
-			Transaction.create({
-				type: "internal_transfer",
-				user: { id: fromUser._id, email: fromUser.email, name: `${fromUser.firstName} ${fromUser.lastName}` },
-				status: "completed",
-				amount: amt * -1,
-				currency,
-				description: memo || `Transfer to ${toUser.email}`,
-				metadata: { toUserId: toUser._id.toString(), fee: 0 },
-			}),
-			Transaction.create({
-				type: "internal_transfer",
-				user: { id: toUser._id, email: toUser.email, name: `${toUser.firstName} ${toUser.lastName}` },
-				status: "completed",
-				amount: amt,
-				currency,
-				description: memo || `Transfer from ${fromUser.email}`,
-				metadata: { fromUserId: fromUser._id.toString(), fee: 0 },
-			}),
-		]);
-
-		res.json({ message: "Internal transfer completed", newBalance: fromUser.deposit + fromUser.interest });
+		res.json({ message: "Internal transfer completed", newBalance });
 	} catch (err: unknown) {
 		const error = err as Error;
 		console.error("Internal transfer error:", error);
-		res.status(400).json({ message: error.message || "Internal transfer failed" });
+		res.status(error instanceof UnitOfWorkError ? error.status : 400).json({ message: error.message || "Internal transfer failed" });
 	}
 });
 
-// External transfer (heavy fee, pending)
-router.post("/transfers/external", requireAuth, async (req: AuthRequest, res) => {
+// External transfer to a saved beneficiary (heavy fee, pending): { userId, amount, currency, beneficiaryId, memo? }
+router.post("/transfers/external", requireAuth, validate(externalTransferSchema), idempotency, async (req: AuthRequest, res) => {
 	try {
-		const { userId, amount, currency = "USD", beneficiary, bankDetails, memo } = req.body;
+		const { userId, amount, currency: currencyInput = "USD", beneficiaryId, memo } = req.body;
 		const amt = parseAmount(amount);
-		const user = await User.findById(userId);
-		if (!user) return res.status(404).json({ message: "User not found" });
+		const currency = parseCurrency(currencyInput);
 
 		// SECURITY: Users can only transfer from their own account unless admin
 		if (!req.user?.isAdmin && req.user?.userId !== userId) {
 			return res.status(403).json({ message: "Access denied: You can only transfer from your own account" });
 		}
 
-		const feePct = Number(process.env.EXTERNAL_TRANSFER_FEE_PERCENT || 2.5);
-		const fee = percent(amt, feePct);
-		const totalDebit = amt + fee;
-
-		// BALANCE VALIDATION: Check if user has sufficient funds
-		const balanceCheck = await validateAndDeductBalance(user, totalDebit);
-		if (!balanceCheck.success) {
-			return res.status(400).json({ message: balanceCheck.message });
-		}
-
-		const txn = await Transaction.create({
-			type: "external_transfer",
-			user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
-			status: "pending",
-			amount: totalDebit * -1, // negative for debit
-			currency,
-			description: memo || `External transfer to ${beneficiary}`,
-			metadata: { beneficiary, bankDetails, feePct, fee },
+		const { txn, newBalance } = await runInTransaction(async (session) => {
+			const user = await User.findById(userId).session(session);
+			if (!user) throw new UnitOfWorkError(404, "User not found");
+
+			// Money leaving the platform counts against the per-plan withdrawal limit
+			await planService.checkWithdrawal(user._id, amt, session);
+			const quote = await feeService.quote("external_transfer", amt, { user, currency });
+			const { fee, total: totalDebit } = quote;
+
+			// The saved beneficiary, once its cooling-off period is over and in the transfer currency
+			const saved = await beneficiaryService.resolveForTransfer(String(user._id), String(beneficiaryId), currency, session);
+			const beneficiary = saved.name;
+			const bankDetails = saved.toObject().bankDetails;
+			saved.lastUsedAt = new Date();
+			await saved.save({ session });
+
+			const holdId = new mongoose.Types.ObjectId();
+			const [txn] = await Transaction.create(
+				[
+					{
+						type: "external_transfer",
+						user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
+						status: "pending",
+						amount: totalDebit * -1, // negative for debit
+						currency,
+						description: memo || `External transfer to ${beneficiary}`,
+						metadata: {
+							beneficiary,
+							bankDetails,
+							beneficiaryId: String(saved._id),
+							feePct: quote.rate.percent,
+							fee,
+							holdId,
+						},
+					},
+				],
+				{ session },
+			);
+
+			// BALANCE VALIDATION: the hold throws when the user cannot cover the debit.
+			// Funds stay reserved until an admin approves (capture) or rejects (release) the transfer.
+			await holdService.place(
+				{
+					holdId,
+					user,
+					transactionId: txn._id,
+					referenceType: "external_transfer",
+					amount: totalDebit,
+					currency,
+					description: `External transfer to ${beneficiary}`,
+					actor: actorOf(req),
+				},
+				session,
+			);
+
+			return { txn, newBalance: await ledgerService.getAvailableBalance(user._id, session, currency) };
 		});
 
 		res.json({
 			message: "External transfer created (pending)",
 			transaction: txn,
-			newBalance: getAvailableBalance(user)
+			newBalance
 		});
 	} catch (err: any) {
-		res.status(400).json({ message: err.message || "External transfer failed" });
+		const status =
+			err instanceof UnitOfWorkError || err instanceof BeneficiaryError || err instanceof FeeError || err instanceof PlanError
+				? err.status
+				: 400;
+		res.status(status).json({ message: err.message || "External transfer failed" });
 	}
 });
 
 // Crypto deposit
 router.post("/crypto/deposit", requireAuth, async (req: AuthRequest, res) => {
 	try {
-		const { userId, amount, currency = "USDC", address, chain = "ETH", memo } = req.body;
+		const { userId, amount, currency: currencyInput = "USDC", address, chain = "ETH", memo } = req.body;
 		const amt = parseAmount(amount);
+		const currency = parseCurrency(currencyInput);
 		const user = await User.findById(userId);
 		if (!user) return res.status(404).json({ message: "User not found" });
 
@@ -213,176 +211,287 @@ router.post("/crypto/deposit", requireAuth, async (req: AuthRequest, res) => {
 });
 
 // Crypto withdraw
-router.post("/crypto/withdraw", requireAuth, async (req: AuthRequest, res) => {
+router.post("/crypto/withdraw", requireAuth, idempotency, async (req: AuthRequest, res) => {
 	try {
-		const { userId, amount, currency = "USDC", address, chain = "ETH", memo } = req.body;
+		const { userId, amount, currency: currencyInput = "USDC", address, chain = "ETH", memo } = req.body;
 		const amt = parseAmount(amount);
-		const user = await User.findById(userId);
-		if (!user) return res.status(404).json({ message: "User not found" });
+		const currency = parseCurrency(currencyInput);
 
 		// SECURITY: Users can only withdraw from their own account unless admin
 		if (!req.user?.isAdmin && req.user?.userId !== userId) {
 			return res.status(403).json({ message: "Access denied: You can only withdraw from your own account" });
 		}
 
-		// BALANCE VALIDATION: Check if user has sufficient funds
-		const balanceCheck = await validateAndDeductBalance(user, amt);
-		if (!balanceCheck.success) {
-			return res.status(400).json({ message: balanceCheck.message });
-		}
-
-		const kind = "crypto_withdrawal";
-
-		const txn = await Transaction.create({
-			type: kind,
-			user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
-			status: "pending",
-			amount: amt * -1,
-			currency,
-			description: memo || `${kind} ${chain}`,
-			metadata: { address, chain },
+		const { txn, newBalance } = await runInTransaction(async (session) => {
+			const user = await User.findById(userId).session(session);
+			if (!user) throw new UnitOfWorkError(404, "User not found");
+
+			// Per-plan withdrawal limit of the user's active contracts
+			await planService.checkWithdrawal(user._id, amt, session);
+
+			const kind = "crypto_withdrawal";
+			const holdId = new mongoose.Types.ObjectId();
+			const { fee, total } = await feeService.quote(kind, amt, { user, currency });
+
+			const [txn] = await Transaction.create(
+				[
+					{
+						type: kind,
+						user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
+						status: "pending",
+						amount: total * -1,
+						currency,
+						description: memo || `${kind} ${chain}`,
+						metadata: { address, chain, fee, holdId },
+					},
+				],
+				{ session },
+			);
+
+			// BALANCE VALIDATION: the hold throws when the user cannot cover the debit
+			await holdService.place(
+				{
+					holdId,
+					user,
+					transactionId: txn._id,
+					referenceType: kind,
+					amount: total,
+					currency,
+					description: `Crypto withdrawal ${chain}`,
+					actor: actorOf(req),
+				},
+				session,
+			);
+
+			return { txn, newBalance: await ledgerService.getAvailableBalance(user._id, session, currency) };
 		});
 
 		res.json({
 			message: "Crypto withdrawal created (pending)",
 			transaction: txn,
-			newBalance: getAvailableBalance(user)
+			newBalance
 		});
 	} catch (err: any) {
-		res.status(400).json({ message: err.message || "Crypto withdrawal failed" });
+		res.status(err instanceof UnitOfWorkError || err instanceof PlanError ? err.status : 400).json({ message: err.message || "Crypto withdrawal failed" });
 	}
 });
 
 // Gift card purchase
-router.post("/giftcards/purchase", requireAuth, async (req: AuthRequest, res) => {
+router.post("/giftcards/purchase", requireAuth, idempotency, async (req: AuthRequest, res) => {
 	try {
-		const { userId, amount, currency = "USD", productId, fee } = req.body;
+		const { userId, amount, currency: currencyInput = "USD", productId } = req.body;
 		const amt = parseAmount(amount);
-		const feeAmount = Number(fee) || 0;
-		const totalDebit = amt + feeAmount;
-
-		const user = await User.findById(userId);
-		if (!user) return res.status(404).json({ message: "User not found" });
+		const currency = parseCurrency(currencyInput);
 
 		// SECURITY: Users can only purchase from their own account unless admin
 		if (!req.user?.isAdmin && req.user?.userId !== userId) {
 			return res.status(403).json({ message: "Access denied: You can only purchase from your own account" });
 		}
 
-		// BALANCE VALIDATION: Check if user has sufficient funds
-		const balanceCheck = await validateAndDeductBalance(user, totalDebit);
-		if (!balanceCheck.success) {
-			return res.status(400).json({ message: balanceCheck.message });
-		}
-
-		const txn = await Transaction.create({
-			type: "gift_card_purchase",
-			user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
-			status: "completed",
-			amount: totalDebit * -1,
-			currency,
-			description: `Gift card ${productId}`,
-			metadata: { productId, fee: feeAmount },
+		const { txn, newBalance } = await runInTransaction(async (session) => {
+			const user = await User.findById(userId).session(session);
+			if (!user) throw new UnitOfWorkError(404, "User not found");
+			const quote = await feeService.quote("gift_card_purchase", amt, { user, currency });
+
+			const [txn] = await Transaction.create(
+				[
+					{
+						type: "gift_card_purchase",
+						user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
+						status: "completed",
+						amount: quote.total * -1,
+						currency,
+						description: `Gift card ${productId}`,
+						metadata: { productId, fee: quote.fee },
+					},
+				],
+				{ session },
+			);
+
+			// BALANCE VALIDATION: spendPostings throws when the user cannot cover amount + fee
+			const spend = feeService.spendPostings(user, quote);
+			await ledgerService.post(
+				{
+					description: `Gift card ${productId}`,
+					referenceType: "gift_card_purchase",
+					transactionIds: [txn._id],
+					postings: [...spend.principal, { account: systemAccount("vendor_payable", currency), credit: amt }],
+					actor: actorOf(req),
+				},
+				{ session },
+			);
+			await feeService.charge(
+				{
+					type: "gift_card_purchase",
+					amount: quote.fee,
+					currency,
+					debits: spend.fee,
+					transactionIds: [txn._id],
+					description: `Gift card ${productId}`,
+					actor: actorOf(req),
+				},
+				session,
+			);
+
+			return { txn, newBalance: await ledgerService.getAvailableBalance(user._id, session, currency) };
 		});
 
 		res.json({
 			message: "Gift card purchase completed",
 			transaction: txn,
-			newBalance: getAvailableBalance(user)
+			newBalance
 		});
 	} catch (err: any) {
-		res.status(400).json({ message: err.message || "Gift card purchase failed" });
+		res.status(err instanceof UnitOfWorkError ? err.status : 400).json({ message: err.message || "Gift card purchase failed" });
 	}
 });
 
 // Virtual card purchase
-router.post("/virtual-cards/purchase", requireAuth, async (req: AuthRequest, res) => {
+router.post("/virtual-cards/purchase", requireAuth, idempotency, async (req: AuthRequest, res) => {
 	try {
-		const { userId, amount, currency = "USD", cardDetails, fee } = req.body;
+		const { userId, amount, currency: currencyInput = "USD", cardDetails } = req.body;
 		const amt = parseAmount(amount);
-		const feeAmount = Number(fee) || Number(process.env.VIRTUAL_CARD_FEE) || 49;
-		const totalDebit = amt + feeAmount;
-
-		const user = await User.findById(userId);
-		if (!user) return res.status(404).json({ message: "User not found" });
+		const currency = parseCurrency(currencyInput);
 
 		// SECURITY: Users can only purchase from their own account unless admin
 		if (!req.user?.isAdmin && req.user?.userId !== userId) {
 			return res.status(403).json({ message: "Access denied: You can only purchase from your own account" });
 		}
 
-		// BALANCE VALIDATION: Check if user has sufficient funds
-		const balanceCheck = await validateAndDeductBalance(user, totalDebit);
-		if (!balanceCheck.success) {
-			return res.status(400).json({ message: balanceCheck.message });
-		}
-
-		const txn = await Transaction.create({
-			type: "virtual_card_purchase",
-			user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
-			status: "completed",
-			amount: totalDebit * -1,
-			currency,
-			description: `Virtual card issued`,
-			metadata: { cardDetails, fee: feeAmount, fundingAmount: amt },
+		const { txn, newBalance } = await runInTransaction(async (session) => {
+			const user = await User.findById(userId).session(session);
+			if (!user) throw new UnitOfWorkError(404, "User not found");
+			const quote = await feeService.quote("card_issuance", amt, { user, currency });
+
+			const [txn] = await Transaction.create(
+				[
+					{
+						type: "virtual_card_purchase",
+						user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
+						status: "completed",
+						amount: quote.total * -1,
+						currency,
+						description: `Virtual card issued`,
+						metadata: { cardDetails, fee: quote.fee, fundingAmount: amt },
+					},
+				],
+				{ session },
+			);
+
+			// BALANCE VALIDATION: spendPostings throws when the user cannot cover amount + fee
+			const spend = feeService.spendPostings(user, quote);
+			await ledgerService.post(
+				{
+					description: "Virtual card issued",
+					referenceType: "virtual_card_purchase",
+					transactionIds: [txn._id],
+					postings: [...spend.principal, { account: systemAccount("card_float", currency), credit: amt }],
+					actor: actorOf(req),
+				},
+				{ session },
+			);
+			await feeService.charge(
+				{
+					type: "card_issuance",
+					amount: quote.fee,
+					currency,
+					debits: spend.fee,
+					transactionIds: [txn._id],
+					description: "Virtual card issued",
+					actor: actorOf(req),
+				},
+				session,
+			);
+
+			return { txn, newBalance: await ledgerService.getAvailableBalance(user._id, session, currency) };
 		});
 
 		res.json({
 			message: "Virtual card issued successfully",
 			transaction: txn,
-			newBalance: getAvailableBalance(user)
+			newBalance
 		});
 	} catch (err: any) {
-		res.status(400).json({ message: err.message || "Virtual card purchase failed" });
+		res.status(err instanceof UnitOfWorkError ? err.status : 400).json({ message: err.message || "Virtual card purchase failed" });
 	}
 });
 
 // Flight booking
-router.post("/flights/book", requireAuth, async (req: AuthRequest, res) => {
+router.post("/flights/book", requireAuth, idempotency, async (req: AuthRequest, res) => {
 	try {
-		const { userId, amount, currency = "USD", route, vendor, flightDetails, passengers } = req.body;
+		const { userId, amount, currency: currencyInput = "USD", route, vendor, flightDetails, passengers } = req.body;
 		const amt = parseAmount(amount);
-		const feePct = Number(process.env.FLIGHT_BOOKING_FEE) || 1.8;
-		const fee = percent(amt, feePct);
-		const totalDebit = amt + fee;
-
-		const user = await User.findById(userId);
-		if (!user) return res.status(404).json({ message: "User not found" });
+		const currency = parseCurrency(currencyInput);
 
 		// SECURITY: Users can only book from their own account unless admin
 		if (!req.user?.isAdmin && req.user?.userId !== userId) {
 			return res.status(403).json({ message: "Access denied: You can only book from your own account" });
 		}
 
-		// BALANCE VALIDATION: Check if user has sufficient funds
-		const balanceCheck = await validateAndDeductBalance(user, totalDebit);
-		if (!balanceCheck.success) {
-			return res.status(400).json({ message: balanceCheck.message });
-		}
-
-		const txn = await Transaction.create({
-			type: "flight_booking",
-			user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
-			status: "completed",
-			amount: totalDebit * -1,
-			currency,
-			description: route || "Flight booking",
-			metadata: { vendor, fee, feePct, flightDetails, passengers, basePrice: amt },
+		const { txn, quote, newBalance } = await runInTransaction(async (session) => {
+			const user = await User.findById(userId).session(session);
+			if (!user) throw new UnitOfWorkError(404, "User not found");
+			const quote = await feeService.quote("flight_booking", amt, { user, currency });
+
+			const holdId = new mongoose.Types.ObjectId();
+			const [txn] = await Transaction.create(
+				[
+					{
+						type: "flight_booking",
+						user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
+						status: "pending",
+						amount: quote.total * -1,
+						currency,
+						description: route || "Flight booking",
+						metadata: {
+							vendor,
+							fee: quote.fee,
+							feePct: quote.rate.percent,
+							platformFee: quote.fee,
+							totalAmount: quote.total,
+							flightDetails,
+							passengers,
+							basePrice: amt,
+							holdId,
+						},
+					},
+				],
+				{ session },
+			);
+
+			// BALANCE VALIDATION: the hold throws when the user cannot cover amount + fee.
+			// The vendor and the fee are paid from it once an admin approves the booking.
+			await holdService.place(
+				{
+					holdId,
+					user,
+					transactionId: txn._id,
+					referenceType: "flight_booking",
+					amount: quote.total,
+					currency,
+					description: route || "Flight booking",
+					actor: actorOf(req),
+				},
+				session,
+			);
+
+			return { txn, quote, newBalance: await ledgerService.getAvailableBalance(user._id, session, currency) };
 		});
 
 		res.json({
-			message: "Flight booked successfully",
+			message: "Flight booking created (pending)",
 			transaction: txn,
-			newBalance: getAvailableBalance(user),
+			newBalance,
 			bookingDetails: {
 				confirmationNumber: `IG${Date.now().toString(36).toUpperCase()}`,
 				route,
-				totalPaid: totalDebit,
-				fee
+				totalAmount: quote.total,
+				fee: quote.fee,
+				status: "pending"
 			}
 		});
 	} catch (err: any) {
-		res.status(400).json({ message: err.message || "Flight booking failed" });
+		res.status(err instanceof UnitOfWorkError ? err.status : 400).json({ message: err.message || "Flight booking failed" });
 	}
 });
 
@@ -390,15 +499,38 @@ router.post("/flights/book", requireAuth, async (req: AuthRequest, res) => {
 router.post("/admin/transactions/:id/approve", requireAuth, requireAdmin, async (req: AuthRequest, res) => {
 	try {
 		const { id } = req.params;
-		const txn = await Transaction.findByIdAndUpdate(
-			id,
-			{ $set: { status: "completed", processedAt: new Date() } },
-			{ new: true },
-		);
-		if (!txn) return res.status(404).json({ message: "Transaction not found" });
+		const txn = await runInTransaction(async (session) => {
+			const existing = await Transaction.findById(id).session(session);
+			if (!existing) throw new UnitOfWorkError(404, "Transaction not found");
+
+			// Settles the ledger side of the movement (hold capture, deposit credit) per transaction type
+			return transactionStateMachine.transition(existing, "completed", { session, actor: actorOf(req) });
+		});
+
 		res.json({ message: "Transaction approved", transaction: txn });
 	} catch (err: any) {
-		res.status(400).json({ message: err.message || "Approval failed" });
+		const status = err instanceof UnitOfWorkError || err instanceof TransactionStateError ? err.status : 400;
+		res.status(status).json({ message: err.message || "Approval failed" });
+	}
+});
+
+// Admin reject: pending payouts and flight bookings give the reserved funds back
+router.post("/admin/transactions/:id/reject", requireAuth, requireAdmin, async (req: AuthRequest, res) => {
+	try {
+		const { id } = req.params;
+		const reason = String(req.body?.reason || "").slice(0, 500);
+		const txn = await runInTransaction(async (session) => {
+			const existing = await Transaction.findById(id).session(session);
+			if (!existing) throw new UnitOfWorkError(404, "Transaction not found");
+
+			if (reason) existing.set("metadata.rejectionReason", reason);
+			return transactionStateMachine.transition(existing, "rejected", { session, reason, actor: actorOf(req) });
+		});
+
+		res.json({ message: "Transaction rejected", transaction: txn });
+	} catch (err: any) {
+		const status = err instanceof UnitOfWorkError || err instanceof TransactionStateError ? err.status : 400;
+		res.status(status).json({ message: err.message || "Rejection failed" });
 	}
 });
 
@@ -0,0 +1,81 @@
+import express, { Response } from "express";
+import mongoose from "mongoose";
+import { Beneficiary } from "../models/beneficiary";
+import beneficiaryService, { BeneficiaryError } from "../services/beneficiaryService";
+import { requireAuth, AuthRequest } from "../middleware/auth";
+import { validate, beneficiarySchema, beneficiaryUpdateSchema } from "../middleware/validation";
+
+const router = express.Router();
+
+// Beneficiaries are scoped to their owner; admins can reach any of them
+const ownBeneficiary = (req: AuthRequest) =>
+	req.user?.isAdmin ? { _id: req.params.id } : { _id: req.params.id, userId: req.user?.userId };
+
+const sendError = (res: Response, error: any, fallback: string) => {
+	if (error instanceof BeneficiaryError) return res.status(error.status).json({ message: error.message });
+	console.error(`${fallback}:`, error);
+	res.status(500).json({ message: fallback });
+};
+
+// List saved beneficiaries. Admins can pass ?userId=
+router.get("/", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		const userId = req.user?.isAdmin && req.query.userId ? String(req.query.userId) : req.user?.userId;
+		const beneficiaries = await Beneficiary.find({ userId }).sort({ nickname: 1 }).lean();
+		res.json({ beneficiaries });
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch beneficiaries");
+	}
+});
+
+router.get("/:id", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ message: "Invalid beneficiary id" });
+		const beneficiary = await Beneficiary.findOne(ownBeneficiary(req)).lean();
+		if (!beneficiary) return res.status(404).json({ message: "Beneficiary not found" });
+		res.json({ beneficiary });
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch beneficiary");
+	}
+});
+
+// Save a beneficiary; it can receive transfers once the cooling-off period has passed
+router.post("/", requireAuth, validate(beneficiarySchema), async (req: AuthRequest, res: Response) => {
+	try {
+		const userId = req.body.userId || req.user?.userId;
+		if (!req.user?.isAdmin && req.user?.userId !== userId) {
+			return res.status(403).json({ message: "Access denied" });
+		}
+
+		const beneficiary = await beneficiaryService.create(userId, req.body);
+		res.status(201).json({ message: "Beneficiary saved", beneficiary });
+	} catch (error: any) {
+		sendError(res, error, "Failed to save beneficiary");
+	}
+});
+
+router.put("/:id", requireAuth, validate(beneficiaryUpdateSchema), async (req: AuthRequest, res: Response) => {
+	try {
+		if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ message: "Invalid beneficiary id" });
+		const beneficiary = await Beneficiary.findOne(ownBeneficiary(req));
+		if (!beneficiary) return res.status(404).json({ message: "Beneficiary not found" });
+
+		await beneficiaryService.update(beneficiary, req.body);
+		res.json({ message: "Beneficiary updated", beneficiary });
+	} catch (error: any) {
+		sendError(res, error, "Failed to update beneficiary");
+	}
+});
+
+router.delete("/:id", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ message: "Invalid beneficiary id" });
+		const beneficiary = await Beneficiary.findOneAndDelete(ownBeneficiary(req));
+		if (!beneficiary) return res.status(404).json({ message: "Beneficiary not found" });
+		res.json({ message: "Beneficiary deleted" });
+	} catch (error: any) {
+		sendError(res, error, "Failed to delete beneficiary");
+	}
+});
+
+export default router;
@@ -1,9 +1,20 @@
 import express, { Response } from "express";
-import mongoose from "mongoose";
 import { Card } from "../models/card";
 import { User } from "../models/user";
 import { Transaction } from "../models/transaction";
-import { requireAuth, requireAdmin, AuthRequest } from "../middleware/auth";
+import ledgerService, {
+	InsufficientFundsError,
+	userAccount,
+	systemAccount,
+	normalizeCurrency,
+	isSupportedCurrency,
+} from "../services/ledgerService";
+import feeService, { FeeError } from "../services/feeService";
+import cardAuthorizationService, { CardAuthorizationError } from "../services/cardAuthorizationService";
+import { requireAuth, requireAdmin, requireCardProcessor, AuthRequest } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
+import { validate, cardAuthorizationSchema, cardAdjustmentSchema } from "../middleware/validation";
+import { runInTransaction, UnitOfWorkError } from "../utils/unitOfWork";
 
 const router = express.Router();
 
@@ -47,11 +58,6 @@ const generateExpiry = (): { month: string; year: string; expiresAt: Date } => {
 	};
 };
 
-// Helper to calculate available balance
-const getAvailableBalance = (user: any): number => {
-	return (user.deposit || 0) + (user.interest || 0) + (user.bonus || 0) - (user.withdraw || 0);
-};
-
 // Get all cards for a user
 router.get("/", requireAuth, async (req: AuthRequest, res: Response) => {
 	try {
@@ -124,96 +130,114 @@ router.get("/:id", requireAuth, async (req: AuthRequest, res: Response) => {
 });
 
 // Issue a new virtual card
-router.post("/issue", requireAuth, async (req: AuthRequest, res: Response) => {
+router.post("/issue", requireAuth, idempotency, async (req: AuthRequest, res: Response) => {
 	try {
 		const userId = req.user?.userId;
 		const { fundingAmount, purpose, label, color, brand = "visa" } = req.body;
-
-		const user = await User.findById(userId);
-		if (!user) {
-			return res.status(404).json({ message: "User not found" });
+		const currency = normalizeCurrency(req.body.currency);
+		if (!isSupportedCurrency(currency)) {
+			return res.status(400).json({ message: `Unsupported currency: ${currency}` });
 		}
 
 		const amount = Number(fundingAmount) || 0;
-		const issuanceFee = Number(process.env.VIRTUAL_CARD_FEE) || 49;
-		const totalDebit = amount + issuanceFee;
-
-		// Balance validation
-		const availableBalance = getAvailableBalance(user);
-		if (availableBalance < totalDebit) {
-			return res.status(400).json({
-				message: `Insufficient balance. Available: $${availableBalance.toFixed(2)}, Required: $${totalDebit.toFixed(2)}`,
-			});
-		}
 
-		// Deduct balance
-		let remaining = totalDebit;
-		if (user.deposit >= remaining) {
-			user.deposit -= remaining;
-			remaining = 0;
-		} else {
-			remaining -= user.deposit;
-			user.deposit = 0;
-		}
-		if (remaining > 0 && user.interest >= remaining) {
-			user.interest -= remaining;
-			remaining = 0;
-		} else if (remaining > 0) {
-			remaining -= user.interest;
-			user.interest = 0;
-		}
-		if (remaining > 0) {
-			user.bonus -= remaining;
-		}
+		const { card, cardNumber, newBalance } = await runInTransaction(async (session) => {
+			const user = await User.findById(userId).session(session);
+			if (!user) throw new UnitOfWorkError(404, "User not found");
+			const quote = await feeService.quote("card_issuance", amount, { user, currency });
+			const issuanceFee = quote.fee;
 
-		await user.save();
-
-		// Generate card details
-		const prefix = brand === "mastercard" ? "5412" : "4532";
-		const cardNumber = generateCardNumber(prefix);
-		const cvv = generateCVV();
-		const expiry = generateExpiry();
-
-		// Create the card
-		const card = await Card.create({
-			userId,
-			cardNumber,
-			cardholderName: `${user.firstName} ${user.lastName}`.toUpperCase(),
-			expiryMonth: expiry.month,
-			expiryYear: expiry.year,
-			cvv,
-			type: "virtual",
-			brand,
-			status: "active",
-			balance: amount,
-			fundingAmount: amount,
-			currency: "USD",
-			metadata: {
-				purpose: purpose || "",
-				label: label || "Virtual Card",
-				color: color || "purple",
-			},
-			expiresAt: expiry.expiresAt,
-		});
+			// Balance validation
+			const availableBalance = ledgerService.availableBalance(user, currency);
+			if (availableBalance < quote.total) {
+				throw new InsufficientFundsError(availableBalance, quote.total, currency);
+			}
 
-		// Create transaction record
-		await Transaction.create({
-			type: "virtual_card_purchase",
-			user: {
-				id: user._id,
-				email: user.email,
-				name: `${user.firstName} ${user.lastName}`,
-			},
-			status: "completed",
-			amount: totalDebit * -1,
-			currency: "USD",
-			description: `Virtual card issued - ${label || "Card"}`,
-			metadata: {
-				cardId: String(card._id),
-				issuanceFee,
-				fundingAmount: amount,
-				last4: cardNumber.slice(-4),
-			},
+			// Generate card details
+			const prefix = brand === "mastercard" ? "5412" : "4532";
+			const cardNumber = generateCardNumber(prefix);
+			const cvv = generateCVV();
+			const expiry = generateExpiry();
+
+			// Create the card
+			const [card] = await Card.create(
+				[
+					{
+						userId,
+						cardNumber,
+						cardholderName: `${user.firstName} ${user.lastName}`.toUpperCase(),
+						expiryMonth: expiry.month,
+						expiryYear: expiry.year,
+						cvv,
+						type: "virtual",
+						brand,
+						status: "active",
+						balance: amount,
+						fundingAmount: amount,
+						currency,
+						metadata: {
+							purpose: purpose || "",
+							label: label || "Virtual Card",
+							color: color || "purple",
+						},
+						expiresAt: expiry.expiresAt,
+					},
+				],
+				{ session },
+			);
+
+			// Create transaction record
+			const [txn] = await Transaction.create(
+				[
+					{
+						type: "virtual_card_purchase",
+						user: {
+							id: user._id,
+							email: user.email,
+							name: `${user.firstName} ${user.lastName}`,
+						},
+						status: "completed",
+						amount: quote.total * -1,
+						currency,
+						description: `Virtual card issued - ${label || "Card"}`,
+						metadata: {
+							cardId: String(card._id),
+							issuanceFee,
+							fee: issuanceFee,
+							fundingAmount: amount,
+							last4: cardNumber.slice(-4),
+						},
+					},
+				],
+				{ session },
+			);
+
+			// Deduct balance: card float takes the funding amount, the issuance fee is revenue
+			const spend = feeService.spendPostings(user, quote);
+			await ledgerService.post(
+				{
+					description: `Virtual card issued - ${label || "Card"}`,
+					referenceType: "virtual_card_purchase",
+					transactionIds: [txn._id],
+					postings: [...spend.principal, { account: systemAccount("card_float", currency), credit: amount }],
+					actor: { userId: req.user?.userId, email: req.user?.email },
+				},
+				{ session },
+			);
+			await feeService.charge(
+				{
+					type: "card_issuance",
+					amount: issuanceFee,
+					currency,
+					debits: spend.fee,
+					transactionIds: [txn._id],
+					description: `Virtual card issued - ${label || "Card"}`,
+					actor: { userId: req.user?.userId, email: req.user?.email },
+				},
+				session,
+			);
+
+			return { card, cardNumber, newBalance: await ledgerService.getAvailableBalance(user._id, session, currency) };
 		});
 
 		res.status(201).json({
@@ -230,16 +254,22 @@ router.post("/issue", requireAuth, async (req: AuthRequest, res: Response) => {
 				balance: card.balance,
 				metadata: card.metadata,
 			},
-			newBalance: getAvailableBalance(user),
+			newBalance,
 		});
 	} catch (error: any) {
+		if (error instanceof UnitOfWorkError || error instanceof FeeError) {
+			return res.status(error.status).json({ message: error.message });
+		}
+		if (error instanceof InsufficientFundsError) {
+			return res.status(400).json({ message: error.message });
+		}
 		console.error("Error issuing card:", error);
 		res.status(500).json({ message: "Failed to issue card" });
 	}
 });
 
 // Fund an existing card
-router.post("/:id/fund", requireAuth, async (req: AuthRequest, res: Response) => {
+router.post("/:id/fund", requireAuth, idempotency, async (req: AuthRequest, res: Response) => {
 	try {
 		const { id } = req.params;
 		const { amount } = req.body;
@@ -250,65 +280,81 @@ router.post("/:id/fund", requireAuth, async (req: AuthRequest, res: Response) =>
 			return res.status(400).json({ message: "Invalid amount" });
 		}
 
-		const [card, user] = await Promise.all([
-			Card.findOne({ _id: id, userId }),
-			User.findById(userId),
-		]);
-
-		if (!card) {
-			return res.status(404).json({ message: "Card not found" });
-		}
-
-		if (!user) {
-			return res.status(404).json({ message: "User not found" });
-		}
-
-		if (card.status !== "active") {
-			return res.status(400).json({ message: "Card is not active" });
-		}
-
-		// Balance validation
-		const availableBalance = getAvailableBalance(user);
-		if (availableBalance < fundAmount) {
-			return res.status(400).json({
-				message: `Insufficient balance. Available: $${availableBalance.toFixed(2)}`,
-			});
-		}
-
-		// Deduct from user balance
-		let remaining = fundAmount;
-		if (user.deposit >= remaining) {
-			user.deposit -= remaining;
-		} else {
-			remaining -= user.deposit;
-			user.deposit = 0;
-			if (remaining > 0) {
-				user.interest -= remaining;
-			}
-		}
-
-		// Add to card balance
-		card.balance += fundAmount;
-
-		await Promise.all([user.save(), card.save()]);
-
-		// Create transaction
-		await Transaction.create({
-			type: "card_funding",
-			user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
-			status: "completed",
-			amount: fundAmount * -1,
-			currency: "USD",
-			description: `Card funding - **** ${card.cardNumber.slice(-4)}`,
-			metadata: { cardId: String(card._id) },
+		const { cardBalance, accountBalance } = await runInTransaction(async (session) => {
+			const [card, user] = await Promise.all([
+				Card.findOne({ _id: id, userId }).session(session),
+				User.findById(userId).session(session),
+			]);
+
+			if (!card) throw new UnitOfWorkError(404, "Card not found");
+			if (!user) throw new UnitOfWorkError(404, "User not found");
+			if (card.status !== "active") throw new UnitOfWorkError(400, "Card is not active");
+			const currency = normalizeCurrency(card.currency);
+			const quote = await feeService.quote("card_funding", fundAmount, { user, currency });
+
+			// Add to card balance
+			card.balance += fundAmount;
+			await card.save({ session });
+
+			// Create transaction
+			const [txn] = await Transaction.create(
+				[
+					{
+						type: "card_funding",
+						user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
+						status: "completed",
+						amount: quote.total * -1,
+						currency,
+						description: `Card funding - **** ${card.cardNumber.slice(-4)}`,
+						metadata: { cardId: String(card._id), fee: quote.fee },
+					},
+				],
+				{ session },
+			);
+
+			// Move funds from the user's balance onto the card float
+			const spend = feeService.spendPostings(user, quote, { buckets: ["deposit", "interest"] });
+			await ledgerService.post(
+				{
+					description: `Card funding - **** ${card.cardNumber.slice(-4)}`,
+					referenceType: "card_funding",
+					transactionIds: [txn._id],
+					postings: [...spend.principal, { account: systemAccount("card_float", currency), credit: fundAmount }],
+					actor: { userId: req.user?.userId, email: req.user?.email },
+				},
+				{ session },
+			);
+			await feeService.charge(
+				{
+					type: "card_funding",
+					amount: quote.fee,
+					currency,
+					debits: spend.fee,
+					transactionIds: [txn._id],
+					description: `Card funding - **** ${card.cardNumber.slice(-4)}`,
+					actor: { userId: req.user?.userId, email: req.user?.email },
+				},
+				session,
+			);
+
+			return {
+				cardBalance: card.balance,
+				accountBalance: await ledgerService.getAvailableBalance(user._id, session, currency),
+			};
 		});
 
 		res.json({
 			message: "Card funded successfully",
-			cardBalance: card.balance,
-			accountBalance: getAvailableBalance(user),
+			cardBalance,
+			accountBalance,
 		});
 	} catch (error: any) {
+		if (error instanceof UnitOfWorkError || error instanceof FeeError) {
+			return res.status(error.status).json({ message: error.message });
+		}
+		if (error instanceof InsufficientFundsError) {
+			return res.status(400).json({ message: error.message });
+		}
 		console.error("Error funding card:", error);
 		res.status(500).json({ message: "Failed to fund card" });
 	}
@@ -348,50 +394,69 @@ router.post("/:id/cancel", requireAuth, async (req: AuthRequest, res: Response)
 		const { id } = req.params;
 		const userId = req.user?.userId;
 
-		const [card, user] = await Promise.all([
-			Card.findOne({ _id: id, userId }),
-			User.findById(userId),
-		]);
-
-		if (!card) {
-			return res.status(404).json({ message: "Card not found" });
-		}
-
-		if (!user) {
-			return res.status(404).json({ message: "User not found" });
-		}
+		const { refundAmount, accountBalance } = await runInTransaction(async (session) => {
+			const [card, user] = await Promise.all([
+				Card.findOne({ _id: id, userId }).session(session),
+				User.findById(userId).session(session),
+			]);
+
+			if (!card) throw new UnitOfWorkError(404, "Card not found");
+			if (!user) throw new UnitOfWorkError(404, "User not found");
+			if (card.status === "cancelled") throw new UnitOfWorkError(400, "Card is already cancelled");
+			if (await cardAuthorizationService.hasOpen(String(card._id), session)) {
+				throw new UnitOfWorkError(409, "Card has payments awaiting capture or reversal");
+			}
 
-		if (card.status === "cancelled") {
-			return res.status(400).json({ message: "Card is already cancelled" });
-		}
+			// Refund remaining balance in the card's currency
+			const currency = normalizeCurrency(card.currency);
+			const refundAmount = card.balance;
+			if (refundAmount > 0) {
+				const [txn] = await Transaction.create(
+					[
+						{
+							type: "card_refund",
+							user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
+							status: "completed",
+							amount: refundAmount,
+							currency,
+							description: `Card cancellation refund - **** ${card.cardNumber.slice(-4)}`,
+							metadata: { cardId: String(card._id) },
+						},
+					],
+					{ session },
+				);
+
+				await ledgerService.post(
+					{
+						description: `Card cancellation refund - **** ${card.cardNumber.slice(-4)}`,
+						referenceType: "card_refund",
+						transactionIds: [txn._id],
+						postings: [
+							{ account: systemAccount("card_float", currency), debit: refundAmount },
+							{ account: userAccount(user._id, "deposit", currency), credit: refundAmount },
+						],
+						actor: { userId: req.user?.userId, email: req.user?.email },
+					},
+					{ session },
+				);
+			}
 
-		// Refund remaining balance
-		const refundAmount = card.balance;
-		if (refundAmount > 0) {
-			user.deposit += refundAmount;
-			await user.save();
-
-			await Transaction.create({
-				type: "card_refund",
-				user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
-				status: "completed",
-				amount: refundAmount,
-				currency: "USD",
-				description: `Card cancellation refund - **** ${card.cardNumber.slice(-4)}`,
-				metadata: { cardId: String(card._id) },
-			});
-		}
+			card.status = "cancelled";
+			card.balance = 0;
+			await card.save({ session });
 
-		card.status = "cancelled";
-		card.balance = 0;
-		await card.save();
+			return { refundAmount, accountBalance: await ledgerService.getAvailableBalance(user._id, session, currency) };
+		});
 
 		res.json({
 			message: "Card cancelled successfully",
 			refundedAmount: refundAmount,
-			accountBalance: getAvailableBalance(user),
+			accountBalance,
 		});
 	} catch (error: any) {
+		if (error instanceof UnitOfWorkError) {
+			return res.status(error.status).json({ message: error.message });
+		}
 		console.error("Error cancelling card:", error);
 		res.status(500).json({ message: "Failed to cancel card" });
 	}
@@ -428,6 +493,98 @@ router.put("/:id/limits", requireAuth, requireAdmin, async (req: AuthRequest, re
 	}
 });
 
+const sendAuthorizationError = (res: Response, error: any, fallback: string) => {
+	if (error instanceof CardAuthorizationError || error instanceof UnitOfWorkError) {
+		return res.status(error.status).json({ message: error.message });
+	}
+	console.error(`${fallback}:`, error);
+	res.status(500).json({ message: fallback });
+};
+
+// Payments made with a card, newest first, with what is left of its daily and monthly limits
+router.get("/:id/authorizations", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		const filter = req.user?.isAdmin ? { _id: req.params.id } : { _id: req.params.id, userId: req.user?.userId };
+		const card = await Card.findOne(filter);
+		if (!card) {
+			return res.status(404).json({ message: "Card not found" });
+		}
+
+		const [list, usage] = await Promise.all([
+			cardAuthorizationService.list(String(card._id), {
+				status: req.query.status ? String(req.query.status) : undefined,
+				page: Number(req.query.page),
+				limit: Number(req.query.limit),
+			}),
+			cardAuthorizationService.usage(card),
+		]);
+		res.json({ ...list, usage, balance: card.balance });
+	} catch (error: any) {
+		sendAuthorizationError(res, error, "Failed to fetch card payments");
+	}
+});
+
+// Authorization request from the card processor; declines are answered with 200 and approved: false
+router.post("/authorizations", requireCardProcessor, validate(cardAuthorizationSchema), async (req: AuthRequest, res: Response) => {
+	try {
+		const result = await cardAuthorizationService.authorize(req.body);
+		res.json({
+			approved: result.approved,
+			authorizationId: result.authorization._id,
+			authorizationCode: result.authorization.authorizationCode,
+			status: result.authorization.status,
+			declineReason: result.authorization.declineReason,
+			amount: result.authorization.amount,
+			currency: result.authorization.currency,
+			availableBalance: result.availableBalance,
+		});
+	} catch (error: any) {
+		sendAuthorizationError(res, error, "Failed to authorize card payment");
+	}
+});
+
+// Settle an authorization: { amount?, reference? }; capturing less returns the rest to the card
+router.post(
+	"/authorizations/:authorizationId/capture",
+	requireCardProcessor,
+	validate(cardAdjustmentSchema),
+	async (req: AuthRequest, res: Response) => {
+		try {
+			res.json(await cardAuthorizationService.capture(req.params.authorizationId, req.body));
+		} catch (error: any) {
+			sendAuthorizationError(res, error, "Failed to capture card payment");
+		}
+	},
+);
+
+// Release all or part of an uncaptured authorization back to the card: { amount?, reference? }
+router.post(
+	"/authorizations/:authorizationId/reverse",
+	requireCardProcessor,
+	validate(cardAdjustmentSchema),
+	async (req: AuthRequest, res: Response) => {
+		try {
+			res.json(await cardAuthorizationService.reverse(req.params.authorizationId, req.body));
+		} catch (error: any) {
+			sendAuthorizationError(res, error, "Failed to reverse card payment");
+		}
+	},
+);
+
+// Merchant refund of a captured payment: { amount?, reference? }
+router.post(
+	"/authorizations/:authorizationId/refund",
+	requireCardProcessor,
+	validate(cardAdjustmentSchema),
+	async (req: AuthRequest, res: Response) => {
+		try {
+			res.json(await cardAuthorizationService.refund(req.params.authorizationId, req.body));
+		} catch (error: any) {
+			sendAuthorizationError(res, error, "Failed to refund card payment");
+		}
+	},
+);
+
 // Get all cards (admin only)
 router.get("/admin/all", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
 	try {
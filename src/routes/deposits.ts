@@ -11,49 +11,54 @@ import { requireAuth, requireAdmin, requireSelfOrAdmin, AuthRequest } from "../m
 import { validate, depositSchema } from "../middleware/validation";
 import { depositLimiter } from "../middleware/rateLimiter";
 import { logAudit } from "../utils/auditLogger";
+import referralService from "../services/referralService";
+import transactionStateMachine, { TransactionStateError } from "../services/transactionStateMachine";
+import { runInTransaction, UnitOfWorkError } from "../utils/unitOfWork";
 
 const router = express.Router();
 
 async function processDepositDecision(req: AuthRequest, res: express.Response, id: string, status: string) {
-  if (!["approved", "rejected"].includes(status)) {
-    return res.status(400).json({ message: "Invalid status" });
-  }
-
   try {
-    const deposit = await Transaction.findById(id);
-    if (!deposit) return res.status(404).json({ message: "Deposit not found" });
-    const before = {
-      status: deposit.status,
-      amount: deposit.amount,
-      userEmail: deposit.user?.email || "",
-    };
-
-    const userEmail = deposit.user?.email;
-    const user = await User.findOne({ email: userEmail });
-    if (!user) return res.status(400).json({ message: "User not found" });
-    if (user.isAdmin || user.role === "admin") {
-      return res.status(403).json({ message: "Admin account balance mutation is restricted" });
-    }
-    const amount = Number(deposit.amount) || 0;
-
-    deposit.status = status;
-    await deposit.save();
+    const { deposit, user, before, commissions } = await runInTransaction(async (session) => {
+      const deposit = await Transaction.findById(id).session(session);
+      if (!deposit || deposit.type !== "deposit") throw new UnitOfWorkError(404, "Deposit not found");
+      const before = {
+        status: deposit.status,
+        amount: deposit.amount,
+        userEmail: deposit.user?.email || "",
+      };
+
+      const userEmail = deposit.user?.email;
+      const user = await User.findOne({ email: userEmail }).session(session);
+      if (!user) throw new UnitOfWorkError(400, "User not found");
+      if (user.isAdmin || user.role === "admin") {
+        throw new UnitOfWorkError(403, "Admin account balance mutation is restricted");
+      }
+      const amount = Number(deposit.amount) || 0;
+
+      // Approval credits the deposit through the transaction state machine
+      await transactionStateMachine.transition(deposit, status, {
+        session,
+        actor: { userId: req.user?.userId, email: req.user?.email },
+      });
+
+      // Referral commission up the referrer chain, under the program's rules
+      const commissions =
+        status === "approved"
+          ? await referralService.payDepositCommissions(user, deposit, session, {
+              userId: req.user?.userId,
+              email: req.user?.email,
+            })
+          : [];
+
+      return { deposit, user, before, commissions };
+    });
 
+    const amount = Number(deposit.amount) || 0;
     if (status === "approved") {
-      user.deposit += amount;
-      await user.save();
-
-      // Give 5% referral bonus
-      if (user.referral?.code) {
-        const referrer = await User.findOne({ username: user.referral.code });
-        if (referrer) {
-          const bonus = amount * 0.05;
-          referrer.deposit += bonus;
-          await referrer.save();
-          await referralCommission(referrer.email, referrer.fullName, bonus, user.fullName);
-        }
+      for (const { referrer, amount: commission } of commissions) {
+        await referralCommission(referrer.email, referrer.fullName, commission, new Date(deposit.date).toDateString(), user.fullName);
       }
-
       await depositStatus(user.email, user.fullName, amount, deposit.date, true);
     } else {
       await depositStatus(user.email, user.fullName, amount, deposit.date, false);
@@ -64,13 +69,21 @@ async function processDepositDecision(req: AuthRequest, res: express.Response, i
       actor: { userId: req.user?.userId, email: req.user?.email, isAdmin: req.user?.isAdmin },
       target: { entityType: "deposit", entityId: String(deposit._id), userId: String(user._id), email: user.email },
       before,
-      after: { status: deposit.status, amount: deposit.amount, userEmail: user.email, userDeposit: user.deposit },
+      after: {
+        status: deposit.status,
+        amount: deposit.amount,
+        userEmail: user.email,
+        userDeposit: (await User.findById(user._id).select("deposit"))?.deposit,
+      },
       success: true,
       message: `Deposit ${status}`,
     });
 
     return res.json({ message: `Deposit ${status}` });
   } catch (error) {
+    if (error instanceof UnitOfWorkError || error instanceof TransactionStateError) {
+      return res.status(error.status).json({ message: error.message });
+    }
     console.error("Update deposit error:", error);
     return res.status(500).json({ message: "Update failed" });
   }
@@ -0,0 +1,108 @@
+import express, { Response } from "express";
+import { FeeSchedule, IFeeSchedule } from "../models/feeSchedule";
+import { User } from "../models/user";
+import feeService, { FeeError, isFeeType } from "../services/feeService";
+import { requireAuth, requireAdmin, AuthRequest } from "../middleware/auth";
+import { validate, feeScheduleSchema, feeScheduleUpdateSchema } from "../middleware/validation";
+import { logAudit } from "../utils/auditLogger";
+
+const router = express.Router();
+
+const actorOf = (req: AuthRequest) => ({ userId: req.user?.userId, email: req.user?.email, isAdmin: req.user?.isAdmin });
+
+const snapshot = (schedule: IFeeSchedule) => ({
+	type: schedule.type,
+	currency: schedule.currency,
+	percent: schedule.percent,
+	flat: schedule.flat,
+	min: schedule.min,
+	max: schedule.max,
+	tiers: schedule.tiers,
+	active: schedule.active,
+});
+
+const audit = (req: AuthRequest, action: string, schedule: IFeeSchedule, message: string, before?: Record<string, any> | null) =>
+	logAudit({
+		req,
+		action,
+		actor: actorOf(req),
+		target: { entityType: "fee_schedule", entityId: String(schedule._id) },
+		before: before ?? null,
+		after: action === "FEE_SCHEDULE_DELETED" ? null : snapshot(schedule),
+		success: true,
+		message,
+	});
+
+const sendError = (res: Response, error: any, fallback: string) => {
+	if (error instanceof FeeError) return res.status(error.status).json({ message: error.message });
+	console.error(`${fallback}:`, error);
+	res.status(500).json({ message: fallback });
+};
+
+// Quote the fee for a movement before the user confirms it:
+// ?type=external_transfer&amount=250&currency=USD. Admins can pass ?userId= to quote for someone else.
+router.get("/quote", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		const type = String(req.query.type || "");
+		if (!isFeeType(type)) return res.status(400).json({ message: `Unknown fee type: ${type}` });
+		const amount = Number(req.query.amount);
+		if (!Number.isFinite(amount) || amount <= 0) return res.status(400).json({ message: "Invalid amount" });
+
+		const userId = req.user?.isAdmin && req.query.userId ? String(req.query.userId) : req.user?.userId;
+		const user = await User.findById(userId).select("kycStatus");
+		if (!user) return res.status(404).json({ message: "User not found" });
+
+		const quote = await feeService.quote(type, amount, { user, currency: req.query.currency as string | undefined });
+		res.json({ quote });
+	} catch (error: any) {
+		sendError(res, error, "Failed to quote fee");
+	}
+});
+
+// Admin: every fee type with its schedules and the built-in default used when none is active
+router.get("/schedules", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
+	try {
+		res.json({ fees: await feeService.listSchedules() });
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch fee schedules");
+	}
+});
+
+router.post("/schedules", requireAuth, requireAdmin, validate(feeScheduleSchema), async (req: AuthRequest, res: Response) => {
+	try {
+		const schedule = await feeService.createSchedule(req.body, actorOf(req));
+		await audit(req, "FEE_SCHEDULE_CREATED", schedule, `Fee schedule created for ${schedule.type}`);
+		res.status(201).json({ message: "Fee schedule created", schedule });
+	} catch (error: any) {
+		sendError(res, error, "Failed to create fee schedule");
+	}
+});
+
+router.put("/schedules/:id", requireAuth, requireAdmin, validate(feeScheduleUpdateSchema), async (req: AuthRequest, res: Response) => {
+	try {
+		const schedule = await FeeSchedule.findById(req.params.id);
+		if (!schedule) return res.status(404).json({ message: "Fee schedule not found" });
+
+		const before = snapshot(schedule);
+		await feeService.updateSchedule(schedule, req.body, actorOf(req));
+		await audit(req, "FEE_SCHEDULE_UPDATED", schedule, `Fee schedule updated for ${schedule.type}`, before);
+		res.json({ message: "Fee schedule updated", schedule });
+	} catch (error: any) {
+		sendError(res, error, "Failed to update fee schedule");
+	}
+});
+
+// Deleting a schedule puts its type back on the "*" schedule or the built-in default
+router.delete("/schedules/:id", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
+	try {
+		const schedule = await FeeSchedule.findByIdAndDelete(req.params.id);
+		if (!schedule) return res.status(404).json({ message: "Fee schedule not found" });
+
+		await audit(req, "FEE_SCHEDULE_DELETED", schedule, `Fee schedule deleted for ${schedule.type}`, snapshot(schedule));
+		res.json({ message: "Fee schedule deleted" });
+	} catch (error: any) {
+		sendError(res, error, "Failed to delete fee schedule");
+	}
+});
+
+export default router;
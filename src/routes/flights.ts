@@ -1,8 +1,14 @@
 import express, { Request, Response } from "express";
+import mongoose from "mongoose";
 import amadeusService from "../services/amadeusService";
 import { requireAuth } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
 import { Transaction } from "../models/transaction";
 import { User } from "../models/user";
+import holdService from "../services/holdService";
+import feeService, { FeeError } from "../services/feeService";
+import { InsufficientFundsError } from "../services/ledgerService";
+import { runInTransaction, UnitOfWorkError } from "../utils/unitOfWork";
 
 const router = express.Router();
 
@@ -98,7 +104,7 @@ router.get("/search", requireAuth, async (req: Request, res: Response) => {
  * @body departureTime - Departure time
  * @body carrier - Airline carrier name
  */
-router.post("/book", requireAuth, async (req: Request, res: Response) => {
+router.post("/book", requireAuth, idempotency, async (req: Request, res: Response) => {
   try {
     const { flightId, price, origin, destination, departureTime, carrier } = req.body;
     const userId = (req as any).user?.userId || (req as any).userId;
@@ -118,36 +124,58 @@ router.post("/book", requireAuth, async (req: Request, res: Response) => {
       });
     }
 
-    // Calculate platform fee (1.8% as mentioned in the flights page)
-    const platformFeePercent = 1.8;
-    const platformFee = (price * platformFeePercent) / 100;
-    const totalAmount = price + platformFee;
-
-    const user = await User.findById(userId).select("email firstName lastName");
-    if (!user) {
-      return res.status(404).json({
-        success: false,
-        message: "User not found for booking",
-      });
-    }
-
-    const transaction = await Transaction.create({
-      type: "flight_booking",
-      user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
-      amount: totalAmount * -1,
-      currency: "USD",
-      status: "pending",
-      description: `Flight booking: ${origin} -> ${destination} (${carrier})`,
-      metadata: {
-        flightId,
-        origin,
-        destination,
-        departureTime,
-        carrier,
-        platformFeePercent,
-        platformFee,
-        totalAmount,
-      },
+    // The booking waits for admin approval; its total is held so it cannot be spent elsewhere meanwhile
+    const { transaction, quote } = await runInTransaction(async (session) => {
+      const user = await User.findById(userId).session(session);
+      if (!user) throw new UnitOfWorkError(404, "User not found for booking");
+
+      // Platform fee from the flight_booking fee schedule, charged from the hold on approval
+      const quote = await feeService.quote("flight_booking", Number(price), { user, currency: "USD" });
+      const platformFee = quote.fee;
+      const totalAmount = quote.total;
+
+      const holdId = new mongoose.Types.ObjectId();
+      const description = `Flight booking: ${origin} -> ${destination} (${carrier})`;
+      const [transaction] = await Transaction.create(
+        [
+          {
+            type: "flight_booking",
+            user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
+            amount: totalAmount * -1,
+            currency: "USD",
+            status: "pending",
+            description,
+            metadata: {
+              flightId,
+              origin,
+              destination,
+              departureTime,
+              carrier,
+              platformFeePercent: quote.rate.percent,
+              platformFee,
+              fee: platformFee,
+              totalAmount,
+              holdId,
+            },
+          },
+        ],
+        { session },
+      );
+
+      await holdService.place(
+        {
+          holdId,
+          user,
+          transactionId: transaction._id,
+          referenceType: "flight_booking",
+          amount: totalAmount,
+          currency: "USD",
+          description,
+          actor: { userId, email: user.email },
+        },
+        session,
+      );
+      return { transaction, quote };
     });
 
     return res.status(200).json({
@@ -157,12 +185,18 @@ router.post("/book", requireAuth, async (req: Request, res: Response) => {
         transactionId: transaction._id,
         flightId,
         price,
-        platformFee,
-        totalAmount,
+        platformFee: quote.fee,
+        totalAmount: quote.total,
         status: "pending",
       },
     });
   } catch (error: any) {
+    if (error instanceof UnitOfWorkError || error instanceof FeeError) {
+      return res.status(error.status).json({ success: false, message: error.message });
+    }
+    if (error instanceof InsufficientFundsError) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
     console.error("Flight booking error:", error);
     return res.status(500).json({
       success: false,
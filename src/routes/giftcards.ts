@@ -3,51 +3,19 @@ import GiftCard from "../models/giftcard";
 import { User } from "../models/user";
 import { Transaction } from "../models/transaction";
 import { requireAuth, AuthRequest } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
+import ledgerService, {
+  InsufficientFundsError,
+  userAccount,
+  systemAccount,
+  normalizeCurrency,
+  isSupportedCurrency,
+} from "../services/ledgerService";
+import feeService, { FeeError } from "../services/feeService";
+import { runInTransaction, UnitOfWorkError } from "../utils/unitOfWork";
 
 const router = Router();
 
-// Issuance fee in USD
-const GIFT_CARD_FEE = Number(process.env.GIFT_CARD_FEE) || 4.5;
-
-// Helper to get available balance
-const getAvailableBalance = (user: any): number => {
-  return (user.deposit || 0) + (user.interest || 0) + (user.bonus || 0) - (user.withdraw || 0);
-};
-
-// Helper to validate and deduct balance
-const validateAndDeductBalance = async (
-  user: any,
-  amount: number
-): Promise<{ success: boolean; message?: string }> => {
-  const availableBalance = getAvailableBalance(user);
-  if (availableBalance < amount) {
-    return {
-      success: false,
-      message: `Insufficient balance. Available: $${availableBalance.toFixed(2)}, Required: $${amount.toFixed(2)}`,
-    };
-  }
-
-  let remaining = amount;
-  if (user.deposit >= remaining) {
-    user.deposit -= remaining;
-    remaining = 0;
-  } else {
-    remaining -= user.deposit;
-    user.deposit = 0;
-    if (user.interest >= remaining) {
-      user.interest -= remaining;
-      remaining = 0;
-    } else {
-      remaining -= user.interest;
-      user.interest = 0;
-      user.bonus -= remaining;
-    }
-  }
-
-  await user.save();
-  return { success: true };
-};
-
 // GET /api/giftcards - List user's gift cards
 router.get("/", requireAuth, async (req: AuthRequest, res: Response) => {
   try {
@@ -75,10 +43,14 @@ router.get("/", requireAuth, async (req: AuthRequest, res: Response) => {
 });
 
 // POST /api/giftcards/issue - Issue a new gift card
-router.post("/issue", requireAuth, async (req: AuthRequest, res: Response) => {
+router.post("/issue", requireAuth, idempotency, async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user?.userId;
-    const { amount, recipient, currency = "USD" } = req.body;
+    const { amount, recipient } = req.body;
+    const currency = normalizeCurrency(req.body.currency);
+    if (!isSupportedCurrency(currency)) {
+      return res.status(400).json({ message: `Unsupported currency: ${currency}` });
+    }
 
     const cardAmount = Number(amount);
     if (isNaN(cardAmount) || cardAmount < 10) {
@@ -89,19 +61,6 @@ router.post("/issue", requireAuth, async (req: AuthRequest, res: Response) => {
       return res.status(400).json({ message: "Maximum gift card amount is $1,000" });
     }
 
-    const user = await User.findById(userId);
-    if (!user) {
-      return res.status(404).json({ message: "User not found" });
-    }
-
-    const totalCost = cardAmount + GIFT_CARD_FEE;
-
-    // Validate balance
-    const balanceCheck = await validateAndDeductBalance(user, totalCost);
-    if (!balanceCheck.success) {
-      return res.status(400).json({ message: balanceCheck.message });
-    }
-
     // Generate unique code
     let code: string;
     let attempts = 0;
@@ -120,32 +79,86 @@ router.post("/issue", requireAuth, async (req: AuthRequest, res: Response) => {
     const expiresAt = new Date();
     expiresAt.setFullYear(expiresAt.getFullYear() + 1);
 
-    // Create gift card
-    const giftcard = await GiftCard.create({
-      code,
-      amount: cardAmount,
-      currency,
-      status: "active",
-      issuedBy: userId,
-      recipient: recipient || undefined,
-      expiresAt,
-    });
-
-    // Create transaction record
-    await Transaction.create({
-      type: "gift_card_purchase",
-      user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
-      status: "completed",
-      amount: totalCost * -1,
-      currency,
-      description: `Gift card ${code} - $${cardAmount}`,
-      metadata: {
-        giftCardId: String(giftcard._id),
-        giftCardCode: code,
-        cardAmount,
-        fee: GIFT_CARD_FEE,
-        recipient,
-      },
+    const { giftcard, quote, newBalance } = await runInTransaction(async (session) => {
+      const user = await User.findById(userId).session(session);
+      if (!user) throw new UnitOfWorkError(404, "User not found");
+      // Issuance fee from the gift_card_issue fee schedule
+      const quote = await feeService.quote("gift_card_issue", cardAmount, { user, currency });
+      const totalCost = quote.total;
+
+      // Validate balance
+      const availableBalance = ledgerService.availableBalance(user, currency);
+      if (availableBalance < totalCost) {
+        throw new InsufficientFundsError(availableBalance, totalCost, currency);
+      }
+
+      // Create gift card
+      const [giftcard] = await GiftCard.create(
+        [
+          {
+            code,
+            amount: cardAmount,
+            currency,
+            status: "active",
+            issuedBy: userId,
+            recipient: recipient || undefined,
+            expiresAt,
+          },
+        ],
+        { session },
+      );
+
+      // Create transaction record
+      const [txn] = await Transaction.create(
+        [
+          {
+            type: "gift_card_purchase",
+            user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
+            status: "completed",
+            amount: totalCost * -1,
+            currency,
+            description: `Gift card ${code} - $${cardAmount}`,
+            metadata: {
+              giftCardId: String(giftcard._id),
+              giftCardCode: code,
+              cardAmount,
+              fee: quote.fee,
+              recipient,
+            },
+          },
+        ],
+        { session },
+      );
+
+      // Debit the issuer: face value becomes an outstanding gift card liability, the fee is revenue
+      const spend = feeService.spendPostings(user, quote);
+      await ledgerService.post(
+        {
+          description: `Gift card ${code} - $${cardAmount}`,
+          referenceType: "gift_card_purchase",
+          transactionIds: [txn._id],
+          postings: [
+            ...spend.principal,
+            { account: systemAccount("giftcard_liability", currency), credit: cardAmount },
+          ],
+          actor: { userId: req.user?.userId, email: req.user?.email },
+        },
+        { session },
+      );
+      await feeService.charge(
+        {
+          type: "gift_card_issue",
+          amount: quote.fee,
+          currency,
+          debits: spend.fee,
+          transactionIds: [txn._id],
+          description: `Gift card ${code} - $${cardAmount}`,
+          actor: { userId: req.user?.userId, email: req.user?.email },
+        },
+        session,
+      );
+
+      return { giftcard, quote, newBalance: await ledgerService.getAvailableBalance(user._id, session, currency) };
     });
 
     res.json({
@@ -160,12 +173,13 @@ router.post("/issue", requireAuth, async (req: AuthRequest, res: Response) => {
         expiresAt: giftcard.expiresAt,
         createdAt: giftcard.createdAt,
       },
-      fee: GIFT_CARD_FEE,
-      totalCharged: totalCost,
-      newBalance: getAvailableBalance(user),
+      fee: quote.fee,
+      totalCharged: quote.total,
+      newBalance,
     });
   } catch (err: any) {
-    res.status(400).json({ message: err.message || "Failed to issue gift card" });
+    const status = err instanceof UnitOfWorkError || err instanceof FeeError ? err.status : 400;
+    res.status(status).json({ message: err.message || "Failed to issue gift card" });
   }
 });
 
@@ -179,54 +193,75 @@ router.post("/redeem", requireAuth, async (req: AuthRequest, res: Response) => {
       return res.status(400).json({ message: "Gift card code is required" });
     }
 
-    const giftcard = await GiftCard.findOne({ code: code.toUpperCase() });
-    if (!giftcard) {
+    const existing = await GiftCard.findOne({ code: code.toUpperCase() });
+    if (!existing) {
       return res.status(404).json({ message: "Gift card not found" });
     }
 
-    if (giftcard.status !== "active") {
-      return res.status(400).json({ message: `Gift card is ${giftcard.status}` });
+    if (existing.status !== "active") {
+      return res.status(400).json({ message: `Gift card is ${existing.status}` });
     }
 
-    if (giftcard.expiresAt && giftcard.expiresAt < new Date()) {
-      giftcard.status = "expired";
-      await giftcard.save();
+    if (existing.expiresAt && existing.expiresAt < new Date()) {
+      existing.status = "expired";
+      await existing.save();
       return res.status(400).json({ message: "Gift card has expired" });
     }
 
-    const user = await User.findById(userId);
-    if (!user) {
-      return res.status(404).json({ message: "User not found" });
-    }
-
-    // Credit the user
-    user.deposit = (user.deposit || 0) + giftcard.amount;
-    await user.save();
-
-    // Mark gift card as redeemed
-    giftcard.status = "redeemed";
-    giftcard.redeemedBy = user._id as any;
-    giftcard.redeemedAt = new Date();
-    await giftcard.save();
-
-    // Create transaction
-    await Transaction.create({
-      type: "gift_card_redemption",
-      user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
-      status: "completed",
-      amount: giftcard.amount,
-      currency: giftcard.currency,
-      description: `Gift card redeemed - ${code}`,
-      metadata: { giftCardId: String(giftcard._id), giftCardCode: code },
+    const { giftcard, newBalance } = await runInTransaction(async (session) => {
+      const user = await User.findById(userId).session(session);
+      if (!user) throw new UnitOfWorkError(404, "User not found");
+
+      // Mark gift card as redeemed; the status guard stops two redemptions of the same code
+      const giftcard = await GiftCard.findOneAndUpdate(
+        { _id: existing._id, status: "active" },
+        { $set: { status: "redeemed", redeemedBy: user._id, redeemedAt: new Date() } },
+        { new: true, session },
+      );
+      if (!giftcard) throw new UnitOfWorkError(400, "Gift card is no longer active");
+      const currency = normalizeCurrency(giftcard.currency);
+
+      // Create transaction
+      const [txn] = await Transaction.create(
+        [
+          {
+            type: "gift_card_redemption",
+            user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
+            status: "completed",
+            amount: giftcard.amount,
+            currency,
+            description: `Gift card redeemed - ${code}`,
+            metadata: { giftCardId: String(giftcard._id), giftCardCode: code },
+          },
+        ],
+        { session },
+      );
+
+      // Credit the user out of the outstanding gift card liability
+      await ledgerService.post(
+        {
+          description: `Gift card redeemed - ${code}`,
+          referenceType: "gift_card_redemption",
+          transactionIds: [txn._id],
+          postings: [
+            { account: systemAccount("giftcard_liability", currency), debit: giftcard.amount },
+            { account: userAccount(user._id, "deposit", currency), credit: giftcard.amount },
+          ],
+          actor: { userId: req.user?.userId, email: req.user?.email },
+        },
+        { session },
+      );
+
+      return { giftcard, newBalance: await ledgerService.getAvailableBalance(user._id, session, currency) };
     });
 
     res.json({
       message: "Gift card redeemed successfully",
       amount: giftcard.amount,
-      newBalance: getAvailableBalance(user),
+      newBalance,
     });
   } catch (err: any) {
-    res.status(400).json({ message: err.message || "Failed to redeem gift card" });
+    res.status(err instanceof UnitOfWorkError ? err.status : 400).json({ message: err.message || "Failed to redeem gift card" });
   }
 });
 
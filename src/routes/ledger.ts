@@ -0,0 +1,71 @@
+import express, { Response } from "express";
+import { User } from "../models/user";
+import { JournalEntry } from "../models/ledger";
+import { requireAuth, requireAdmin, requireSelfOrAdmin, AuthRequest } from "../middleware/auth";
+import ledgerService from "../services/ledgerService";
+
+const router = express.Router();
+
+// Ledger-derived balances alongside the projection stored on the user
+router.get("/balances/:userId", requireAuth, requireSelfOrAdmin, async (req: AuthRequest, res: Response) => {
+	try {
+		const user = await User.findById(req.params.userId).select("deposit interest bonus withdraw balances");
+		if (!user) return res.status(404).json({ message: "User not found" });
+
+		const ledger = await ledgerService.getUserBalances(req.params.userId);
+		const projected = ledgerService.listBalances(user);
+		const currencies = [...new Set([...ledger, ...projected].map((line) => line.currency))];
+		const totalOf = (lines: typeof ledger, currency: string) =>
+			lines.find((line) => line.currency === currency)?.totalBalance || 0;
+
+		res.json({
+			ledger,
+			projected,
+			totalWithdrawn: user.withdraw,
+			inSync: currencies.every((currency) => Math.abs(totalOf(ledger, currency) - totalOf(projected, currency)) < 0.01),
+		});
+	} catch (error: any) {
+		console.error("Error fetching ledger balances:", error);
+		res.status(500).json({ message: "Failed to fetch ledger balances" });
+	}
+});
+
+// Journal entries touching a user's accounts
+router.get("/entries/:userId", requireAuth, requireSelfOrAdmin, async (req: AuthRequest, res: Response) => {
+	try {
+		const page = Math.max(1, parseInt(String(req.query.page || "1"), 10));
+		const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit || "20"), 10)));
+		const filter = { "postings.userId": req.params.userId };
+
+		const [entries, total] = await Promise.all([
+			JournalEntry.find(filter)
+				.sort({ postedAt: -1 })
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.lean(),
+			JournalEntry.countDocuments(filter),
+		]);
+
+		res.json({
+			entries,
+			total,
+			page,
+			totalPages: Math.ceil(total / limit),
+		});
+	} catch (error: any) {
+		console.error("Error fetching journal entries:", error);
+		res.status(500).json({ message: "Failed to fetch journal entries" });
+	}
+});
+
+// Trial balance across all accounts (admin only)
+router.get("/admin/trial-balance", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
+	try {
+		res.json(await ledgerService.getTrialBalance());
+	} catch (error: any) {
+		console.error("Error building trial balance:", error);
+		res.status(500).json({ message: "Failed to build trial balance" });
+	}
+});
+
+export default router;
@@ -0,0 +1,188 @@
+import express, { Response } from "express";
+import mongoose from "mongoose";
+import { MetalProduct } from "../models/metalProduct";
+import { MetalOrder } from "../models/metalOrder";
+import metalsService, { MetalsError } from "../services/metalsService";
+import metalPriceService, { MetalPriceError } from "../services/metalPriceService";
+import { InsufficientFundsError } from "../services/ledgerService";
+import { requireAuth, requireAdmin, AuthRequest } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
+import { validate, metalProductSchema, metalProductUpdateSchema, metalsOrderSchema } from "../middleware/validation";
+import { UnitOfWorkError } from "../utils/unitOfWork";
+
+const router = express.Router();
+
+const sendError = (res: Response, error: any, fallback: string) => {
+	if (error instanceof MetalsError || error instanceof MetalPriceError || error instanceof UnitOfWorkError) {
+		return res.status(error.status).json({ message: error.message });
+	}
+	if (error instanceof InsufficientFundsError) return res.status(400).json({ message: error.message });
+	console.error(`${fallback}:`, error);
+	res.status(500).json({ message: fallback });
+};
+
+// Users see their own orders and holdings; admins can pass ?userId=
+const targetUser = (req: AuthRequest) =>
+	String(req.user?.isAdmin && req.query.userId ? req.query.userId : req.user?.userId);
+
+// GET /api/metals/prices - Latest stored spot price of each metal (USD per troy ounce)
+router.get("/prices", async (req, res: Response) => {
+	try {
+		res.json({ prices: await metalPriceService.latest() });
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch metal prices");
+	}
+});
+
+// GET /api/metals/prices/:metal/history?days=30 - Stored prices of one metal, oldest first
+router.get("/prices/:metal/history", async (req, res: Response) => {
+	try {
+		res.json(await metalPriceService.history(req.params.metal, Number(req.query.days) || 30));
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch metal price history");
+	}
+});
+
+// POST /api/metals/prices/refresh - Fetch from the price provider now instead of waiting for the scheduler (admin only)
+router.post("/prices/refresh", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
+	try {
+		res.json(await metalPriceService.refresh());
+	} catch (error: any) {
+		sendError(res, error, "Failed to refresh metal prices");
+	}
+});
+
+// GET /api/metals/products?product=gold_bar - Active catalogue; admins can pass ?all=true to include inactive products
+router.get("/products", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		const filter: Record<string, unknown> = {};
+		if (!(req.user?.isAdmin && req.query.all === "true")) filter.isActive = true;
+		if (req.query.product) filter.product = String(req.query.product);
+
+		const products = await MetalProduct.find(filter).sort({ product: 1, weightGrams: 1 }).lean();
+		res.json({ products });
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch metal products");
+	}
+});
+
+// POST /api/metals/products - Add a bar or coin to the catalogue (admin only)
+router.post("/products", requireAuth, requireAdmin, validate(metalProductSchema), async (req: AuthRequest, res: Response) => {
+	try {
+		const product = await MetalProduct.create(req.body);
+		res.status(201).json({ product });
+	} catch (error: any) {
+		sendError(res, error, "Failed to create metal product");
+	}
+});
+
+// PUT /api/metals/products/:id - Update price, delivery periods or availability (admin only); orders keep what they paid
+router.put("/products/:id", requireAuth, requireAdmin, validate(metalProductUpdateSchema), async (req: AuthRequest, res: Response) => {
+	try {
+		if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ message: "Invalid product id" });
+		const product = await MetalProduct.findByIdAndUpdate(req.params.id, req.body, { new: true, runValidators: true });
+		if (!product) return res.status(404).json({ message: "Product not found" });
+		res.json({ product });
+	} catch (error: any) {
+		sendError(res, error, "Failed to update metal product");
+	}
+});
+
+// DELETE /api/metals/products/:id - Remove a product from the catalogue (admin only)
+router.delete("/products/:id", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
+	try {
+		if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ message: "Invalid product id" });
+		const product = await MetalProduct.findByIdAndDelete(req.params.id);
+		if (!product) return res.status(404).json({ message: "Product not found" });
+		res.json({ message: "Product deleted successfully" });
+	} catch (error: any) {
+		sendError(res, error, "Failed to delete metal product");
+	}
+});
+
+// POST /api/metals/quote - Price a portfolio without buying it: { products: [{ productId, quantity, deliveryPeriod }] }
+router.post("/quote", requireAuth, validate(metalsOrderSchema), async (req: AuthRequest, res: Response) => {
+	try {
+		res.json({ quote: await metalsService.quote(req.body.products) });
+	} catch (error: any) {
+		sendError(res, error, "Failed to quote metals order");
+	}
+});
+
+// POST /api/metals/orders - Buy a portfolio with the user's balance
+router.post("/orders", requireAuth, idempotency, validate(metalsOrderSchema), async (req: AuthRequest, res: Response) => {
+	try {
+		const { order, transaction } = await metalsService.checkout(String(req.user?.userId), req.body.products, {
+			userId: req.user?.userId,
+			email: req.user?.email,
+		});
+		res.status(201).json({ message: "Metals order placed", order, transaction });
+	} catch (error: any) {
+		sendError(res, error, "Failed to place metals order");
+	}
+});
+
+// GET /api/metals/orders?status=processing&page=1&limit=20 - Orders, newest first.
+// Admins can pass ?userId= and ?overdue=true for lines past their expected delivery
+router.get("/orders", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		const page = Math.max(1, Number(req.query.page) || 1);
+		const limit = Math.max(1, Math.min(Number(req.query.limit) || 20, 100));
+		const filter: Record<string, unknown> = {};
+		if (!req.user?.isAdmin || req.query.userId) filter.userId = targetUser(req);
+		if (req.query.status) filter.status = String(req.query.status);
+		if (req.user?.isAdmin && req.query.overdue === "true") {
+			filter.products = { $elemMatch: { status: { $ne: "delivered" }, expectedAt: { $lt: new Date() } } };
+		}
+
+		const [orders, total] = await Promise.all([
+			MetalOrder.find(filter)
+				.sort({ createdAt: -1 })
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.lean(),
+			MetalOrder.countDocuments(filter),
+		]);
+		res.json({ orders, pagination: { page, limit, total, pages: Math.ceil(total / limit) } });
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch metals orders");
+	}
+});
+
+// GET /api/metals/orders/:id
+router.get("/orders/:id", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ message: "Invalid order id" });
+		const filter = req.user?.isAdmin ? { _id: req.params.id } : { _id: req.params.id, userId: req.user?.userId };
+		const order = await MetalOrder.findOne(filter).lean();
+		if (!order) return res.status(404).json({ message: "Order not found" });
+		res.json({ order });
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch metals order");
+	}
+});
+
+// PUT /api/metals/orders/:id/lines/:lineId - Advance a line's delivery: { status: "shipped" | "delivered", trackingNumber? } (admin only)
+router.put("/orders/:id/lines/:lineId", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
+	try {
+		const order = await metalsService.updateDelivery(req.params.id, req.params.lineId, String(req.body?.status || ""), {
+			trackingNumber: req.body?.trackingNumber,
+		});
+		res.json({ message: "Delivery updated", order });
+	} catch (error: any) {
+		sendError(res, error, "Failed to update delivery");
+	}
+});
+
+// GET /api/metals/holdings - Metal held per product, delivered and pending, with cost and current value
+router.get("/holdings", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		const userId = targetUser(req);
+		if (!mongoose.isValidObjectId(userId)) return res.status(400).json({ message: "Invalid userId" });
+		res.json(await metalsService.holdings(userId));
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch metal holdings");
+	}
+});
+
+export default router;
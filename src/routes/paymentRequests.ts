@@ -0,0 +1,146 @@
+import express, { Response } from "express";
+import mongoose from "mongoose";
+import { PaymentRequest, IPaymentRequest } from "../models/paymentRequest";
+import paymentRequestService, { PaymentRequestError } from "../services/paymentRequestService";
+import { InsufficientFundsError } from "../services/ledgerService";
+import { requireAuth, AuthRequest } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
+import { validate, paymentRequestSchema } from "../middleware/validation";
+import { UnitOfWorkError } from "../utils/unitOfWork";
+import { logAudit } from "../utils/auditLogger";
+
+const router = express.Router();
+
+const actorOf = (req: AuthRequest) => ({ userId: req.user?.userId, email: req.user?.email, isAdmin: req.user?.isAdmin });
+
+const snapshot = (request: IPaymentRequest) => ({
+	status: request.status,
+	amount: request.amount,
+	currency: request.currency,
+	requesterEmail: request.requesterEmail,
+	payerEmail: request.payerEmail,
+});
+
+const audit = (req: AuthRequest, action: string, request: IPaymentRequest, message: string, before?: Record<string, any>) =>
+	logAudit({
+		req,
+		action,
+		actor: actorOf(req),
+		target: {
+			entityType: "payment_request",
+			entityId: String(request._id),
+			userId: String(request.requesterId),
+			email: request.requesterEmail,
+		},
+		before: before ?? null,
+		after: snapshot(request),
+		success: true,
+		message,
+	});
+
+const sendError = (res: Response, error: any, fallback: string) => {
+	if (error instanceof PaymentRequestError || error instanceof UnitOfWorkError) {
+		return res.status(error.status).json({ message: error.message });
+	}
+	if (error instanceof InsufficientFundsError) return res.status(400).json({ message: error.message });
+	console.error(`${fallback}:`, error);
+	res.status(500).json({ message: fallback });
+};
+
+// Only the payer may pay a request, since it moves their money; the payer (or an admin) may
+// decline it, and the requester (or an admin) may cancel it
+const findAs = (req: AuthRequest, role: "payer" | "requester" | "either", allowAdmin = true) => {
+	if (allowAdmin && req.user?.isAdmin) return PaymentRequest.findById(req.params.id);
+	const userId = req.user?.userId;
+	if (role === "payer") return PaymentRequest.findOne({ _id: req.params.id, payerId: userId });
+	if (role === "requester") return PaymentRequest.findOne({ _id: req.params.id, requesterId: userId });
+	return PaymentRequest.findOne({ _id: req.params.id, $or: [{ payerId: userId }, { requesterId: userId }] });
+};
+
+// List requests: ?role=incoming (asked of me, default) | outgoing (sent by me) and ?status=pending
+router.get("/", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		const role = req.query.role === "outgoing" ? "outgoing" : "incoming";
+		const filter: Record<string, unknown> = role === "outgoing" ? { requesterId: req.user?.userId } : { payerId: req.user?.userId };
+		if (req.query.status) filter.status = String(req.query.status);
+
+		const requests = await PaymentRequest.find(filter).sort({ createdAt: -1 }).lean();
+		res.json({ paymentRequests: requests });
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch payment requests");
+	}
+});
+
+router.get("/:id", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ message: "Invalid payment request id" });
+		const request = await findAs(req, "either");
+		if (!request) return res.status(404).json({ message: "Payment request not found" });
+		res.json({ paymentRequest: request });
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch payment request");
+	}
+});
+
+// Ask another user for money
+router.post("/", requireAuth, idempotency, validate(paymentRequestSchema), async (req: AuthRequest, res: Response) => {
+	try {
+		const request = await paymentRequestService.create(String(req.user?.userId), req.body);
+		await audit(req, "PAYMENT_REQUEST_CREATED", request, "Payment request created");
+		res.status(201).json({ message: "Payment request sent", paymentRequest: request });
+	} catch (error: any) {
+		sendError(res, error, "Failed to create payment request");
+	}
+});
+
+// Approve and pay: executes an internal transfer from the payer to the requester
+router.post("/:id/approve", requireAuth, idempotency, async (req: AuthRequest, res: Response) => {
+	try {
+		if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ message: "Invalid payment request id" });
+		const request = await findAs(req, "payer", false);
+		if (!request) return res.status(404).json({ message: "Payment request not found" });
+
+		const before = snapshot(request);
+		const { request: paid, transfer } = await paymentRequestService.approve(request, {
+			userId: req.user?.userId,
+			email: req.user?.email,
+		});
+		await audit(req, "PAYMENT_REQUEST_PAID", paid, "Payment request approved and paid", before);
+		res.json({ message: "Payment request paid", paymentRequest: paid, newBalance: transfer.newBalance });
+	} catch (error: any) {
+		sendError(res, error, "Failed to pay payment request");
+	}
+});
+
+router.post("/:id/decline", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ message: "Invalid payment request id" });
+		const request = await findAs(req, "payer");
+		if (!request) return res.status(404).json({ message: "Payment request not found" });
+
+		const before = snapshot(request);
+		const reason = String(req.body?.reason || "").slice(0, 500);
+		const declined = await paymentRequestService.decline(request, reason);
+		await audit(req, "PAYMENT_REQUEST_DECLINED", declined, "Payment request declined", before);
+		res.json({ message: "Payment request declined", paymentRequest: declined });
+	} catch (error: any) {
+		sendError(res, error, "Failed to decline payment request");
+	}
+});
+
+router.post("/:id/cancel", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ message: "Invalid payment request id" });
+		const request = await findAs(req, "requester");
+		if (!request) return res.status(404).json({ message: "Payment request not found" });
+
+		const before = snapshot(request);
+		const cancelled = await paymentRequestService.cancel(request);
+		await audit(req, "PAYMENT_REQUEST_CANCELLED", cancelled, "Payment request cancelled", before);
+		res.json({ message: "Payment request cancelled", paymentRequest: cancelled });
+	} catch (error: any) {
+		sendError(res, error, "Failed to cancel payment request");
+	}
+});
+
+export default router;
@@ -1,4 +1,5 @@
-import express, { Request, Response } from "express";
+import express, { Response } from "express";
+import mongoose from "mongoose";
 import { Plan } from "../models/plan";
 import { Transaction } from "../models/transaction";
 import { User } from "../models/user";
@@ -8,6 +9,16 @@ import {
 	contractCompleted,
 	contractRejected
 } from "../utils/mailer";
+import { InsufficientFundsError } from "../services/ledgerService";
+import transactionStateMachine, { TransactionStateError } from "../services/transactionStateMachine";
+import contractMaturityService from "../services/contractMaturityService";
+import interestAccrualService from "../services/interestAccrualService";
+import contractService, { ContractError } from "../services/contractService";
+import planService, { PlanError } from "../services/planService";
+import contractTerminationService, { ContractTerminationError } from "../services/contractTerminationService";
+import { requireAuth, requireAdmin, AuthRequest } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
+import { runInTransaction, UnitOfWorkError } from "../utils/unitOfWork";
 
 const router = express.Router();
 
@@ -22,10 +33,38 @@ router.get("/", async (req, res) => {
 	}
 });
 
+// GET /api/plans/projection?amount=1000&planIds=id1,id2&schedule=false - What an amount would earn on each plan,
+// with maturity date, daily interest schedule, effective annual yield and a side-by-side comparison
+router.get("/projection", async (req, res) => {
+	try {
+		const planIds = String(req.query.planIds || req.query.planId || "")
+			.split(",")
+			.map((id) => id.trim())
+			.filter(Boolean);
+		const projection = await contractService.project(Number(req.query.amount), planIds, {
+			schedule: req.query.schedule !== "false",
+		});
+		res.json(projection);
+	} catch (error: any) {
+		if (error instanceof ContractError) {
+			return res.status(error.status).json({ message: error.message });
+		}
+		console.error("Error projecting contract earnings:", error);
+		res.status(500).json({ message: "Failed to project contract earnings" });
+	}
+});
+
 // POST /api/plans/contract - Create contract (User)
-router.post("/contract", async (req, res) => {
+router.post("/contract", requireAuth, idempotency, async (req: AuthRequest, res) => {
 	try {
-		const { planId, amount, userId, interest } = req.body;
+		const { planId, userId, rollover, rolloverPlanId } = req.body;
+		if (!req.user?.isAdmin && req.user?.userId !== userId) {
+			return res.status(403).json({ message: "Access denied: You can only open contracts for your own account" });
+		}
+		const amount = Number(req.body.amount);
+		if (!Number.isFinite(amount) || amount <= 0) {
+			return res.status(400).json({ message: "Amount must be a positive number" });
+		}
 
 		// Get plan
 		const plan = await Plan.findById(planId);
@@ -33,130 +72,202 @@ router.post("/contract", async (req, res) => {
 			return res.status(404).json({ message: "Plan not found" });
 		}
 
-		// Check minimum amount
-		if (amount < plan.minAmount) {
-			return res.status(400).json({ message: `Minimum amount is $${plan.minAmount}` });
-		}
+		// Check the plan's contract bounds
+		planService.checkAmount(plan, amount);
 
-		// Get user and check balance
-		const user = await User.findById(userId);
-		if (!user) {
-			return res.status(404).json({ message: "User not found" });
-		}
+		// What happens on maturity: "none" (default), "principal" or "principal_and_interest"
+		const rolloverSettings = await contractService.parseRollover(rollover, rolloverPlanId);
 
-		// Check if user has sufficient balance
-		if (user.deposit < amount) {
-			return res.status(400).json({
-				message: `Insufficient balance. Available: $${user.deposit}`,
-			});
-		}
+		const { user, transaction, remainingBalance } = await runInTransaction(async (session) => {
+			// Get user and check balance
+			const user = await User.findById(userId).session(session);
+			if (!user) throw new UnitOfWorkError(404, "User not found");
+
+			// Check if user has sufficient balance
+			if (user.deposit < amount) {
+				throw new UnitOfWorkError(400, `Insufficient balance. Available: $${user.deposit}`);
+			}
+
+			// Active straight away and funded from deposit; the scheduler completes it once it matures
+			const transaction = await contractService.open(
+				{
+					user,
+					plan,
+					amount,
+					rollover: rolloverSettings,
+					actor: { userId: req.user?.userId, email: req.user?.email },
+				},
+				session,
+			);
 
-		// Deduct amount from user balance
-		user.deposit -= amount;
-		await user.save();
-
-		// Create contract transaction with auto-activation
-		const transaction = new Transaction({
-			type: "contract",
-			user: {
-				id: userId,
-				email: user.email,
-				name: user.username,
-			},
-			status: "active", // Auto-activate contracts
-			amount: amount,
-			planData: {
-				plan: plan.name,
-				duration: plan.duration,
-				interest: interest || (amount * plan.roi) / 100,
-			},
+			const remainingBalance = (await User.findById(user._id).select("deposit").session(session))?.deposit;
+			return { user, transaction, remainingBalance };
 		});
 
-		await transaction.save();
-		
 		// Send approval notification instead of request notification
 		await contractApproved(user.email, user.fullName, amount, transaction.date, plan.name);
 		await alertAdmin(user.email, amount, transaction.date, "contract");
 		res.status(201).json({
 			message: "Contract created successfully",
-			remainingBalance: user.deposit,
+			remainingBalance,
 		});
 	} catch (error: any) {
+		if (error instanceof UnitOfWorkError || error instanceof ContractError || error instanceof PlanError) {
+			return res.status(error.status).json({ message: error.message });
+		}
+		if (error instanceof InsufficientFundsError) {
+			return res.status(400).json({ message: error.message });
+		}
 		res.status(500).json({ message: error.message });
 	}
 });
 
 // PUT /api/plans/contract/:id - Update contract status (Admin)
-router.put("/contract/:id", async (req, res) => {
+router.put("/contract/:id", requireAuth, requireAdmin, async (req: AuthRequest, res) => {
 	try {
 		const { id } = req.params;
-		const { status } = req.body; // 'approved', 'rejected', 'completed'
+		const { status } = req.body; // 'active', 'rejected', 'completed'
 
-		const transaction = await Transaction.findById(id);
-		if (!transaction || transaction.type !== "contract") {
-			return res.status(404).json({ message: "Contract not found" });
-		}
+		const { transaction, user } = await runInTransaction(async (session) => {
+			const transaction = await Transaction.findById(id).session(session);
+			if (!transaction || transaction.type !== "contract") {
+				throw new UnitOfWorkError(404, "Contract not found");
+			}
 
-		// Find user and update their balance
-		const user = await User.findById(transaction.user ? transaction.user.id : "");
-		if (!user) {
-			return res.status(404).json({ message: "User not found" });
-		}
+			// Owner of the contract, for the notification emails
+			const user = await User.findById(transaction.user ? transaction.user.id : "").session(session);
+			if (!user) throw new UnitOfWorkError(404, "User not found");
 
-		// Update status
-		transaction.status = status;
+			// Rejection refunds the principal, completion pays principal and interest
+			await transactionStateMachine.transition(transaction, String(status), {
+				session,
+				actor: { userId: req.user?.userId, email: req.user?.email },
+			});
+			return { transaction, user };
+		});
 
+		const planName = transaction.planData ? transaction.planData.plan : "";
 		if (status === "rejected") {
-			// If rejected, refund amount to user balance
-			user.deposit += Number(transaction.amount);
-			transaction.amount = 0;
-			await user.save();
-			await contractRejected(
-				user.email,
-				user.fullName,
-				transaction.amount,
-				transaction.date,
-				transaction.planData ? transaction.planData.plan : "",
-			);
+			await contractRejected(user.email, user.fullName, transaction.amount, transaction.date, planName);
 		}
 		if (status === "active") {
-			await contractApproved(
-				user.email,
-				user.fullName,
-				transaction.amount,
-				transaction.date,
-				transaction.planData ? transaction.planData.plan : "",
-			);
+			await contractApproved(user.email, user.fullName, transaction.amount, transaction.date, planName);
 		}
-
-		// If completed, add interest to amount and fund user balance
 		if (status === "completed") {
-			if (user) {
-				user.deposit += Number(transaction.amount);
-				user.interest += Number(transaction.planData ? transaction.planData.interest : "");
-				await user.save();
-			}
-
-			await contractCompleted(
-				user.email,
-				user.fullName,
-				transaction.amount,
-				transaction.date,
-				transaction.planData ? transaction.planData.plan : "",
-			);
+			await contractCompleted(user.email, user.fullName, transaction.amount, transaction.date, planName);
 		}
 
-		await transaction.save();
-
 		res.json({
 			message: `Contract ${status} successfully`,
 			transaction: transaction,
 		});
 	} catch (error: any) {
+		if (error instanceof UnitOfWorkError || error instanceof TransactionStateError) {
+			return res.status(error.status).json({ message: error.message });
+		}
 		res.status(500).json({ message: error.message });
 	}
 });
 
+// PUT /api/plans/contract/:id/rollover - Choose what happens when an active contract matures (owner or admin)
+// Body: { mode: "none" | "principal" | "principal_and_interest", planId?: string }; no planId keeps the same plan
+router.put("/contract/:id/rollover", requireAuth, async (req: AuthRequest, res) => {
+	try {
+		const settings = await contractService.parseRollover(req.body.mode, req.body.planId);
+		const contract = await contractService.setRollover(req.params.id, settings, {
+			userId: req.user?.userId,
+			isAdmin: req.user?.isAdmin,
+		});
+		res.json({ message: "Rollover updated", rollover: contract?.planData?.rollover, transaction: contract });
+	} catch (error: any) {
+		if (error instanceof ContractError) {
+			return res.status(error.status).json({ message: error.message });
+		}
+		console.error("Error updating contract rollover:", error);
+		res.status(500).json({ message: "Failed to update contract rollover" });
+	}
+});
+
+// GET /api/plans/contract/:id/termination - What the user would get back by exiting the contract now
+router.get("/contract/:id/termination", requireAuth, async (req: AuthRequest, res) => {
+	try {
+		const contract = await contractTerminationService.findTerminable(req.params.id, {
+			userId: req.user?.userId,
+			isAdmin: req.user?.isAdmin,
+		});
+		res.json({ quote: await contractTerminationService.quote(contract) });
+	} catch (error: any) {
+		if (error instanceof ContractTerminationError) return res.status(error.status).json({ message: error.message });
+		console.error("Error quoting contract termination:", error);
+		res.status(500).json({ message: "Failed to quote contract termination" });
+	}
+});
+
+// POST /api/plans/contract/:id/terminate - Exit an active contract early; the plan's penalty is kept
+router.post("/contract/:id/terminate", requireAuth, async (req: AuthRequest, res) => {
+	try {
+		const { contract, termination } = await contractTerminationService.terminate(req.params.id, {
+			userId: req.user?.userId,
+			email: req.user?.email,
+			isAdmin: req.user?.isAdmin,
+		});
+		res.json({ message: "Contract terminated", termination, transaction: contract });
+	} catch (error: any) {
+		if (error instanceof ContractTerminationError || error instanceof TransactionStateError || error instanceof UnitOfWorkError) {
+			return res.status(error.status).json({ message: error.message });
+		}
+		console.error("Error terminating contract:", error);
+		res.status(500).json({ message: "Failed to terminate contract" });
+	}
+});
+
+// GET /api/plans/contracts/maturities?days=30&limit=100 - Active contracts maturing soon (admin only)
+router.get("/contracts/maturities", requireAuth, requireAdmin, async (req, res) => {
+	try {
+		const maturities = await contractMaturityService.upcoming({
+			days: Number(req.query.days) || undefined,
+			limit: Number(req.query.limit) || undefined,
+		});
+		res.json(maturities);
+	} catch (error) {
+		console.error("Error fetching contract maturities:", error);
+		res.status(500).json({ message: "Failed to fetch contract maturities" });
+	}
+});
+
+// POST /api/plans/contracts/maturities/run - Complete matured contracts now instead of waiting for the scheduler (admin only)
+router.post("/contracts/maturities/run", requireAuth, requireAdmin, async (req, res) => {
+	try {
+		const result = await contractMaturityService.runDue();
+		res.json({ message: "Contract maturity run complete", ...result });
+	} catch (error) {
+		console.error("Error running contract maturities:", error);
+		res.status(500).json({ message: "Failed to run contract maturities" });
+	}
+});
+
+// GET /api/plans/contracts/accruals?contractId=&page=1&limit=50 - Daily interest credited on the user's contracts.
+// Admins can pass ?userId= to see anyone's history.
+router.get("/contracts/accruals", requireAuth, async (req: AuthRequest, res) => {
+	try {
+		const userId = req.user?.isAdmin && req.query.userId ? String(req.query.userId) : String(req.user?.userId);
+		const contractId = req.query.contractId ? String(req.query.contractId) : undefined;
+		if (!mongoose.isValidObjectId(userId) || (contractId && !mongoose.isValidObjectId(contractId))) {
+			return res.status(400).json({ message: "Invalid userId or contractId" });
+		}
+
+		const history = await interestAccrualService.history(userId, {
+			contractId,
+			page: Number(req.query.page) || undefined,
+			limit: Number(req.query.limit) || undefined,
+		});
+		res.json(history);
+	} catch (error) {
+		console.error("Error fetching interest accruals:", error);
+		res.status(500).json({ message: "Failed to fetch interest accruals" });
+	}
+});
+
 // GET /api/plans/:id - Get plan by ID
 router.get("/:id", async (req, res) => {
 	try {
@@ -172,52 +283,37 @@ router.get("/:id", async (req, res) => {
 });
 
 // POST /api/plans - Create new plan (admin only)
-router.post("/", async (req: Request, res: Response) => {
+// Body: name, tier, description, minContract, maxContract?, dailyReturn (% per day), planDuration (days),
+// goldBacking?, withdrawalLimit?, features, color?, earlyTerminationPenalty?
+router.post("/", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
 	try {
-		const { name, description, roi, minAmount, duration, features } = req.body;
-
-		const plan = new Plan({
-			name,
-			description,
-			roi,
-			minAmount,
-			duration,
-			features,
-			isActive: true,
-		});
-
-		await plan.save();
+		const plan = await planService.create(req.body);
 		res.status(201).json(plan);
 	} catch (error) {
+		if (error instanceof PlanError) {
+			return res.status(error.status).json({ message: error.message });
+		}
 		console.error("Error creating plan:", error);
 		res.status(500).json({ message: "Failed to create plan" });
 	}
 });
 
-// PUT /api/plans/:id - Update plan (admin only)
-router.put("/:id", async (req: Request, res: Response) => {
+// PUT /api/plans/:id - Update plan (admin only); only the fields sent are changed
+router.put("/:id", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
 	try {
-		const { name, description, roi, minAmount, duration, features, isActive } = req.body;
-
-		const plan = await Plan.findByIdAndUpdate(
-			req.params.id,
-			{ name, description, roi, minAmount, duration, features, isActive },
-			{ new: true, runValidators: true },
-		);
-
-		if (!plan) {
-			return res.status(404).json({ message: "Plan not found" });
-		}
-
+		const plan = await planService.update(req.params.id, req.body);
 		res.json(plan);
 	} catch (error) {
+		if (error instanceof PlanError) {
+			return res.status(error.status).json({ message: error.message });
+		}
 		console.error("Error updating plan:", error);
 		res.status(500).json({ message: "Failed to update plan" });
 	}
 });
 
 // DELETE /api/plans/:id - Delete plan (admin only)
-router.delete("/:id", async (req: Request, res: Response) => {
+router.delete("/:id", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
 	try {
 		const plan = await Plan.findByIdAndDelete(req.params.id);
 		if (!plan) {
@@ -0,0 +1,76 @@
+import express, { Response } from "express";
+import mongoose from "mongoose";
+import referralService, { ReferralError } from "../services/referralService";
+import { requireAuth, requireAdmin, AuthRequest } from "../middleware/auth";
+import { validate, referralSettingsSchema } from "../middleware/validation";
+
+const router = express.Router();
+
+const sendError = (res: Response, error: any, fallback: string) => {
+	if (error instanceof ReferralError) return res.status(error.status).json({ message: error.message });
+	console.error(`${fallback}:`, error);
+	res.status(500).json({ message: fallback });
+};
+
+// Users see their own referrals; admins can pass ?userId=
+const targetUser = (req: AuthRequest) =>
+	String(req.user?.isAdmin && req.query.userId ? req.query.userId : req.user?.userId);
+
+// GET /api/referrals/me - Referral code, referred users by status and commission earned per level
+router.get("/me", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		const userId = targetUser(req);
+		if (!mongoose.isValidObjectId(userId)) return res.status(400).json({ message: "Invalid userId" });
+		res.json(await referralService.summary(userId));
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch referral summary");
+	}
+});
+
+// GET /api/referrals/commissions?page=1&limit=20 - Commissions earned, newest first
+router.get("/commissions", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		const userId = targetUser(req);
+		if (!mongoose.isValidObjectId(userId)) return res.status(400).json({ message: "Invalid userId" });
+		res.json(
+			await referralService.commissions(userId, { page: Number(req.query.page), limit: Number(req.query.limit) }),
+		);
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch referral commissions");
+	}
+});
+
+// GET /api/referrals/report?from=2026-01-01&to=2026-02-01&limit=10 - Program totals and top referrers (admin only)
+router.get("/report", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
+	try {
+		const from = req.query.from ? new Date(String(req.query.from)) : undefined;
+		const to = req.query.to ? new Date(String(req.query.to)) : undefined;
+		if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+			return res.status(400).json({ message: "from and to must be dates" });
+		}
+		res.json(await referralService.report({ from, to, limit: Number(req.query.limit) }));
+	} catch (error: any) {
+		sendError(res, error, "Failed to build referral report");
+	}
+});
+
+// GET /api/referrals/settings - Commission rates per level, caps and qualifying rules (admin only)
+router.get("/settings", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
+	try {
+		res.json({ settings: await referralService.rules() });
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch referral settings");
+	}
+});
+
+// PUT /api/referrals/settings - Change the program rules; applies to deposits approved from now on (admin only)
+router.put("/settings", requireAuth, requireAdmin, validate(referralSettingsSchema), async (req: AuthRequest, res: Response) => {
+	try {
+		const settings = await referralService.updateRules(req.body, { userId: req.user?.userId, email: req.user?.email });
+		res.json({ message: "Referral settings updated", settings });
+	} catch (error: any) {
+		sendError(res, error, "Failed to update referral settings");
+	}
+});
+
+export default router;
@@ -0,0 +1,103 @@
+import express, { Response } from "express";
+import mongoose from "mongoose";
+import { StandingOrder } from "../models/standingOrder";
+import standingOrderService, { StandingOrderError } from "../services/standingOrderService";
+import { requireAuth, AuthRequest } from "../middleware/auth";
+import { idempotency } from "../middleware/idempotency";
+import { validate, standingOrderSchema } from "../middleware/validation";
+
+const router = express.Router();
+
+// Orders are scoped to their owner; admins can reach any order
+const ownOrder = (req: AuthRequest) =>
+	req.user?.isAdmin ? { _id: req.params.id } : { _id: req.params.id, userId: req.user?.userId };
+
+const sendError = (res: Response, error: any, fallback: string) => {
+	if (error instanceof StandingOrderError) return res.status(error.status).json({ message: error.message });
+	console.error(`${fallback}:`, error);
+	res.status(500).json({ message: fallback });
+};
+
+// List standing orders: ?status=active. Admins can pass ?userId=
+router.get("/", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		const filter: Record<string, unknown> = {
+			userId: req.user?.isAdmin && req.query.userId ? String(req.query.userId) : req.user?.userId,
+		};
+		if (req.query.status) filter.status = String(req.query.status);
+
+		const orders = await StandingOrder.find(filter).sort({ createdAt: -1 }).lean();
+		res.json({ standingOrders: orders });
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch standing orders");
+	}
+});
+
+router.get("/:id", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ message: "Invalid standing order id" });
+		const order = await StandingOrder.findOne(ownOrder(req)).lean();
+		if (!order) return res.status(404).json({ message: "Standing order not found" });
+		res.json({ standingOrder: order });
+	} catch (error: any) {
+		sendError(res, error, "Failed to fetch standing order");
+	}
+});
+
+// Create a one-off future, weekly or monthly transfer to another platform user
+router.post("/", requireAuth, idempotency, validate(standingOrderSchema), async (req: AuthRequest, res: Response) => {
+	try {
+		const fromUserId = req.body.fromUserId || req.user?.userId;
+
+		// SECURITY: Users can only create standing orders from their own account unless admin
+		if (!req.user?.isAdmin && req.user?.userId !== fromUserId) {
+			return res.status(403).json({ message: "Access denied: You can only transfer from your own account" });
+		}
+
+		const order = await standingOrderService.create(fromUserId, req.body);
+		res.status(201).json({ message: "Standing order created", standingOrder: order });
+	} catch (error: any) {
+		sendError(res, error, "Failed to create standing order");
+	}
+});
+
+router.post("/:id/pause", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ message: "Invalid standing order id" });
+		const order = await StandingOrder.findOne(ownOrder(req));
+		if (!order) return res.status(404).json({ message: "Standing order not found" });
+
+		await standingOrderService.pause(order);
+		res.json({ message: "Standing order paused", standingOrder: order });
+	} catch (error: any) {
+		sendError(res, error, "Failed to pause standing order");
+	}
+});
+
+router.post("/:id/resume", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ message: "Invalid standing order id" });
+		const order = await StandingOrder.findOne(ownOrder(req));
+		if (!order) return res.status(404).json({ message: "Standing order not found" });
+
+		await standingOrderService.resume(order);
+		res.json({ message: "Standing order resumed", standingOrder: order });
+	} catch (error: any) {
+		sendError(res, error, "Failed to resume standing order");
+	}
+});
+
+router.post("/:id/cancel", requireAuth, async (req: AuthRequest, res: Response) => {
+	try {
+		if (!mongoose.isValidObjectId(req.params.id)) return res.status(400).json({ message: "Invalid standing order id" });
+		const order = await StandingOrder.findOne(ownOrder(req));
+		if (!order) return res.status(404).json({ message: "Standing order not found" });
+
+		await standingOrderService.cancel(order);
+		res.json({ message: "Standing order cancelled", standingOrder: order });
+	} catch (error: any) {
+		sendError(res, error, "Failed to cancel standing order");
+	}
+});
+
+export default router;
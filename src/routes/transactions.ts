@@ -1,6 +1,17 @@
 import express from "express";
 import { Transaction } from "../models/transaction";
 import { requireAuth, requireAdmin, AuthRequest } from "../middleware/auth";
+import statementService, { StatementPeriodError } from "../services/statementService";
+import transactionExportService, {
+	EXPORT_FORMATS,
+	ExportFilters,
+	ExportFormat,
+} from "../services/transactionExportService";
+import { isSupportedCurrency, normalizeCurrency } from "../services/ledgerService";
+import transactionStateMachine, { TransactionStateError } from "../services/transactionStateMachine";
+import transactionSearchService, { TransactionSearchError } from "../services/transactionSearchService";
+import { ApiResponse, CursorPage } from "../types/common.types";
+import { runInTransaction, UnitOfWorkError } from "../utils/unitOfWork";
 
 const router = express.Router();
 
@@ -37,6 +48,71 @@ router.get("/contracts", requireAuth, requireAdmin, async (req, res) => {
 	}
 });
 
+// Search transactions with cursor pagination:
+// ?type=withdrawal,external_transfer&status=pending&currency=USD&minAmount=10&maxAmount=500
+// &startDate=2026-01-01&endDate=2026-03-31&search=0xabc&payoutProvider=nowpayments
+// &sortBy=date|amount|createdAt|updatedAt&sortOrder=desc&limit=20&cursor=<nextCursor>
+// Admins can narrow to a user with ?userId= or ?email=; everyone else only sees their own.
+router.get("/search", requireAuth, async (req: AuthRequest, res) => {
+	try {
+		const query = transactionSearchService.parse(req.query as Record<string, unknown>, {
+			email: req.user?.email,
+			isAdmin: req.user?.isAdmin,
+		});
+		const page = await transactionSearchService.search(query);
+		const response: ApiResponse<CursorPage<any>> = {
+			success: true,
+			message: `${page.items.length} transactions`,
+			data: page,
+		};
+		res.json(response);
+	} catch (e: any) {
+		if (e instanceof TransactionSearchError) {
+			const response: ApiResponse = { success: false, message: e.message, code: "INVALID_QUERY" };
+			return res.status(e.status).json(response);
+		}
+		console.error("Transaction search error:", e);
+		const response: ApiResponse = { success: false, message: "Failed to search transactions" };
+		res.status(500).json(response);
+	}
+});
+
+// Monthly statement as PDF (default) or CSV: ?format=csv&currency=USD
+// Admins can fetch any user's statement with ?userId=
+router.get("/statements/:year/:month", requireAuth, async (req: AuthRequest, res) => {
+	try {
+		const year = Number(req.params.year);
+		const month = Number(req.params.month);
+		const format = String(req.query.format || "pdf").toLowerCase();
+		if (!["pdf", "csv"].includes(format)) {
+			return res.status(400).json({ message: "format must be pdf or csv" });
+		}
+		const currency = normalizeCurrency(req.query.currency as string | undefined);
+		if (!isSupportedCurrency(currency)) {
+			return res.status(400).json({ message: `Unsupported currency: ${currency}` });
+		}
+		const userId = req.user?.isAdmin && req.query.userId ? String(req.query.userId) : String(req.user?.userId);
+
+		const statement = await statementService.build(userId, year, month, currency);
+		if (!statement) return res.status(404).json({ message: "User not found" });
+
+		if (format === "csv") {
+			res.setHeader("Content-Type", "text/csv; charset=utf-8");
+			res.setHeader("Content-Disposition", `attachment; filename="${statementService.fileName(statement, "csv")}"`);
+			return res.send(statementService.toCsv(statement));
+		}
+
+		const pdf = await statementService.toPdf(statement);
+		res.setHeader("Content-Type", "application/pdf");
+		res.setHeader("Content-Disposition", `attachment; filename="${statementService.fileName(statement, "pdf")}"`);
+		res.send(pdf);
+	} catch (e: any) {
+		if (e instanceof StatementPeriodError) return res.status(400).json({ message: e.message });
+		console.error("Statement generation error:", e);
+		res.status(500).json({ message: "Failed to generate statement" });
+	}
+});
+
 // getting single transaction
 router.get("/:id", requireAuth, async (req: AuthRequest, res) => {
 	const { id } = req.params;
@@ -57,6 +133,22 @@ router.get("/:id", requireAuth, async (req: AuthRequest, res) => {
 	}
 });
 
+// Status history and the statuses the transaction can move to next (admin only)
+router.get("/:id/transitions", requireAuth, requireAdmin, async (req, res) => {
+	try {
+		const transaction = await Transaction.findById(req.params.id).select("type status statusHistory");
+		if (!transaction) return res.status(404).json({ message: "Transaction not found" });
+
+		res.json({
+			status: transaction.status,
+			allowed: transactionStateMachine.allowedTransitions(transaction.type, transaction.status),
+			history: transaction.statusHistory,
+		});
+	} catch (e) {
+		res.status(500).json({ message: "Failed to fetch transaction transitions" });
+	}
+});
+
 // getting all transactions
 router.get("/", requireAuth, async (req: AuthRequest, res) => {
 	try {
@@ -97,12 +189,83 @@ router.get("/user/:email", requireAuth, async (req: AuthRequest, res) => {
 	}
 });
 
-// Update a single transaction by ID
-router.put("/:id", requireAuth, requireAdmin, async (req, res) => {
+// Export a user's transactions for accounting tools: ?format=csv|ofx|qif&from=2026-01-01&to=2026-03-31
+// &types=internal_transfer,card_funding&currency=USD. Dates are inclusive UTC days.
+router.get("/user/:email/export", requireAuth, async (req: AuthRequest, res) => {
+	const { email } = req.params;
+	if (!req.user?.isAdmin && String(req.user?.email || "").toLowerCase() !== String(email).toLowerCase()) {
+		return res.status(403).json({ message: "Access denied" });
+	}
+
+	try {
+		const format = String(req.query.format || "csv").toLowerCase() as ExportFormat;
+		if (!EXPORT_FORMATS.includes(format)) {
+			return res.status(400).json({ message: `format must be one of ${EXPORT_FORMATS.join(", ")}` });
+		}
+
+		const filters: ExportFilters = {};
+		for (const bound of ["from", "to"] as const) {
+			const value = req.query[bound];
+			if (!value) continue;
+			const date = new Date(String(value));
+			if (Number.isNaN(date.getTime())) {
+				return res.status(400).json({ message: `Invalid ${bound} date` });
+			}
+			// A bare date as upper bound includes that whole day
+			if (bound === "to" && /^\d{4}-\d{2}-\d{2}$/.test(String(value))) {
+				date.setUTCDate(date.getUTCDate() + 1);
+			}
+			filters[bound] = date;
+		}
+		if (filters.from && filters.to && filters.from >= filters.to) {
+			return res.status(400).json({ message: "from must be before to" });
+		}
+		if (req.query.types) {
+			filters.types = String(req.query.types)
+				.split(",")
+				.map((type) => type.trim())
+				.filter(Boolean);
+		}
+		if (req.query.currency) {
+			const currency = normalizeCurrency(req.query.currency as string);
+			if (!isSupportedCurrency(currency)) {
+				return res.status(400).json({ message: `Unsupported currency: ${currency}` });
+			}
+			filters.currency = currency;
+		}
+
+		const data = await transactionExportService.build(email, filters);
+		if (!data) return res.status(404).json({ message: "User not found" });
+
+		res.setHeader("Content-Type", transactionExportService.contentType(format));
+		res.setHeader("Content-Disposition", `attachment; filename="${transactionExportService.fileName(data, format)}"`);
+		res.send(await transactionExportService.render(data, format));
+	} catch (e) {
+		console.error("Transaction export error:", e);
+		res.status(500).json({ message: "Failed to export transactions" });
+	}
+});
+
+// Update a single transaction by ID. A status change goes through the transaction state machine,
+// which rejects illegal moves and applies the ledger side effects of legal ones.
+router.put("/:id", requireAuth, requireAdmin, async (req: AuthRequest, res) => {
 	const { id } = req.params;
-	const { amount, convertedAmount } = req.body;
+	const { amount, convertedAmount, status, reason } = req.body;
 
 	try {
+		if (status !== undefined) {
+			const transaction = await runInTransaction(async (session) => {
+				const existing = await Transaction.findById(id).session(session);
+				if (!existing) throw new UnitOfWorkError(404, "Transaction not found.");
+				return transactionStateMachine.transition(existing, String(status), {
+					session,
+					actor: { userId: req.user?.userId, email: req.user?.email },
+					reason: reason ? String(reason).slice(0, 500) : undefined,
+				});
+			});
+			return res.send({ message: "Transaction updated successfully.", transaction });
+		}
+
 		if (!amount || !convertedAmount) {
 			return res.status(400).send({ message: "Both amount and convertedAmount are required." });
 		}
@@ -124,6 +287,9 @@ router.put("/:id", requireAuth, requireAdmin, async (req, res) => {
 
 		res.send({ message: "Transaction updated successfully." });
 	} catch (error) {
+		if (error instanceof UnitOfWorkError || error instanceof TransactionStateError) {
+			return res.status(error.status).send({ message: error.message });
+		}
 		res.status(500).send({ message: "Something went wrong while updating the transaction." });
 	}
 });
@@ -13,6 +13,11 @@ import { validate, passwordResetRequestSchema, passwordResetVerifySchema, update
 import { passwordResetLimiter } from "../middleware/rateLimiter";
 import { logAudit } from "../utils/auditLogger";
 import { logActivity } from "../utils/activityLogger";
+import ledgerService, { userAccount, systemAccount, USER_BUCKETS, PostingInput } from "../services/ledgerService";
+import interestAccrualService from "../services/interestAccrualService";
+import metalPriceService from "../services/metalPriceService";
+import metalsService from "../services/metalsService";
+import { runInTransaction } from "../utils/unitOfWork";
 
 const router = express.Router();
 
@@ -254,16 +259,19 @@ router.get("/dashboard/:id", requireAuth, requireSelfOrAdmin, async (req: AuthRe
 		const totalDeposits = depositTransactions.reduce((sum, t) => sum + t.amount, 0);
 		const totalWithdrawals = withdrawalTransactions.reduce((sum, t) => sum + t.amount, 0);
 
-		// Calculate gold ounces (assuming $2000 per ounce)
-		const goldPricePerOunce = 2024.5;
-		const goldOunces = totalInvested / goldPricePerOunce;
+		// Gold ounces at the latest stored spot price; none until the price job has run once
+		const goldPricePerOunce = await metalPriceService.priceOf("gold");
+		const goldOunces = goldPricePerOunce ? totalInvested / goldPricePerOunce : 0;
+		const metalHoldings = await metalsService.holdings(String(user._id));
 
 		const dashboardStats = {
 			totalInvested,
 			totalEarnings: user.interest,
-			dailyEarnings: user.interest * 0.035,
+			dailyEarnings: await interestAccrualService.dailyRate(user._id),
 			activeInvestments: investmentTransactions.filter((t) => t.status === "completed").length,
 			goldOunces: parseFloat(goldOunces.toFixed(3)),
+			goldPricePerOunce,
+			metalHoldingsValue: metalHoldings.totals.value,
 			portfolioValue: totalDeposits + user.interest - totalWithdrawals,
 			recentInvestments: investmentTransactions.slice(0, 5),
 			recentTransactions: userTransactions.slice(0, 10),
@@ -892,16 +900,36 @@ router.put("/admin/:id", requireAuth, requireAdmin, async (req: AuthRequest, res
 		}
 		if (accountStatus) user.accountStatus = accountStatus;
 
-		// Balance adjustments (admin supplied absolute values)
+		// Balance adjustments (admin supplied absolute values). Spendable buckets move through
+		// the ledger against the adjustments account; `withdraw` is a lifetime counter.
 		const numericUpdates: Record<string, any> = { deposit, interest, withdraw, bonus };
+		const adjustmentPostings: PostingInput[] = [];
+		const adjustmentDeltas: Record<string, number> = {};
+		const previousWithdraw = user.withdraw || 0;
 		for (const [key, val] of Object.entries(numericUpdates)) {
 			if (val !== undefined) {
 				const num = Number(val);
 				if (!Number.isFinite(num)) {
 					return res.status(400).json({ message: `Invalid numeric value for ${key}` });
 				}
-				// @ts-ignore
-				user[key] = num;
+				if (key === "withdraw") {
+					user.withdraw = num;
+					continue;
+				}
+				const bucket = key as (typeof USER_BUCKETS)[number];
+				const delta = +(num - (user[bucket] || 0)).toFixed(2);
+				if (delta !== 0) adjustmentDeltas[bucket] = delta;
+				if (delta > 0) {
+					adjustmentPostings.push(
+						{ account: systemAccount("adjustments"), debit: delta },
+						{ account: userAccount(user._id, bucket), credit: delta },
+					);
+				} else if (delta < 0) {
+					adjustmentPostings.push(
+						{ account: userAccount(user._id, bucket), debit: -delta },
+						{ account: systemAccount("adjustments"), credit: -delta },
+					);
+				}
 			}
 		}
 
@@ -911,7 +939,45 @@ router.put("/admin/:id", requireAuth, requireAdmin, async (req: AuthRequest, res
 			user.password = await bcrypt.hash(password.trim(), saltRounds);
 		}
 
-		await user.save();
+		// Profile changes and balance adjustments commit together
+		await runInTransaction(async (session) => {
+			await user.save({ session });
+			if (!adjustmentPostings.length && user.withdraw === previousWithdraw) return;
+
+			// Keep a transaction record so reconciliation can account for the adjustment
+			const [txn] = await Transaction.create(
+				[
+					{
+						type: "admin_adjustment",
+						user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
+						status: "completed",
+						amount: +Object.values(adjustmentDeltas)
+							.reduce((sum, delta) => sum + delta, 0)
+							.toFixed(2),
+						currency: "USD",
+						description: `Admin balance adjustment for ${user.email}`,
+						metadata: {
+							deltas: adjustmentDeltas,
+							withdraw: { from: previousWithdraw, to: user.withdraw },
+							adjustedBy: req.user?.email || "",
+						},
+					},
+				],
+				{ session },
+			);
+			if (adjustmentPostings.length) {
+				await ledgerService.post(
+					{
+						description: `Admin balance adjustment for ${user.email}`,
+						referenceType: "admin_adjustment",
+						transactionIds: [txn._id],
+						postings: adjustmentPostings,
+						actor: { userId: req.user?.userId, email: req.user?.email },
+					},
+					{ session },
+				);
+			}
+		});
 		void logActivity({
 			req,
 			userId: user._id.toString(),
@@ -934,7 +1000,7 @@ router.put("/admin/:id", requireAuth, requireAdmin, async (req: AuthRequest, res
 			actor: { userId: req.user?.userId, email: req.user?.email, isAdmin: req.user?.isAdmin },
 			target: { entityType: "user", entityId: String(user._id), userId: String(user._id), email: user.email },
 			before,
-			after: userSnapshot(user),
+			after: userSnapshot(await User.findById(user._id)),
 			success: true,
 			message: "Admin user update applied",
 		});
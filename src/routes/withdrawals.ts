@@ -1,11 +1,19 @@
 import express, { Request, Response } from "express";
+import mongoose from "mongoose";
 import { Transaction } from "../models/transaction";
 import { User } from "../models/user";
 import { alertAdmin, withdrawRequested, withdrawStatus } from "../utils/mailer";
 import { requireAuth, requireAdmin, requireSelfOrAdmin, AuthRequest } from "../middleware/auth";
 import { validate, withdrawalSchema } from "../middleware/validation";
 import { withdrawalLimiter } from "../middleware/rateLimiter";
+import { idempotency } from "../middleware/idempotency";
 import { logAudit } from "../utils/auditLogger";
+import { InsufficientFundsError } from "../services/ledgerService";
+import holdService from "../services/holdService";
+import feeService from "../services/feeService";
+import planService, { PlanError } from "../services/planService";
+import transactionStateMachine, { TransactionStateError } from "../services/transactionStateMachine";
+import { runInTransaction, UnitOfWorkError } from "../utils/unitOfWork";
 
 const router = express.Router();
 
@@ -160,7 +168,7 @@ router.get("/:id", requireAuth, async (req: AuthRequest, res: Response) => {
 });
 
 // Making a withdrawal with NOWPayments integration
-router.post("/", requireAuth, requireSelfOrAdmin, withdrawalLimiter, validate(withdrawalSchema), async (req: AuthRequest, res: Response) => {
+router.post("/", requireAuth, requireSelfOrAdmin, withdrawalLimiter, validate(withdrawalSchema), idempotency, async (req: AuthRequest, res: Response) => {
 	const { id, amount, convertedAmount, coinName, network, address, autoWithdraw = true } = req.body;
 
 	try {
@@ -180,14 +188,6 @@ router.post("/", requireAuth, requireSelfOrAdmin, withdrawalLimiter, validate(wi
 			});
 		}
 
-		// Check user balance
-		const totalBalance = user.deposit + user.interest;
-		if (amount > totalBalance) {
-			return res.status(400).json({
-				message: "Insufficient balance in your account.",
-			});
-		}
-
 		const userData = {
 			id: user._id,
 			email: user.email,
@@ -201,17 +201,57 @@ router.post("/", requireAuth, requireSelfOrAdmin, withdrawalLimiter, validate(wi
 			address,
 		};
 
-		// Create a new withdrawal instance (manual approval mode)
-		const transaction = new Transaction({
-			type: "withdrawal",
-			user: userData,
-			amount,
-			walletData,
-			status: "pending",
-		});
-
-		// Save transaction for manual approval
-		await transaction.save();
+		// Create the withdrawal (manual approval mode) and reserve the funds until it is approved or rejected
+		let transaction;
+		try {
+			transaction = await runInTransaction(async (session) => {
+				const current = await User.findById(id).session(session);
+				if (!current) throw new UnitOfWorkError(400, "User not found");
+
+				// Per-plan withdrawal limit of the user's active contracts
+				await planService.checkWithdrawal(current._id, Number(amount), session);
+
+				// The withdrawal fee is reserved with the amount and charged when the withdrawal is approved
+				const { fee, total } = await feeService.quote("withdrawal", Number(amount), { user: current });
+				const holdId = new mongoose.Types.ObjectId();
+				const [transaction] = await Transaction.create(
+					[
+						{
+							type: "withdrawal",
+							user: userData,
+							amount,
+							walletData,
+							status: "pending",
+							metadata: { holdId, fee },
+						},
+					],
+					{ session },
+				);
+
+				await holdService.place(
+					{
+						holdId,
+						user: current,
+						transactionId: transaction._id,
+						referenceType: "withdrawal",
+						amount: total,
+						buckets: ["deposit", "interest"],
+						description: `Withdrawal requested by ${current.email}`,
+						actor: { userId: req.user?.userId, email: req.user?.email },
+					},
+					session,
+				);
+				return transaction;
+			});
+		} catch (err) {
+			if (err instanceof InsufficientFundsError) {
+				return res.status(400).json({ message: "Insufficient balance in your account." });
+			}
+			if (err instanceof PlanError) {
+				return res.status(err.status).json({ message: err.message });
+			}
+			throw err;
+		}
 
 		// Send admin alert for manual approval
 		await alertAdmin(user.email, amount, transaction.date, "withdrawal");
@@ -228,54 +268,39 @@ router.post("/", requireAuth, requireSelfOrAdmin, withdrawalLimiter, validate(wi
 	}
 });
 
-// Update withdrawal status and sync with NOWPayments (admin only)
+// Update withdrawal status (admin only). Legal moves and their ledger effects live in the transaction state machine.
 router.put("/:id", requireAuth, requireAdmin, async (req: AuthRequest, res: Response) => {
 	const { id } = req.params;
-	const { status } = req.body;
-	if (!["approved", "rejected", "processing", "pending"].includes(String(status))) {
-		return res.status(400).json({ message: "Invalid status" });
-	}
+	const status = String(req.body?.status || "");
 
 	try {
-		let withdrawal = await Transaction.findById(id);
-		if (!withdrawal) return res.status(404).json({ message: "Withdrawal not found" });
-		const before = {
-			status: withdrawal.status,
-			amount: withdrawal.amount,
-			userEmail: withdrawal.user?.email || "",
-		};
-
-		const userEmail = withdrawal.user?.email;
-		let user = await User.findOne({ email: userEmail });
-		if (!user) return res.status(400).json({ message: "User not found..." });
-		if (user.isAdmin || user.role === "admin") {
-			return res.status(403).json({ message: "Admin account balance mutation is restricted" });
-		}
-		const amount = Number(withdrawal.amount) || 0;
-
-		const previousStatus = withdrawal.status;
-		withdrawal.status = status;
-
-		// If approving a manual withdrawal
-		if (status === "approved" && previousStatus === "pending") {
-			const totalBalance = user.deposit + user.interest;
-			if (amount > totalBalance) {
-				return res.status(400).json({ message: "Insufficient user balance." });
+		const { withdrawal, user, before } = await runInTransaction(async (session) => {
+			const withdrawal = await Transaction.findById(id).session(session);
+			if (!withdrawal || withdrawal.type !== "withdrawal") throw new UnitOfWorkError(404, "Withdrawal not found");
+			const before = {
+				status: withdrawal.status,
+				amount: withdrawal.amount,
+				userEmail: withdrawal.user?.email || "",
+			};
+
+			const userEmail = withdrawal.user?.email;
+			const owner = await User.findOne({ email: userEmail }).session(session);
+			if (!owner) throw new UnitOfWorkError(400, "User not found...");
+			if (owner.isAdmin || owner.role === "admin") {
+				throw new UnitOfWorkError(403, "Admin account balance mutation is restricted");
 			}
 
-			// Deduct from user balance
-			if (user.deposit >= amount) {
-				user.deposit -= amount;
-			} else {
-				const remaining = amount - user.deposit;
-				user.deposit = 0;
-				user.interest -= remaining;
-			}
-			user.withdraw += amount;
-		}
+			await transactionStateMachine.transition(withdrawal, status, {
+				session,
+				actor: { userId: req.user?.userId, email: req.user?.email },
+				reason: status === "rejected" ? "Withdrawal rejected" : undefined,
+			});
 
-		await user.save();
-		await withdrawal.save();
+			const user = await User.findById(owner._id).session(session);
+			if (!user) throw new UnitOfWorkError(400, "User not found...");
+			return { withdrawal, user, before };
+		});
+		const amount = Number(withdrawal.amount) || 0;
 
 		// Send confirmation email
 		if (status === "approved" || status === "processing") {
@@ -303,6 +328,9 @@ router.put("/:id", requireAuth, requireAdmin, async (req: AuthRequest, res: Resp
 
 		res.json({ message: "Withdrawal successfully updated" });
 	} catch (e: any) {
+		if (e instanceof UnitOfWorkError || e instanceof TransactionStateError) {
+			return res.status(e.status).json({ message: e.message });
+		}
 		console.error("Error updating withdrawal:", e);
 		res.status(500).json({ message: "Something went wrong" });
 	}
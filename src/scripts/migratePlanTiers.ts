@@ -0,0 +1,106 @@
+/**
+ * Plan Tier Migration Script
+ *
+ * Fills the tier fields of plans created before the tier model from their legacy fields:
+ * minContract from minAmount, planDuration from the duration string (months count 30 days, years
+ * 365) and dailyReturn from roi spread over that many days. The tier defaults to the plan name.
+ * No maximum and no withdrawal limit are set; admins add those per plan afterwards. Saving derives
+ * roi, minAmount and duration again, so "6 months" becomes "180 days". Plans that already have
+ * their tier fields are left untouched, so the script is safe to re-run.
+ *
+ * Runs as a dry run unless --apply is passed.
+ *
+ * Usage:
+ * ts-node src/scripts/migratePlanTiers.ts [--apply]
+ */
+
+import dotenv from "dotenv";
+dotenv.config();
+
+import mongoose from "mongoose";
+import { Plan } from "../models/plan";
+import { parseDuration } from "../services/contractMaturityService";
+
+const UNIT_DAYS = { day: 1, week: 7, month: 30, year: 365 };
+
+// Tier fields for one legacy plan, or null when it already has them
+function tierFieldsFor(raw: any) {
+  if (raw.tier && raw.minContract !== undefined && raw.dailyReturn !== undefined && raw.planDuration) return null;
+
+  const duration = parseDuration(raw.duration);
+  if (!duration) throw new Error(`Unparseable duration "${raw.duration}"`);
+  const planDuration = raw.planDuration || duration.count * UNIT_DAYS[duration.unit];
+
+  return {
+    tier: raw.tier || String(raw.name || "standard").trim().toLowerCase(),
+    minContract: raw.minContract ?? raw.minAmount ?? 0,
+    dailyReturn: raw.dailyReturn ?? Math.round(((raw.roi || 0) / planDuration) * 10000) / 10000,
+    planDuration,
+  };
+}
+
+async function migratePlanTiers() {
+  const apply = process.argv.includes("--apply");
+
+  try {
+    const mongoUri = process.env.MONGODB_URI;
+    if (!mongoUri) {
+      throw new Error("MONGODB_URI not found in environment variables");
+    }
+
+    console.log("Connecting to MongoDB...");
+    await mongoose.connect(mongoUri);
+    console.log(`Connected to MongoDB successfully!${apply ? "" : " (dry run, pass --apply to write)"}\n`);
+
+    let migratedCount = 0;
+    let upToDateCount = 0;
+    let errorCount = 0;
+
+    const plans = await Plan.find({});
+    for (const plan of plans) {
+      try {
+        const fields = tierFieldsFor(plan.toObject());
+        if (!fields) {
+          upToDateCount++;
+          continue;
+        }
+
+        const before = { roi: plan.roi, duration: plan.duration };
+        plan.set(fields);
+        if (apply) {
+          await plan.save();
+        } else {
+          const error = plan.validateSync();
+          if (error) throw error;
+        }
+        console.log(
+          `✓ ${apply ? "Migrated" : "Would migrate"} "${plan.name}": ${fields.dailyReturn}%/day for ${fields.planDuration} days` +
+            ` (was ${before.roi}% over ${before.duration})`,
+        );
+        migratedCount++;
+      } catch (error: any) {
+        console.error(`✗ Failed to migrate plan "${plan.name}" (${plan._id}):`, error.message);
+        errorCount++;
+      }
+    }
+
+    console.log("\n" + "=".repeat(50));
+    console.log(`Plan Tier Migration ${apply ? "Complete" : "Dry Run"}!`);
+    console.log("=".repeat(50));
+    console.log(`✓ ${apply ? "Migrated" : "To migrate"}: ${migratedCount} plans`);
+    console.log(`- Already migrated: ${upToDateCount} plans`);
+    console.log(`✗ Failed: ${errorCount} plans`);
+    console.log("=".repeat(50) + "\n");
+
+    await mongoose.disconnect();
+    console.log("Disconnected from MongoDB");
+
+    process.exit(errorCount ? 2 : 0);
+  } catch (error: any) {
+    console.error("\n❌ Error migrating plans:", error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+migratePlanTiers();
@@ -0,0 +1,148 @@
+/**
+ * Transaction Discriminator Migration Script
+ *
+ * Converts transactions written while `metadata` was free-form to the per-type discriminator
+ * schemas: metadata values are cast to their declared types, metadata keys a type does not declare
+ * move to `legacyMetadata`, and walletData/planData/payout fields are removed from types that do
+ * not own them (non-empty values are kept in `legacyMetadata` as well). Documents that are already
+ * converted are left untouched, so the script is safe to re-run.
+ *
+ * Runs as a dry run unless --apply is passed.
+ *
+ * Usage:
+ * ts-node src/scripts/migrateTransactionDiscriminators.ts [--apply]
+ */
+
+import dotenv from "dotenv";
+dotenv.config();
+
+import { isDeepStrictEqual } from "util";
+import mongoose from "mongoose";
+import { Transaction, TransactionTypes, TYPE_METADATA } from "../models/transaction";
+import { LEGACY_TRANSACTION_TYPES, TRANSACTION_TYPES, TransactionType } from "../types/transaction.types";
+
+// Top-level fields and the types that own them
+const OWNED_FIELDS: Record<string, TransactionType[]> = {
+  walletData: ["deposit", "withdrawal"],
+  planData: ["contract"],
+  payoutProvider: ["withdrawal"],
+  nowPaymentsId: ["withdrawal"],
+  nowPaymentsTxHash: ["withdrawal"],
+  autoProcessed: ["withdrawal"],
+  payoutError: ["withdrawal"],
+  payoutAttempts: ["withdrawal"],
+  lastAttemptAt: ["withdrawal"],
+};
+
+const isEmpty = (value: any): boolean => {
+  if (value === null || value === undefined || value === "" || value === 0 || value === false) return true;
+  if (typeof value === "object" && !(value instanceof Date) && !mongoose.isValidObjectId(value)) {
+    return Object.values(value).every(isEmpty);
+  }
+  return false;
+};
+
+// The update that converts one raw document, or null when it is already converted
+function conversionFor(raw: any, type: TransactionType) {
+  const declared = new Set<string>(["rejectionReason", ...TYPE_METADATA[type]]);
+  const metadata = raw.metadata && typeof raw.metadata === "object" ? raw.metadata : {};
+  const legacy: Record<string, any> = { ...(raw.legacyMetadata || {}) };
+  const unset: Record<string, ""> = {};
+
+  for (const [key, value] of Object.entries(metadata)) {
+    if (!declared.has(key)) legacy[key] = value;
+  }
+  for (const [field, owners] of Object.entries(OWNED_FIELDS)) {
+    if (!(field in raw) || owners.includes(type)) continue;
+    if (!isEmpty(raw[field])) legacy[field] = raw[field];
+    unset[field] = "";
+  }
+
+  // Cast through the discriminator so the stored metadata is exactly what the schema produces
+  const doc = new TransactionTypes[type](raw);
+  const error = doc.validateSync(["metadata"]);
+  if (error) throw error;
+  const cast = doc.toObject({ minimize: false }).metadata;
+
+  const set: Record<string, any> = {};
+  if (!isDeepStrictEqual(cast, raw.metadata)) set.metadata = cast;
+  if (Object.keys(legacy).length && !isDeepStrictEqual(legacy, raw.legacyMetadata)) set.legacyMetadata = legacy;
+
+  if (!Object.keys(set).length && !Object.keys(unset).length) return null;
+  const update: Record<string, any> = {};
+  if (Object.keys(set).length) update.$set = set;
+  if (Object.keys(unset).length) update.$unset = unset;
+  return update;
+}
+
+async function migrateTransactionDiscriminators() {
+  const apply = process.argv.includes("--apply");
+
+  try {
+    const mongoUri = process.env.MONGODB_URI;
+    if (!mongoUri) {
+      throw new Error("MONGODB_URI not found in environment variables");
+    }
+
+    console.log("Connecting to MongoDB...");
+    await mongoose.connect(mongoUri);
+    console.log(`Connected to MongoDB successfully!${apply ? "" : " (dry run, pass --apply to write)"}\n`);
+
+    let convertedCount = 0;
+    let upToDateCount = 0;
+    let legacyCount = 0;
+    let errorCount = 0;
+    const unknownTypes: Record<string, number> = {};
+
+    // Raw documents: hydrating through the model would already hide what needs converting
+    const cursor = Transaction.collection.find({});
+    for await (const raw of cursor) {
+      const type = String(raw.type);
+      if ((LEGACY_TRANSACTION_TYPES as readonly string[]).includes(type)) {
+        legacyCount++;
+        continue;
+      }
+      if (!(TRANSACTION_TYPES as readonly string[]).includes(type)) {
+        unknownTypes[type] = (unknownTypes[type] || 0) + 1;
+        continue;
+      }
+
+      try {
+        const update = conversionFor(raw, type as TransactionType);
+        if (!update) {
+          upToDateCount++;
+          continue;
+        }
+        if (apply) await Transaction.collection.updateOne({ _id: raw._id }, update);
+        console.log(`✓ ${apply ? "Converted" : "Would convert"} ${type} ${raw._id}`);
+        convertedCount++;
+      } catch (error: any) {
+        console.error(`✗ Failed to convert ${type} ${raw._id}:`, error.message);
+        errorCount++;
+      }
+    }
+
+    console.log("\n" + "=".repeat(50));
+    console.log(`Transaction Discriminator Migration ${apply ? "Complete" : "Dry Run"}!`);
+    console.log("=".repeat(50));
+    console.log(`✓ ${apply ? "Converted" : "To convert"}: ${convertedCount} transactions`);
+    console.log(`- Already converted: ${upToDateCount} transactions`);
+    console.log(`- Legacy types left as-is: ${legacyCount} transactions`);
+    for (const [type, count] of Object.entries(unknownTypes)) {
+      console.log(`? Unknown type "${type}": ${count} transactions`);
+    }
+    console.log(`✗ Failed: ${errorCount} transactions`);
+    console.log("=".repeat(50) + "\n");
+
+    await mongoose.disconnect();
+    console.log("Disconnected from MongoDB");
+
+    process.exit(errorCount || Object.keys(unknownTypes).length ? 2 : 0);
+  } catch (error: any) {
+    console.error("\n❌ Error migrating transactions:", error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+migrateTransactionDiscriminators();
@@ -0,0 +1,97 @@
+/**
+ * Ledger Opening Balances Script
+ *
+ * Posts an opening-balance journal entry for every user whose deposit/interest/bonus
+ * fields predate the ledger, so that posting-derived balances match the user documents.
+ * Users that already have postings are skipped, which makes the script safe to re-run.
+ *
+ * Usage:
+ * ts-node src/scripts/openLedgerBalances.ts
+ */
+
+import dotenv from "dotenv";
+dotenv.config();
+
+import mongoose from "mongoose";
+import { User } from "../models/user";
+import { JournalEntry } from "../models/ledger";
+import ledgerService, { userAccount, systemAccount, USER_BUCKETS, PostingInput } from "../services/ledgerService";
+
+async function openLedgerBalances() {
+  try {
+    const mongoUri = process.env.MONGODB_URI;
+    if (!mongoUri) {
+      throw new Error("MONGODB_URI not found in environment variables");
+    }
+
+    console.log("Connecting to MongoDB...");
+    await mongoose.connect(mongoUri);
+    console.log("Connected to MongoDB successfully!");
+
+    const users = await User.find({}).select("email deposit interest bonus");
+    console.log(`Found ${users.length} users\n`);
+
+    let openedCount = 0;
+    let skippedCount = 0;
+    let errorCount = 0;
+
+    for (const user of users) {
+      try {
+        const hasPostings = await JournalEntry.exists({ "postings.userId": user._id });
+        if (hasPostings) {
+          skippedCount++;
+          continue;
+        }
+
+        const postings: PostingInput[] = [];
+        for (const bucket of USER_BUCKETS) {
+          const amount = Number(user[bucket]) || 0;
+          if (amount <= 0) continue;
+          postings.push(
+            { account: systemAccount("opening_equity"), debit: amount },
+            { account: userAccount(user._id, bucket), credit: amount },
+          );
+        }
+
+        if (!postings.length) {
+          skippedCount++;
+          continue;
+        }
+
+        await ledgerService.post(
+          {
+            description: `Opening balance for ${user.email}`,
+            referenceType: "opening_balance",
+            postings,
+          },
+          { project: false },
+        );
+
+        console.log(`✓ Opened ledger for ${user.email}`);
+        openedCount++;
+      } catch (error: any) {
+        console.error(`✗ Failed to open ledger for ${user.email}:`, error.message);
+        errorCount++;
+      }
+    }
+
+    console.log("\n" + "=".repeat(50));
+    console.log("Ledger Opening Balances Complete!");
+    console.log("=".repeat(50));
+    console.log(`✓ Opened: ${openedCount} users`);
+    console.log(`- Skipped: ${skippedCount} users`);
+    console.log(`✗ Failed: ${errorCount} users`);
+    console.log("=".repeat(50) + "\n");
+
+    await mongoose.disconnect();
+    console.log("Disconnected from MongoDB");
+
+    process.exit(0);
+  } catch (error: any) {
+    console.error("\n❌ Error opening ledger balances:", error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+openLedgerBalances();
@@ -0,0 +1,62 @@
+/**
+ * Balance Reconciliation Script
+ *
+ * Replays every user's transactions, compares the result with the deposit/interest/bonus/withdraw
+ * balances stored on the user and saves a report (readable at GET /api/admin/reconciliation).
+ * Exits with code 2 when drift was found so it can gate cron or CI runs.
+ *
+ * Usage:
+ * ts-node src/scripts/reconcileBalances.ts
+ */
+
+import dotenv from "dotenv";
+dotenv.config();
+
+import mongoose from "mongoose";
+import reconciliationService from "../services/reconciliationService";
+
+async function reconcileBalances() {
+  try {
+    const mongoUri = process.env.MONGODB_URI;
+    if (!mongoUri) {
+      throw new Error("MONGODB_URI not found in environment variables");
+    }
+
+    console.log("Connecting to MongoDB...");
+    await mongoose.connect(mongoUri);
+    console.log("Connected to MongoDB successfully!\n");
+
+    const report = await reconciliationService.run({ trigger: "script" });
+    if (report.status === "failed") {
+      throw new Error(report.error || "Reconciliation failed");
+    }
+
+    for (const mismatch of report.mismatches) {
+      console.log(
+        `✗ ${mismatch.email} ${mismatch.currency} ${mismatch.field}: expected ${mismatch.expected.toFixed(2)}, ` +
+          `actual ${mismatch.actual.toFixed(2)} (${mismatch.difference > 0 ? "+" : ""}${mismatch.difference.toFixed(2)})`,
+      );
+    }
+
+    console.log("\n" + "=".repeat(50));
+    console.log("Balance Reconciliation Complete!");
+    console.log("=".repeat(50));
+    console.log(`Report: ${report._id}`);
+    console.log(`✓ Users checked: ${report.usersChecked}`);
+    console.log(`- Transactions replayed: ${report.transactionsReplayed}`);
+    console.log(`✗ Users with drift: ${report.usersWithDrift}`);
+    console.log(`✗ Mismatched balances: ${report.mismatches.length}`);
+    console.log("=".repeat(50) + "\n");
+
+    await mongoose.disconnect();
+    console.log("Disconnected from MongoDB");
+
+    process.exit(report.usersWithDrift > 0 ? 2 : 0);
+  } catch (error: any) {
+    console.error("\n❌ Error reconciling balances:", error);
+    process.exit(1);
+  }
+}
+
+// Run the script
+reconcileBalances();
@@ -0,0 +1,139 @@
+import mongoose, { ClientSession } from "mongoose";
+import { Beneficiary, IBeneficiary, IBeneficiaryBankDetails } from "../models/beneficiary";
+import { isSupportedCurrency, normalizeCurrency } from "./ledgerService";
+import { normalizeIban } from "../utils/bankValidation";
+
+export class BeneficiaryError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "BeneficiaryError";
+		this.status = status;
+	}
+}
+
+export interface BeneficiaryInput {
+	nickname?: string;
+	name?: string;
+	currency?: string;
+	bankDetails?: Partial<IBeneficiaryBankDetails>;
+}
+
+// New or edited bank details can only receive funds after this many hours
+const COOLING_OFF_MS = () => Number(process.env.BENEFICIARY_COOLING_OFF_HOURS ?? 24) * 60 * 60 * 1000;
+
+const normalizeBankDetails = (details: Partial<IBeneficiaryBankDetails> = {}): IBeneficiaryBankDetails => ({
+	bankName: String(details.bankName || "").trim(),
+	accountNumber: details.iban ? "" : String(details.accountNumber || "").trim(),
+	routingNumber: details.iban ? "" : String(details.routingNumber || "").trim(),
+	iban: normalizeIban(details.iban || ""),
+	swift: String(details.swift || "").trim().toUpperCase(),
+	country: String(details.country || "").trim().toUpperCase(),
+	bankAddress: String(details.bankAddress || "").trim(),
+});
+
+const sameAccount = (a: IBeneficiaryBankDetails, b: IBeneficiaryBankDetails) =>
+	a.iban ? a.iban === b.iban : a.accountNumber === b.accountNumber && a.routingNumber === b.routingNumber;
+
+const isDuplicateKey = (error: any) => error?.code === 11000;
+
+class BeneficiaryService {
+	/**
+	 * Add a beneficiary to a user's address book. Bank fields are validated by the route schema;
+	 * the same account can only be saved once per user.
+	 */
+	async create(userId: string, input: BeneficiaryInput, now = new Date()) {
+		const currency = this.parseCurrency(input.currency);
+		const bankDetails = normalizeBankDetails(input.bankDetails);
+		await this.assertNotSaved(userId, bankDetails);
+
+		try {
+			return await Beneficiary.create({
+				userId,
+				nickname: input.nickname,
+				name: input.name,
+				currency,
+				bankDetails,
+				availableAt: new Date(now.getTime() + COOLING_OFF_MS()),
+			});
+		} catch (error) {
+			if (isDuplicateKey(error)) throw new BeneficiaryError(409, "A beneficiary with this nickname already exists");
+			throw error;
+		}
+	}
+
+	/**
+	 * Changing the bank details restarts the cooling-off period; renaming does not.
+	 */
+	async update(beneficiary: IBeneficiary, input: BeneficiaryInput, now = new Date()) {
+		if (input.nickname !== undefined) beneficiary.nickname = input.nickname;
+		if (input.name !== undefined) beneficiary.name = input.name;
+		if (input.currency !== undefined) beneficiary.currency = this.parseCurrency(input.currency);
+
+		if (input.bankDetails) {
+			const bankDetails = normalizeBankDetails(input.bankDetails);
+			if (!sameAccount(bankDetails, beneficiary.bankDetails)) {
+				await this.assertNotSaved(String(beneficiary.userId), bankDetails, String(beneficiary._id));
+				beneficiary.availableAt = new Date(now.getTime() + COOLING_OFF_MS());
+			}
+			beneficiary.bankDetails = bankDetails;
+		}
+
+		try {
+			return await beneficiary.save();
+		} catch (error) {
+			if (isDuplicateKey(error)) throw new BeneficiaryError(409, "A beneficiary with this nickname already exists");
+			throw error;
+		}
+	}
+
+	/**
+	 * Saved beneficiary that `userId` may send `currency` to right now
+	 */
+	async resolveForTransfer(
+		userId: string,
+		beneficiaryId: string,
+		currency: string,
+		session?: ClientSession,
+		now = new Date(),
+	) {
+		if (!mongoose.isValidObjectId(beneficiaryId)) throw new BeneficiaryError(400, "Invalid beneficiary id");
+		const beneficiary = await Beneficiary.findOne({ _id: beneficiaryId, userId }).session(session || null);
+		if (!beneficiary) throw new BeneficiaryError(404, "Beneficiary not found");
+		if (normalizeCurrency(beneficiary.currency) !== normalizeCurrency(currency)) {
+			throw new BeneficiaryError(
+				400,
+				`Beneficiary "${beneficiary.nickname}" receives ${beneficiary.currency}, not ${normalizeCurrency(currency)}`,
+			);
+		}
+		if (beneficiary.availableAt > now) {
+			throw new BeneficiaryError(
+				403,
+				`Beneficiary "${beneficiary.nickname}" can receive funds from ${beneficiary.availableAt.toISOString()}`,
+			);
+		}
+		return beneficiary;
+	}
+
+	private parseCurrency(value?: string) {
+		const currency = normalizeCurrency(value);
+		if (!isSupportedCurrency(currency)) throw new BeneficiaryError(400, `Unsupported currency: ${currency}`);
+		return currency;
+	}
+
+	private async assertNotSaved(userId: string, bankDetails: IBeneficiaryBankDetails, exceptId?: string) {
+		const query: Record<string, unknown> = bankDetails.iban
+			? { userId, "bankDetails.iban": bankDetails.iban }
+			: {
+					userId,
+					"bankDetails.accountNumber": bankDetails.accountNumber,
+					"bankDetails.routingNumber": bankDetails.routingNumber,
+				};
+		if (exceptId) query._id = { $ne: exceptId };
+		const existing = await Beneficiary.findOne(query).select("nickname");
+		if (existing) throw new BeneficiaryError(409, `This account is already saved as "${existing.nickname}"`);
+	}
+}
+
+export default new BeneficiaryService();
@@ -0,0 +1,444 @@
+import crypto from "crypto";
+import mongoose, { ClientSession } from "mongoose";
+import { Card, ICard } from "../models/card";
+import { User } from "../models/user";
+import { Transaction } from "../models/transaction";
+import {
+	CardAuthorization,
+	CardAuthorizationStatus,
+	CardDeclineReason,
+	ICardAuthorization,
+} from "../models/cardAuthorization";
+import ledgerService, { PostingInput, normalizeCurrency, systemAccount, userAccount } from "./ledgerService";
+import { runInTransaction } from "../utils/unitOfWork";
+
+export class CardAuthorizationError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "CardAuthorizationError";
+		this.status = status;
+	}
+}
+
+export interface AuthorizationRequest {
+	// The simulator names the card by id; a processor sends the card details
+	cardId?: string;
+	cardNumber?: string;
+	expiryMonth?: string;
+	expiryYear?: string;
+	cvv?: string;
+	amount: number;
+	currency?: string;
+	merchant: { name: string; category?: string; country?: string };
+	reference: string;
+}
+
+export interface AdjustmentRequest {
+	// Defaults to everything still open (capture, reversal) or captured and not yet refunded (refund)
+	amount?: number;
+	reference?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Open authorizations are reversed after this long without a capture
+const AUTHORIZATION_TTL_MS = () => (Number(process.env.CARD_AUTHORIZATION_EXPIRY_DAYS) || 7) * DAY_MS;
+
+// Authorizations that count against the card's limits; the amount counted excludes what was reversed
+const LIMIT_STATUSES: CardAuthorizationStatus[] = ["authorized", "captured", "refunded"];
+
+const newAuthorizationCode = () => crypto.randomBytes(3).toString("hex").toUpperCase();
+const last4 = (card: ICard) => card.cardNumber.slice(-4);
+
+// Limits of 0 mean no limit, as with plan withdrawal limits
+const window = (limit: number, used: number) => ({
+	limit,
+	used: round(used),
+	remaining: limit > 0 ? Math.max(0, round(limit - used)) : null,
+});
+
+class CardAuthorizationService {
+	/**
+	 * What the card has spent against its rolling daily (24 hours) and monthly (30 days) limits
+	 */
+	async usage(card: ICard, now = new Date(), session?: ClientSession) {
+		const daySince = new Date(now.getTime() - DAY_MS);
+		const [row] = await CardAuthorization.aggregate([
+			{
+				$match: {
+					cardId: card._id,
+					status: { $in: LIMIT_STATUSES },
+					createdAt: { $gte: new Date(now.getTime() - 30 * DAY_MS) },
+				},
+			},
+			{ $project: { createdAt: 1, counted: { $subtract: ["$amount", "$reversedAmount"] } } },
+			{
+				$group: {
+					_id: null,
+					monthly: { $sum: "$counted" },
+					daily: { $sum: { $cond: [{ $gte: ["$createdAt", daySince] }, "$counted", 0] } },
+				},
+			},
+		]).session(session || null);
+
+		return {
+			transactionLimit: card.spendingLimit,
+			daily: window(card.dailyLimit, row?.daily || 0),
+			monthly: window(card.monthlyLimit, row?.monthly || 0),
+		};
+	}
+
+	private async declineReason(
+		card: ICard,
+		input: AuthorizationRequest,
+		amount: number,
+		currency: string,
+		now: Date,
+		session: ClientSession,
+	): Promise<CardDeclineReason | null> {
+		if (card.expiresAt <= now) return "card_expired";
+		if (card.status !== "active") return "card_not_active";
+		if (input.expiryMonth !== undefined && String(input.expiryMonth).padStart(2, "0") !== card.expiryMonth) {
+			return "invalid_card_details";
+		}
+		if (input.expiryYear !== undefined && String(input.expiryYear).slice(-2) !== card.expiryYear) return "invalid_card_details";
+		if (input.cvv !== undefined && String(input.cvv) !== card.cvv) return "invalid_card_details";
+		if (currency !== normalizeCurrency(card.currency)) return "currency_mismatch";
+		if (card.spendingLimit > 0 && amount > card.spendingLimit) return "exceeds_transaction_limit";
+
+		const usage = await this.usage(card, now, session);
+		if (usage.daily.remaining !== null && amount > usage.daily.remaining) return "exceeds_daily_limit";
+		if (usage.monthly.remaining !== null && amount > usage.monthly.remaining) return "exceeds_monthly_limit";
+		if (amount > card.balance) return "insufficient_funds";
+		return null;
+	}
+
+	private result(authorization: ICardAuthorization, card?: ICard | null) {
+		return {
+			approved: authorization.status !== "declined",
+			authorization,
+			availableBalance: card ? card.balance : undefined,
+		};
+	}
+
+	/**
+	 * Answer an authorization request. Approved amounts come off the card balance straight away and
+	 * sit in card_authorizations until captured or reversed; declines are recorded with their reason.
+	 * A repeated request (same reference) gets the original answer.
+	 */
+	async authorize(input: AuthorizationRequest, now = new Date()) {
+		const amount = round(Number(input.amount));
+		const reference = String(input.reference || "").trim();
+		if (!(amount > 0)) throw new CardAuthorizationError(400, "Amount must be positive");
+		if (!reference) throw new CardAuthorizationError(400, "reference is required");
+		if (!input.merchant?.name) throw new CardAuthorizationError(400, "merchant.name is required");
+		if (input.cardId && !mongoose.isValidObjectId(input.cardId)) throw new CardAuthorizationError(400, "Invalid card id");
+		if (!input.cardId && !input.cardNumber) throw new CardAuthorizationError(400, "cardId or cardNumber is required");
+
+		const existing = await CardAuthorization.findOne({ reference });
+		if (existing) return this.result(existing, await Card.findById(existing.cardId));
+
+		try {
+			return await runInTransaction(async (session) => {
+				const filter = input.cardId ? { _id: input.cardId } : { cardNumber: String(input.cardNumber).replace(/\s/g, "") };
+				const card = await Card.findOne(filter).select("+cvv").session(session);
+				if (!card) throw new CardAuthorizationError(404, "Card not found");
+
+				const currency = normalizeCurrency(input.currency || card.currency);
+				const base = {
+					cardId: card._id,
+					userId: card.userId,
+					reference,
+					merchant: {
+						name: input.merchant.name,
+						category: input.merchant.category || "",
+						country: input.merchant.country || "",
+					},
+					amount,
+					currency,
+				};
+
+				const reason = await this.declineReason(card, input, amount, currency, now, session);
+				if (reason) {
+					if (reason === "card_expired" && card.status === "active") {
+						card.status = "expired";
+						await card.save({ session });
+					}
+					const [declined] = await CardAuthorization.create(
+						[{ ...base, status: "declined", declineReason: reason, events: [{ type: "decline", amount, reference, at: now }] }],
+						{ session },
+					);
+					return this.result(declined, card);
+				}
+
+				const [authorization] = await CardAuthorization.create(
+					[
+						{
+							...base,
+							status: "authorized",
+							authorizationCode: newAuthorizationCode(),
+							expiresAt: new Date(now.getTime() + AUTHORIZATION_TTL_MS()),
+							events: [{ type: "authorization", amount, reference, at: now }],
+						},
+					],
+					{ session },
+				);
+				card.balance = round(card.balance - amount);
+				card.lastUsed = now;
+				await card.save({ session });
+
+				await ledgerService.post(
+					{
+						description: `Card authorization - **** ${last4(card)} at ${base.merchant.name}`,
+						referenceType: "card_authorization",
+						transactionIds: [authorization._id as mongoose.Types.ObjectId],
+						postings: [
+							{ account: systemAccount("card_float", currency), debit: amount },
+							{ account: systemAccount("card_authorizations", currency), credit: amount },
+						],
+					},
+					{ session },
+				);
+				return this.result(authorization, card);
+			});
+		} catch (error: any) {
+			// The same request raced in on another connection; answer with the one that won
+			if (error?.code === 11000) {
+				const winner = await CardAuthorization.findOne({ reference });
+				if (winner) return this.result(winner, await Card.findById(winner.cardId));
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Load an authorization and its card in a unit of work and apply one processor message to them.
+	 * A message whose reference was already applied returns the current state unchanged.
+	 */
+	private async apply(
+		id: string,
+		type: "capture" | "reversal" | "refund" | "expiry",
+		reference: string | undefined,
+		change: (authorization: ICardAuthorization, card: ICard, session: ClientSession) => Promise<number>,
+		now = new Date(),
+	) {
+		if (!mongoose.isValidObjectId(id)) throw new CardAuthorizationError(400, "Invalid authorization id");
+
+		return runInTransaction(async (session) => {
+			const authorization = await CardAuthorization.findById(id).session(session);
+			if (!authorization) throw new CardAuthorizationError(404, "Authorization not found");
+			const card = await Card.findById(authorization.cardId).session(session);
+			if (!card) throw new CardAuthorizationError(404, "Card not found");
+			if (reference && authorization.events.some((event) => event.type === type && event.reference === reference)) {
+				return this.result(authorization, card);
+			}
+
+			const amount = await change(authorization, card, session);
+			authorization.events.push({ type, amount, reference: reference || "", at: now });
+			await authorization.save({ session });
+			await card.save({ session });
+			return this.result(authorization, card);
+		});
+	}
+
+	private amountOf(requested: number | undefined, available: number, action: string) {
+		const amount = requested === undefined ? available : round(Number(requested));
+		if (!(amount > 0) || amount > available) {
+			throw new CardAuthorizationError(400, `${action} amount must be more than 0 and at most ${available}`);
+		}
+		return amount;
+	}
+
+	// Entries touching a user balance also carry the Transaction that records it, first
+	private post(
+		card: ICard,
+		description: string,
+		authorization: ICardAuthorization,
+		postings: PostingInput[],
+		session: ClientSession,
+		transaction?: { _id: unknown; type: string },
+	) {
+		const authorizationId = authorization._id as mongoose.Types.ObjectId;
+		return ledgerService.post(
+			{
+				description: `${description} - **** ${last4(card)} at ${authorization.merchant.name}`,
+				referenceType: transaction ? transaction.type : "card_authorization",
+				transactionIds: transaction ? [transaction._id as mongoose.Types.ObjectId, authorizationId] : [authorizationId],
+				postings,
+			},
+			{ session },
+		);
+	}
+
+	/**
+	 * Settle an authorization. Capturing less than was authorized returns the rest to the card;
+	 * an authorization is captured once.
+	 */
+	async capture(id: string, input: AdjustmentRequest = {}) {
+		return this.apply(id, "capture", input.reference, async (authorization, card, session) => {
+			if (authorization.status !== "authorized") {
+				throw new CardAuthorizationError(409, `Only authorized payments can be captured; this one is ${authorization.status}`);
+			}
+			const open = round(authorization.amount - authorization.reversedAmount);
+			const amount = this.amountOf(input.amount, open, "Capture");
+			const released = round(open - amount);
+			const currency = authorization.currency;
+
+			const postings: PostingInput[] = [
+				{ account: systemAccount("card_authorizations", currency), debit: open },
+				{ account: systemAccount("card_settlement", currency), credit: amount },
+			];
+			if (released > 0) postings.push({ account: systemAccount("card_float", currency), credit: released });
+			await this.post(card, "Card capture", authorization, postings, session);
+
+			authorization.capturedAmount = amount;
+			authorization.reversedAmount = round(authorization.reversedAmount + released);
+			authorization.status = "captured";
+			card.balance = round(card.balance + released);
+			card.totalSpent = round(card.totalSpent + amount);
+			return amount;
+		});
+	}
+
+	/**
+	 * Give back all or part of an authorization that has not been captured
+	 */
+	async reverse(id: string, input: AdjustmentRequest = {}, type: "reversal" | "expiry" = "reversal") {
+		return this.apply(id, type, input.reference, async (authorization, card, session) => {
+			if (authorization.status !== "authorized") {
+				throw new CardAuthorizationError(409, `Only authorized payments can be reversed; this one is ${authorization.status}`);
+			}
+			const open = round(authorization.amount - authorization.reversedAmount);
+			const amount = this.amountOf(input.amount, open, "Reversal");
+			const currency = authorization.currency;
+
+			await this.post(
+				card,
+				type === "expiry" ? "Card authorization expired" : "Card reversal",
+				authorization,
+				[
+					{ account: systemAccount("card_authorizations", currency), debit: amount },
+					{ account: systemAccount("card_float", currency), credit: amount },
+				],
+				session,
+			);
+
+			authorization.reversedAmount = round(authorization.reversedAmount + amount);
+			if (authorization.reversedAmount >= authorization.amount) authorization.status = "reversed";
+			card.balance = round(card.balance + amount);
+			return amount;
+		});
+	}
+
+	/**
+	 * Return all or part of a captured payment. Refunds land on the card, or in the user's deposit
+	 * balance once the card is cancelled.
+	 */
+	async refund(id: string, input: AdjustmentRequest = {}) {
+		return this.apply(id, "refund", input.reference, async (authorization, card, session) => {
+			if (authorization.status !== "captured") {
+				throw new CardAuthorizationError(409, `Only captured payments can be refunded; this one is ${authorization.status}`);
+			}
+			const refundable = round(authorization.capturedAmount - authorization.refundedAmount);
+			const amount = this.amountOf(input.amount, refundable, "Refund");
+			const currency = authorization.currency;
+			const cancelled = card.status === "cancelled";
+
+			// A cancelled card has no float left; the refund goes to the user's deposit balance and is
+			// recorded as a card_refund, as the cancellation refund is
+			let txn;
+			if (cancelled) {
+				const user = await User.findById(card.userId).select("email firstName lastName").session(session);
+				if (!user) throw new CardAuthorizationError(404, "User not found");
+				[txn] = await Transaction.create(
+					[
+						{
+							type: "card_refund",
+							user: { id: user._id, email: user.email, name: `${user.firstName} ${user.lastName}` },
+							status: "completed",
+							amount,
+							currency,
+							description: `Card refund - **** ${last4(card)} from ${authorization.merchant.name}`,
+							metadata: { cardId: String(card._id) },
+						},
+					],
+					{ session },
+				);
+			}
+
+			await this.post(
+				card,
+				"Card refund",
+				authorization,
+				[
+					{ account: systemAccount("card_settlement", currency), debit: amount },
+					{
+						account: cancelled ? userAccount(card.userId, "deposit", currency) : systemAccount("card_float", currency),
+						credit: amount,
+					},
+				],
+				session,
+				txn,
+			);
+
+			authorization.refundedAmount = round(authorization.refundedAmount + amount);
+			if (authorization.refundedAmount >= authorization.capturedAmount) authorization.status = "refunded";
+			if (!cancelled) card.balance = round(card.balance + amount);
+			card.totalSpent = Math.max(0, round(card.totalSpent - amount));
+			return amount;
+		});
+	}
+
+	/**
+	 * Reverse authorizations left open past their expiry
+	 */
+	async expireStale(now = new Date()) {
+		const stale = await CardAuthorization.find({ status: "authorized", expiresAt: { $lte: now } })
+			.select("_id")
+			.limit(500)
+			.lean();
+
+		let expired = 0;
+		for (const { _id } of stale) {
+			try {
+				await this.reverse(String(_id), {}, "expiry");
+				expired++;
+			} catch (error: any) {
+				console.error(`Failed to expire card authorization ${_id}:`, error?.message || error);
+			}
+		}
+		return { expired };
+	}
+
+	/**
+	 * Whether the card has authorizations waiting for capture or reversal
+	 */
+	async hasOpen(cardId: mongoose.Types.ObjectId | string, session?: ClientSession) {
+		return Boolean(await CardAuthorization.exists({ cardId, status: "authorized" }).session(session || null));
+	}
+
+	/**
+	 * A card's payments, newest first
+	 */
+	async list(cardId: mongoose.Types.ObjectId | string, options: { status?: string; page?: number; limit?: number } = {}) {
+		const page = Math.max(1, Number(options.page) || 1);
+		const limit = Math.max(1, Math.min(Number(options.limit) || 20, 100));
+		const filter: Record<string, unknown> = { cardId };
+		if (options.status) filter.status = options.status;
+
+		const [authorizations, total] = await Promise.all([
+			CardAuthorization.find(filter)
+				.sort({ createdAt: -1 })
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.lean(),
+			CardAuthorization.countDocuments(filter),
+		]);
+		return { authorizations, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+	}
+}
+
+export default new CardAuthorizationService();
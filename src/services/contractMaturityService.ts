@@ -0,0 +1,223 @@
+import { TransactionTypes } from "../models/transaction";
+import { User } from "../models/user";
+import transactionStateMachine from "./transactionStateMachine";
+import contractService from "./contractService";
+import { runInTransaction } from "../utils/unitOfWork";
+import { contractCompleted, contractRolledOver } from "../utils/mailer";
+
+export type DurationUnit = "day" | "week" | "month" | "year";
+
+export interface PlanDuration {
+	count: number;
+	unit: DurationUnit;
+}
+
+// Queries on the discriminator are scoped to contracts and cast planData
+const Contract = TransactionTypes.contract;
+
+const BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UNITS: Record<string, DurationUnit> = {
+	d: "day",
+	day: "day",
+	days: "day",
+	w: "week",
+	wk: "week",
+	wks: "week",
+	week: "week",
+	weeks: "week",
+	m: "month",
+	mo: "month",
+	mos: "month",
+	month: "month",
+	months: "month",
+	y: "year",
+	yr: "year",
+	yrs: "year",
+	year: "year",
+	years: "year",
+};
+
+// Actor recorded in the status history of contracts completed by the scheduler
+const SCHEDULER_ACTOR = { email: "system:contract-maturity" };
+
+/**
+ * Parse a plan duration such as "30 days", "6 months", "1 year", "12w" or "3_months".
+ * A bare number is a number of days. Returns null for anything else.
+ */
+export function parseDuration(value: unknown): PlanDuration | null {
+	const text = String(value ?? "")
+		.trim()
+		.toLowerCase()
+		.replace(/[_-]+/g, " ");
+	const match = text.match(/^(\d+)\s*([a-z]*)$/);
+	if (!match) return null;
+	const count = parseInt(match[1], 10);
+	const unit = match[2] ? UNITS[match[2]] : "day";
+	if (!unit || count <= 0) return null;
+	return { count, unit };
+}
+
+/**
+ * When a contract opened at `start` on a plan of `duration` matures. Months and years keep the
+ * day of month, clamped to the last day of shorter months (Jan 31 + 1 month is Feb 28/29).
+ */
+export function maturityDate(start: Date, duration: unknown): Date | null {
+	const parsed = parseDuration(duration);
+	if (!parsed) return null;
+	if (parsed.unit === "day" || parsed.unit === "week") {
+		return new Date(start.getTime() + parsed.count * (parsed.unit === "week" ? 7 : 1) * DAY_MS);
+	}
+	const months = parsed.unit === "year" ? parsed.count * 12 : parsed.count;
+	const year = start.getUTCFullYear();
+	const month = start.getUTCMonth() + months;
+	const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+	return new Date(
+		Date.UTC(
+			year,
+			month,
+			Math.min(start.getUTCDate(), lastDay),
+			start.getUTCHours(),
+			start.getUTCMinutes(),
+			start.getUTCSeconds(),
+			start.getUTCMilliseconds(),
+		),
+	);
+}
+
+class ContractMaturityService {
+	/**
+	 * Complete every active contract whose maturity date has passed: principal and
+	 * `planData.interest` are paid out through the state machine and the owner is emailed.
+	 * Contracts set to roll over are reinvested in the same unit of work.
+	 * Contracts opened before maturity dates existed get theirs first.
+	 */
+	async runDue(now = new Date()) {
+		const backfilled = await this.backfill();
+
+		const contracts = await Contract.find({
+			status: "active",
+			"planData.maturesAt": { $lte: now },
+		})
+			.sort({ "planData.maturesAt": 1 })
+			.limit(BATCH_SIZE)
+			.select("_id");
+
+		let completed = 0;
+		let failed = 0;
+		for (const contract of contracts) {
+			if (await this.complete(String(contract._id), now)) completed++;
+			else failed++;
+		}
+		return { due: contracts.length, completed, failed, backfilled };
+	}
+
+	/**
+	 * Active contracts maturing within `days`, soonest first, for the admin dashboard. Overdue
+	 * contracts (the scheduler has not caught up or keeps failing) are included and flagged.
+	 */
+	async upcoming(options: { days?: number; limit?: number } = {}, now = new Date()) {
+		const days = Math.max(1, Math.min(Number(options.days) || 30, 365));
+		const limit = Math.max(1, Math.min(Number(options.limit) || 100, 500));
+		const until = new Date(now.getTime() + days * DAY_MS);
+
+		const [contracts, totals, unscheduled] = await Promise.all([
+			Contract.find({ status: "active", "planData.maturesAt": { $lte: until } })
+				.sort({ "planData.maturesAt": 1 })
+				.limit(limit)
+				.select("user amount currency date planData")
+				.lean(),
+			Contract.aggregate([
+				{ $match: { type: "contract", status: "active", "planData.maturesAt": { $lte: until } } },
+				{
+					$group: {
+						_id: null,
+						count: { $sum: 1 },
+						principal: { $sum: "$amount" },
+						interest: { $sum: "$planData.interest" },
+					},
+				},
+			]),
+			// Contracts the scheduler cannot complete because their plan duration did not parse
+			Contract.countDocuments({ status: "active", "planData.maturesAt": null }),
+		]);
+
+		return {
+			window: { from: now, until, days },
+			totals: {
+				count: totals[0]?.count || 0,
+				principal: totals[0]?.principal || 0,
+				interest: totals[0]?.interest || 0,
+			},
+			unscheduled,
+			contracts: contracts.map((contract) => ({
+				...contract,
+				overdue: Boolean(contract.planData?.maturesAt && contract.planData.maturesAt <= now),
+			})),
+		};
+	}
+
+	// Maturity dates for active contracts that predate them; unparseable durations are stored as null
+	private async backfill() {
+		const contracts = await Contract.find({
+			status: "active",
+			"planData.maturesAt": { $exists: false },
+		})
+			.limit(BATCH_SIZE)
+			.select("date planData");
+
+		for (const contract of contracts) {
+			const maturesAt = maturityDate(contract.date, contract.planData?.duration);
+			if (!maturesAt) console.warn(`Contract ${contract._id} has no parseable duration: ${contract.planData?.duration}`);
+			await Contract.updateOne({ _id: contract._id }, { $set: { "planData.maturesAt": maturesAt } });
+		}
+		return contracts.length;
+	}
+
+	private async complete(id: string, now: Date): Promise<boolean> {
+		try {
+			const result = await runInTransaction(async (session) => {
+				const txn = await Contract.findOne({
+					_id: id,
+					status: "active",
+					"planData.maturesAt": { $lte: now },
+				}).session(session);
+				// Completed or rejected by an admin, or by another runner, in the meantime
+				if (!txn) return null;
+				const contract = await transactionStateMachine.transition(txn, "completed", {
+					session,
+					actor: SCHEDULER_ACTOR,
+					reason: "Contract matured",
+				});
+				return { contract, rollover: await contractService.rollOver(contract, session) };
+			});
+			if (!result) return true;
+
+			const { contract, rollover } = result;
+			const user = await User.findById(contract.user?.id);
+			if (user) {
+				const date = contract.processedAt || now;
+				const plan = contract.planData?.plan || "";
+				if (rollover) {
+					await contractRolledOver(
+						user.email,
+						user.fullName,
+						contract.amount,
+						date,
+						plan,
+						"skipped" in rollover ? rollover : { plan: rollover.plan, amount: rollover.amount },
+					);
+				} else {
+					await contractCompleted(user.email, user.fullName, contract.amount, date, plan);
+				}
+			}
+			return true;
+		} catch (error: any) {
+			console.error(`Failed to complete matured contract ${id}:`, error?.message || error);
+			return false;
+		}
+	}
+}
+
+export default new ContractMaturityService();
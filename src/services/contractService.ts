@@ -0,0 +1,301 @@
+import mongoose from "mongoose";
+import { TransactionTypes } from "../models/transaction";
+import { Plan } from "../models/plan";
+import { User } from "../models/user";
+import { CONTRACT_ROLLOVER_MODES, RolloverMode } from "../types/transaction.types";
+import ledgerService, { InsufficientFundsError, normalizeCurrency, systemAccount } from "./ledgerService";
+import { maturityDate } from "./contractMaturityService";
+import { penaltyPercentFor } from "./contractTerminationService";
+import interestAccrualService from "./interestAccrualService";
+import planService, { PlanError } from "./planService";
+
+export class ContractError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "ContractError";
+		this.status = status;
+	}
+}
+
+export interface RolloverSettings {
+	mode: RolloverMode;
+	// Plan the new contract opens on; null rolls over into the same plan
+	planId: mongoose.Types.ObjectId | null;
+}
+
+export interface OpenContractInput {
+	user: any;
+	plan: any;
+	amount: number;
+	rollover?: RolloverSettings;
+	// Part of `amount` paid from the interest balance; the rest comes from deposit
+	fromInterest?: number;
+	rolledFromId?: mongoose.Types.ObjectId;
+	actor: { userId?: string; email?: string };
+}
+
+export type RolloverOutcome = { contract: any; plan: string; amount: number } | { skipped: string };
+
+export interface ContractProjection {
+	planId: string;
+	plan: string;
+	tier: string;
+	amount: number;
+	// False when the amount is outside the plan's bounds; `reason` says why
+	eligible: boolean;
+	reason?: string;
+	maturesAt: Date | null;
+	days: number;
+	totalInterest: number;
+	totalReturn: number;
+	// Return over the term compounded to a year, in percent
+	effectiveAnnualYield: number;
+	schedule?: { day: number; date: Date; interest: number; cumulative: number }[];
+}
+
+const Contract = TransactionTypes.contract;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const MAX_PROJECTED_PLANS = 5;
+
+/**
+ * Interest a contract of `amount` earns over the plan's whole term; what opening it stores in
+ * `planData.interest`
+ */
+export const contractInterest = (plan: any, amount: number) => (amount * plan.roi) / 100;
+
+// Actor recorded on contracts opened by a rollover
+const ROLLOVER_ACTOR = { email: "system:contract-rollover" };
+
+class ContractService {
+	/**
+	 * Validate a rollover setting from a request body: `mode` is one of CONTRACT_ROLLOVER_MODES and
+	 * `planId`, when given, must be an active plan.
+	 */
+	async parseRollover(mode: unknown, planId?: unknown): Promise<RolloverSettings> {
+		const value = String(mode ?? "none") as RolloverMode;
+		if (!CONTRACT_ROLLOVER_MODES.includes(value)) {
+			throw new ContractError(400, `rollover must be one of ${CONTRACT_ROLLOVER_MODES.join(", ")}`);
+		}
+		if (value === "none" || !planId) return { mode: value, planId: null };
+
+		if (!mongoose.isValidObjectId(planId)) throw new ContractError(400, "Invalid rollover plan");
+		const plan = await Plan.findById(planId);
+		if (!plan || !plan.isActive) throw new ContractError(404, "Rollover plan not found");
+		return { mode: value, planId: plan._id as mongoose.Types.ObjectId };
+	}
+
+	/**
+	 * Open an active contract on `plan` and move `amount` from the user's balance into contract
+	 * principal. Runs inside the caller's unit of work.
+	 */
+	async open(input: OpenContractInput, session: mongoose.ClientSession) {
+		const { user, plan, amount } = input;
+		const fromInterest = round(input.fromInterest || 0);
+		const openedAt = new Date();
+
+		// Built first: a balance that does not cover the amount fails before anything is written
+		const spend = [
+			...ledgerService.spendPostings(user, round(amount - fromInterest), { buckets: ["deposit"] }),
+			...(fromInterest > 0 ? ledgerService.spendPostings(user, fromInterest, { buckets: ["interest"] }) : []),
+		];
+
+		const [transaction] = await Contract.create(
+			[
+				{
+					type: "contract",
+					user: {
+						id: user._id,
+						email: user.email,
+						name: user.username,
+					},
+					status: "active",
+					amount,
+					date: openedAt,
+					planData: {
+						plan: plan.name,
+						duration: plan.duration,
+						interest: contractInterest(plan, amount),
+						maturesAt: maturityDate(openedAt, plan.duration),
+						planId: plan._id,
+						earlyTerminationPenalty: penaltyPercentFor(plan),
+						rollover: input.rollover || { mode: "none", planId: null },
+						fundedFromInterest: fromInterest,
+						rolledFromId: input.rolledFromId,
+					},
+				},
+			],
+			{ session },
+		);
+
+		await ledgerService.post(
+			{
+				description: input.rolledFromId ? `Contract rolled over into ${plan.name}` : `Contract opened on ${plan.name}`,
+				referenceType: "contract",
+				transactionIds: input.rolledFromId ? [transaction._id, input.rolledFromId] : [transaction._id],
+				postings: [
+					...spend,
+					{ account: systemAccount("contract_principal"), credit: amount },
+				],
+				actor: input.actor,
+			},
+			{ session },
+		);
+
+		return transaction;
+	}
+
+	/**
+	 * What `amount` would earn on each plan if a contract opened now, and the plans side by side.
+	 * Pass `schedule: false` to leave out the day-by-day interest.
+	 */
+	async project(amount: number, planIds: string[], options: { schedule?: boolean } = {}, now = new Date()) {
+		if (!Number.isFinite(amount) || amount <= 0) throw new ContractError(400, "amount must be a positive number");
+		const ids = [...new Set(planIds)];
+		if (!ids.length) throw new ContractError(400, "Pass at least one planId");
+		if (ids.length > MAX_PROJECTED_PLANS) throw new ContractError(400, `Compare at most ${MAX_PROJECTED_PLANS} plans`);
+		if (!ids.every((id) => mongoose.isValidObjectId(id))) throw new ContractError(400, "Invalid planId");
+
+		const plans = await Plan.find({ _id: { $in: ids }, isActive: true });
+		const missing = ids.filter((id) => !plans.some((plan) => String(plan._id) === id));
+		if (missing.length) throw new ContractError(404, `Plan not found: ${missing.join(", ")}`);
+
+		const projections: ContractProjection[] = ids.map((id) => {
+			const plan = plans.find((candidate) => String(candidate._id) === id)!;
+			let reason: string | undefined;
+			try {
+				planService.checkAmount(plan, amount);
+			} catch (error) {
+				if (!(error instanceof PlanError)) throw error;
+				reason = error.message;
+			}
+
+			const maturesAt = maturityDate(now, plan.duration);
+			const interest = contractInterest(plan, amount);
+			const schedule = maturesAt ? interestAccrualService.schedule(now, maturesAt, interest) : [];
+			const days = schedule.length;
+			const totalInterest = schedule.length ? schedule[schedule.length - 1].cumulative : round(interest);
+			const effectiveAnnualYield = days ? (Math.pow(1 + totalInterest / amount, 365 / days) - 1) * 100 : 0;
+
+			return {
+				planId: id,
+				plan: plan.name,
+				tier: plan.tier,
+				amount,
+				eligible: !reason,
+				...(reason ? { reason } : {}),
+				maturesAt,
+				days,
+				totalInterest,
+				totalReturn: round(amount + totalInterest),
+				effectiveAnnualYield: Math.round(effectiveAnnualYield * 100) / 100,
+				...(options.schedule === false ? {} : { schedule }),
+			};
+		});
+
+		// Best first by annualised yield, so plans of different lengths compare fairly
+		const ranked = [...projections].sort((a, b) => b.effectiveAnnualYield - a.effectiveAnnualYield);
+		return {
+			amount,
+			projections,
+			comparison: ranked.map(({ planId, plan, tier, eligible, days, totalInterest, totalReturn, effectiveAnnualYield }) => ({
+				planId,
+				plan,
+				tier,
+				eligible,
+				days,
+				totalInterest,
+				totalReturn,
+				effectiveAnnualYield,
+			})),
+			best: ranked.find((projection) => projection.eligible)?.planId || null,
+		};
+	}
+
+	/**
+	 * Change what happens to an active contract when it matures (owner or admin)
+	 */
+	async setRollover(id: string, settings: RolloverSettings, requester: { userId?: string; isAdmin?: boolean }) {
+		if (!mongoose.isValidObjectId(id)) throw new ContractError(400, "Invalid contract id");
+		const contract = await Contract.findById(id);
+		if (!contract) throw new ContractError(404, "Contract not found");
+		if (!requester.isAdmin && String(contract.user?.id) !== String(requester.userId)) {
+			throw new ContractError(403, "Access denied");
+		}
+		if (contract.status !== "active") {
+			throw new ContractError(409, `Rollover can only be changed on active contracts; this one is ${contract.status}`);
+		}
+
+		return Contract.findByIdAndUpdate(id, { $set: { "planData.rollover": settings } }, { new: true });
+	}
+
+	/**
+	 * Reinvest a contract that has just completed, inside the same unit of work as the completion.
+	 * The principal, plus its interest in principal_and_interest mode, goes into a new contract on the
+	 * chosen plan (or the same one) with the same rollover setting, so it keeps compounding. Returns
+	 * null when the contract has no rollover, and the reason when it could not happen; the money then
+	 * simply stays in the user's balance.
+	 */
+	async rollOver(contract: any, session: mongoose.ClientSession): Promise<RolloverOutcome | null> {
+		const rollover = contract.planData?.rollover;
+		if (!rollover || rollover.mode === "none") return null;
+
+		const outcome = await this.reinvest(contract, rollover, session);
+		if ("skipped" in outcome) {
+			contract.planData.rolloverSkipped = outcome.skipped;
+		} else {
+			contract.planData.rolledIntoId = outcome.contract._id;
+		}
+		await contract.save({ session });
+		return outcome;
+	}
+
+	private async reinvest(contract: any, rollover: RolloverSettings, session: mongoose.ClientSession): Promise<RolloverOutcome> {
+		const planId = rollover.planId || contract.planData.planId;
+		const plan = planId
+			? await Plan.findById(planId).session(session)
+			: await Plan.findOne({ name: contract.planData.plan }).session(session);
+		if (!plan || !plan.isActive) return { skipped: "the plan is no longer available" };
+
+		const user = await User.findById(contract.user?.id).session(session);
+		if (!user) return { skipped: "the account was not found" };
+
+		// Interest already spent elsewhere cannot be reinvested, nor interest past the plan's maximum
+		const principal = Number(contract.amount) || 0;
+		const max = plan.maxContract ?? Infinity;
+		if (principal > max) return { skipped: `$${principal} is above the $${max} maximum of ${plan.name}` };
+		const held = ledgerService.bucketsFor(user, normalizeCurrency(contract.currency));
+		const fromInterest =
+			rollover.mode === "principal_and_interest"
+				? round(Math.max(0, Math.min(Number(contract.planData.interest) || 0, held.interest, max - principal)))
+				: 0;
+		const amount = round(principal + fromInterest);
+		const min = plan.minContract ?? plan.minAmount ?? 0;
+		if (amount < min) return { skipped: `$${amount} is below the $${min} minimum of ${plan.name}` };
+
+		try {
+			const opened = await this.open(
+				{
+					user,
+					plan,
+					amount,
+					rollover: { mode: rollover.mode, planId: rollover.planId || null },
+					fromInterest,
+					rolledFromId: contract._id,
+					actor: ROLLOVER_ACTOR,
+				},
+				session,
+			);
+			return { contract: opened, plan: plan.name, amount };
+		} catch (error) {
+			// The returned principal does not cover it, e.g. the deposit balance was negative
+			if (error instanceof InsufficientFundsError) return { skipped: "the balance no longer covers it" };
+			throw error;
+		}
+	}
+}
+
+export default new ContractService();
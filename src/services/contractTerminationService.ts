@@ -0,0 +1,118 @@
+import mongoose from "mongoose";
+import { TransactionTypes } from "../models/transaction";
+import { Plan } from "../models/plan";
+import { User } from "../models/user";
+import { ContractTermination } from "../types/transaction.types";
+import transactionStateMachine from "./transactionStateMachine";
+import interestAccrualService from "./interestAccrualService";
+import { runInTransaction } from "../utils/unitOfWork";
+import { contractTerminated } from "../utils/mailer";
+
+export class ContractTerminationError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "ContractTerminationError";
+		this.status = status;
+	}
+}
+
+export interface TerminationRequester {
+	userId?: string;
+	email?: string;
+	isAdmin?: boolean;
+}
+
+const Contract = TransactionTypes.contract;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Penalty for plans that do not set their own
+const DEFAULT_PENALTY_PERCENT = () => Number(process.env.EARLY_TERMINATION_PENALTY_PERCENT || 5);
+
+/**
+ * Penalty percent a plan charges on early termination
+ */
+export const penaltyPercentFor = (plan: { earlyTerminationPenalty?: number | null } | null) =>
+	plan?.earlyTerminationPenalty ?? DEFAULT_PENALTY_PERCENT();
+
+class ContractTerminationService {
+	/**
+	 * What the user gets back if they exit `contract` now. The penalty percent is the one fixed when
+	 * the contract opened; contracts that predate it use their plan's current setting.
+	 */
+	async quote(contract: any, now = new Date()): Promise<ContractTermination> {
+		let penaltyPercent = contract.planData?.earlyTerminationPenalty;
+		if (penaltyPercent === undefined || penaltyPercent === null) {
+			const plan = contract.planData?.planId
+				? await Plan.findById(contract.planData.planId)
+				: await Plan.findOne({ name: contract.planData?.plan });
+			penaltyPercent = penaltyPercentFor(plan);
+		}
+
+		const principal = Number(contract.amount) || 0;
+		const penalty = round(Math.min(principal, (principal * Number(penaltyPercent)) / 100));
+		return {
+			accruedInterest: round(Number(contract.planData?.accruedInterest) || 0),
+			penaltyPercent: Number(penaltyPercent),
+			penalty,
+			refund: round(principal - penalty),
+			terminatedAt: now,
+		};
+	}
+
+	/**
+	 * Load an active contract the requester may terminate
+	 */
+	async findTerminable(id: string, requester: TerminationRequester) {
+		if (!mongoose.isValidObjectId(id)) throw new ContractTerminationError(400, "Invalid contract id");
+		const contract = await Contract.findById(id);
+		if (!contract) throw new ContractTerminationError(404, "Contract not found");
+		if (!requester.isAdmin && String(contract.user?.id) !== String(requester.userId)) {
+			throw new ContractTerminationError(403, "Access denied");
+		}
+		if (contract.status !== "active") {
+			throw new ContractTerminationError(409, `Only active contracts can be terminated; this one is ${contract.status}`);
+		}
+		return contract;
+	}
+
+	/**
+	 * Exit an active contract before maturity: interest for the days that have ended is accrued
+	 * first, then the principal less the plan's penalty goes back to the user's deposit balance.
+	 */
+	async terminate(id: string, requester: TerminationRequester) {
+		await this.findTerminable(id, requester);
+		await interestAccrualService.accrueContract(id);
+
+		const contract = await runInTransaction(async (session) => {
+			const txn = await Contract.findOne({ _id: id, status: "active" }).session(session);
+			// Matured, rejected or terminated between the check and now
+			if (!txn || !txn.planData) throw new ContractTerminationError(409, "Contract is no longer active");
+
+			txn.planData.termination = await this.quote(txn);
+			return transactionStateMachine.transition(txn, "terminated", {
+				session,
+				actor: { userId: requester.userId, email: requester.email },
+				reason: requester.isAdmin ? "Terminated early by admin" : "Terminated early by user",
+			});
+		});
+
+		const termination = contract.planData!.termination!;
+		const user = await User.findById(contract.user?.id).select("email fullName");
+		if (user) {
+			await contractTerminated(
+				user.email,
+				user.fullName,
+				contract.amount,
+				termination.terminatedAt,
+				contract.planData?.plan || "",
+				termination,
+			);
+		}
+		return { contract, termination };
+	}
+}
+
+export default new ContractTerminationService();
@@ -0,0 +1,249 @@
+import { ClientSession } from "mongoose";
+import { FeeSchedule, FEE_TYPES, FeeType, IFeeRate, IFeeSchedule, IFeeTier } from "../models/feeSchedule";
+import { Transaction } from "../models/transaction";
+import { UserBalanceBucket } from "../models/ledger";
+import ledgerService, { PostingInput, systemAccount, normalizeCurrency, isSupportedCurrency } from "./ledgerService";
+
+export class FeeError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "FeeError";
+		this.status = status;
+	}
+}
+
+export interface FeeQuote {
+	type: FeeType;
+	currency: string;
+	amount: number;
+	fee: number;
+	// What the user is debited: amount + fee
+	total: number;
+	rate: IFeeRate;
+	tier: string | null;
+	source: "schedule" | "default";
+	scheduleId: string | null;
+}
+
+export interface FeeScheduleInput {
+	type: FeeType;
+	currency?: string;
+	description?: string;
+	percent?: number;
+	flat?: number;
+	min?: number;
+	max?: number;
+	tiers?: IFeeTier[];
+	active?: boolean;
+}
+
+// Rates used until an admin saves a schedule for the type; they keep the env settings that predate the fee engine
+const DEFAULT_RATES: Record<FeeType, () => Partial<IFeeRate>> = {
+	internal_transfer: () => ({}),
+	external_transfer: () => ({ percent: Number(process.env.EXTERNAL_TRANSFER_FEE_PERCENT || 2.5) }),
+	crypto_withdrawal: () => ({}),
+	withdrawal: () => ({}),
+	card_issuance: () => ({ flat: Number(process.env.VIRTUAL_CARD_FEE) || 49 }),
+	card_funding: () => ({}),
+	gift_card_issue: () => ({ flat: Number(process.env.GIFT_CARD_FEE) || 4.5 }),
+	gift_card_purchase: () => ({}),
+	flight_booking: () => ({ percent: Number(process.env.FLIGHT_BOOKING_FEE) || 1.8 }),
+};
+
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+const rateOf = (rate: Partial<IFeeRate>): IFeeRate => ({
+	percent: Number(rate.percent) || 0,
+	flat: Number(rate.flat) || 0,
+	min: Number(rate.min) || 0,
+	max: Number(rate.max) || 0,
+});
+
+export const isFeeType = (value: unknown): value is FeeType => FEE_TYPES.includes(value as FeeType);
+
+class FeeService {
+	/**
+	 * Fee for `amount` under a rate: percentage plus flat, raised to `min` and capped at `max`
+	 */
+	compute(rate: IFeeRate, amount: number): number {
+		let fee = (amount * rate.percent) / 100 + rate.flat;
+		if (rate.min > 0) fee = Math.max(fee, rate.min);
+		if (rate.max > 0) fee = Math.min(fee, rate.max);
+		return fromCents(toCents(Math.max(fee, 0)));
+	}
+
+	/**
+	 * Price a movement for a user. The active schedule for the currency wins over the "*" one;
+	 * without either the built-in default applies. Pass the user so KYC and plan tiers can match.
+	 */
+	async quote(type: FeeType, amount: number, options: { user?: any; currency?: string } = {}): Promise<FeeQuote> {
+		if (!isFeeType(type)) throw new FeeError(400, `Unknown fee type: ${type}`);
+		if (!Number.isFinite(amount) || amount < 0) throw new FeeError(400, "Invalid amount");
+		const currency = normalizeCurrency(options.currency);
+		if (!isSupportedCurrency(currency)) throw new FeeError(400, `Unsupported currency: ${currency}`);
+
+		const schedule = await this.scheduleFor(type, currency);
+		let rate = rateOf(schedule ? schedule : DEFAULT_RATES[type]());
+		let tier: IFeeTier | null = null;
+		if (schedule && options.user) {
+			tier = await this.matchTier(schedule.tiers || [], options.user);
+			if (tier) {
+				rate = rateOf({
+					percent: tier.percent ?? rate.percent,
+					flat: tier.flat ?? rate.flat,
+					min: tier.min ?? rate.min,
+					max: tier.max ?? rate.max,
+				});
+			}
+		}
+
+		const fee = this.compute(rate, amount);
+		return {
+			type,
+			currency,
+			amount,
+			fee,
+			total: fromCents(toCents(amount) + toCents(fee)),
+			rate,
+			tier: tier ? tier.name : null,
+			source: schedule ? "schedule" : "default",
+			scheduleId: schedule ? String(schedule._id) : null,
+		};
+	}
+
+	/**
+	 * Debit postings for a movement and its fee (usually a FeeQuote), split into the principal and
+	 * the fee. The split drains buckets exactly as one spend of the total would; throws
+	 * InsufficientFundsError when the user cannot cover amount + fee.
+	 */
+	spendPostings(
+		user: any,
+		charge: { amount: number; fee: number; currency: string },
+		options: { buckets?: UserBalanceBucket[] } = {},
+	) {
+		const total = fromCents(toCents(charge.amount) + toCents(charge.fee));
+		const spend = ledgerService.spendPostings(user, total, { buckets: options.buckets, currency: charge.currency });
+
+		let principalLeft = toCents(charge.amount);
+		const principal: PostingInput[] = [];
+		const fee: PostingInput[] = [];
+		for (const posting of spend) {
+			const cents = toCents(posting.debit || 0);
+			const take = Math.min(cents, principalLeft);
+			if (take > 0) principal.push({ ...posting, debit: fromCents(take) });
+			if (cents - take > 0) fee.push({ ...posting, debit: fromCents(cents - take) });
+			principalLeft -= take;
+		}
+		return { principal, fee };
+	}
+
+	/**
+	 * Record a fee as its own journal entry crediting fee revenue, linked to the transaction it
+	 * was charged on. `debits` must add up to `amount`. A zero fee posts nothing.
+	 */
+	async charge(
+		input: {
+			type: FeeType;
+			amount: number;
+			currency: string;
+			debits: PostingInput[];
+			transactionIds: any[];
+			description: string;
+			actor?: { userId?: string; email?: string };
+		},
+		session: ClientSession,
+	) {
+		if (toCents(input.amount) <= 0) return null;
+		return ledgerService.post(
+			{
+				description: `Fee: ${input.description}`,
+				referenceType: "fee",
+				transactionIds: input.transactionIds,
+				postings: [
+					...input.debits.map((posting) => ({ ...posting, memo: posting.memo || input.type })),
+					{ account: systemAccount("fee_revenue", input.currency), credit: input.amount, memo: input.type },
+				],
+				actor: input.actor,
+			},
+			{ session },
+		);
+	}
+
+	/**
+	 * Every fee type with its saved schedules and the built-in default, for the admin screen
+	 */
+	async listSchedules() {
+		const schedules = await FeeSchedule.find().sort({ type: 1, currency: 1 }).lean();
+		return FEE_TYPES.map((type) => ({
+			type,
+			default: rateOf(DEFAULT_RATES[type]()),
+			schedules: schedules.filter((schedule) => schedule.type === type),
+		}));
+	}
+
+	async createSchedule(input: FeeScheduleInput, actor?: { userId?: string; email?: string }) {
+		if (!isFeeType(input.type)) throw new FeeError(400, `Unknown fee type: ${input.type}`);
+		const currency = this.scheduleCurrency(input.currency);
+		if (await FeeSchedule.exists({ type: input.type, currency })) {
+			throw new FeeError(409, `A ${input.type} schedule for ${currency} already exists`);
+		}
+		return FeeSchedule.create({ ...input, currency, updatedBy: this.updatedBy(actor) });
+	}
+
+	async updateSchedule(schedule: IFeeSchedule, input: Partial<FeeScheduleInput>, actor?: { userId?: string; email?: string }) {
+		if (input.type !== undefined && input.type !== schedule.type) {
+			throw new FeeError(400, "The type of a schedule cannot be changed");
+		}
+		if (input.currency !== undefined) {
+			const currency = this.scheduleCurrency(input.currency);
+			if (currency !== schedule.currency && (await FeeSchedule.exists({ type: schedule.type, currency }))) {
+				throw new FeeError(409, `A ${schedule.type} schedule for ${currency} already exists`);
+			}
+			schedule.currency = currency;
+		}
+		for (const field of ["description", "percent", "flat", "min", "max", "tiers", "active"] as const) {
+			if (input[field] !== undefined) schedule.set(field, input[field]);
+		}
+		schedule.updatedBy = this.updatedBy(actor) as IFeeSchedule["updatedBy"];
+		return schedule.save();
+	}
+
+	private async scheduleFor(type: FeeType, currency: string) {
+		const schedules = await FeeSchedule.find({ type, active: true, currency: { $in: [currency, "*"] } }).lean();
+		return schedules.find((schedule) => schedule.currency === currency) || schedules[0] || null;
+	}
+
+	// First tier whose conditions all hold for the user; plans are those of the user's active contracts
+	private async matchTier(tiers: IFeeTier[], user: any): Promise<IFeeTier | null> {
+		if (!tiers.length) return null;
+		let plans: string[] | null = null;
+		for (const tier of tiers) {
+			if (tier.kycStatus && tier.kycStatus !== user.kycStatus) continue;
+			if (tier.plan) {
+				if (!plans) {
+					const active = await Transaction.distinct("planData.plan", { type: "contract", status: "active", "user.id": user._id });
+					plans = active.map((plan) => String(plan).toLowerCase());
+				}
+				if (!plans.includes(tier.plan.toLowerCase())) continue;
+			}
+			return tier;
+		}
+		return null;
+	}
+
+	private scheduleCurrency(value?: string) {
+		if (!value || value === "*") return "*";
+		const currency = normalizeCurrency(value);
+		if (!isSupportedCurrency(currency)) throw new FeeError(400, `Unsupported currency: ${currency}`);
+		return currency;
+	}
+
+	private updatedBy(actor?: { userId?: string; email?: string }) {
+		return { userId: actor?.userId || null, email: actor?.email || "" };
+	}
+}
+
+export default new FeeService();
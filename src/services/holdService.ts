@@ -0,0 +1,197 @@
+import mongoose, { ClientSession } from "mongoose";
+import { Hold, IHold } from "../models/hold";
+import { JournalEntry, UserBalanceBucket } from "../models/ledger";
+import { FeeType } from "../models/feeSchedule";
+import ledgerService, { PostingInput, systemAccount, userAccount, normalizeCurrency } from "./ledgerService";
+import feeService from "./feeService";
+
+export interface PlaceHoldInput {
+	holdId?: mongoose.Types.ObjectId;
+	user: any;
+	transactionId: mongoose.Types.ObjectId;
+	referenceType: string;
+	amount: number;
+	currency?: string;
+	buckets?: UserBalanceBucket[];
+	description: string;
+	actor?: { userId?: string; email?: string };
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+class HoldService {
+	/**
+	 * Reserve funds for a pending transaction: they leave the user's spendable buckets for the
+	 * holds account, so the available balance excludes them straight away. Throws
+	 * InsufficientFundsError when the user cannot cover the amount.
+	 */
+	async place(input: PlaceHoldInput, session: ClientSession): Promise<IHold> {
+		const currency = normalizeCurrency(input.currency);
+		const spend = ledgerService.spendPostings(input.user, input.amount, { buckets: input.buckets, currency });
+
+		await ledgerService.post(
+			{
+				description: `Hold: ${input.description}`,
+				referenceType: input.referenceType,
+				transactionIds: [input.transactionId],
+				postings: [...spend, { account: systemAccount("holds", currency), credit: input.amount }],
+				actor: input.actor,
+			},
+			{ session },
+		);
+
+		const [hold] = await Hold.create(
+			[
+				{
+					_id: input.holdId,
+					userId: input.user._id,
+					transactionId: input.transactionId,
+					referenceType: input.referenceType,
+					currency,
+					amount: input.amount,
+					allocations: spend.map((posting) => ({
+						bucket: posting.account.split(":")[2] as UserBalanceBucket,
+						amount: posting.debit || 0,
+					})),
+				},
+			],
+			{ session },
+		);
+		return hold;
+	}
+
+	/**
+	 * Settle the active hold of a transaction into `credits`, which must add up to the held amount
+	 * less `fee`; the fee is charged from the hold as a separate entry (see feeService.charge).
+	 * Returns null when the transaction has no active hold, e.g. it predates holds.
+	 */
+	async capture(
+		transactionId: mongoose.Types.ObjectId | string,
+		credits: PostingInput[],
+		options: {
+			session: ClientSession;
+			description: string;
+			fee?: { type: FeeType; amount: number };
+			actor?: { userId?: string; email?: string };
+		},
+	): Promise<IHold | null> {
+		const hold = await Hold.findOneAndUpdate(
+			{ transactionId, status: "active" },
+			{ $set: { status: "captured", capturedAt: new Date() } },
+			{ session: options.session, new: true },
+		);
+		if (!hold) return null;
+
+		const fee = round(options.fee?.amount || 0);
+		const holdsAccount = systemAccount("holds", hold.currency);
+		await ledgerService.post(
+			{
+				description: options.description,
+				referenceType: hold.referenceType,
+				transactionIds: [hold.transactionId],
+				postings: [{ account: holdsAccount, debit: round(hold.amount - fee) }, ...credits],
+				actor: options.actor,
+			},
+			{ session: options.session },
+		);
+		if (options.fee) {
+			await feeService.charge(
+				{
+					type: options.fee.type,
+					amount: fee,
+					currency: hold.currency,
+					debits: [{ account: holdsAccount, debit: fee }],
+					transactionIds: [hold.transactionId],
+					description: options.description,
+					actor: options.actor,
+				},
+				options.session,
+			);
+		}
+		return hold;
+	}
+
+	/**
+	 * Return the funds of a transaction's active hold to the buckets they came from.
+	 * Returns null when there is no active hold.
+	 */
+	async release(
+		transactionId: mongoose.Types.ObjectId | string,
+		options: { session: ClientSession; reason?: string; actor?: { userId?: string; email?: string } },
+	): Promise<IHold | null> {
+		const hold = await Hold.findOneAndUpdate(
+			{ transactionId, status: "active" },
+			{ $set: { status: "released", releasedAt: new Date(), releaseReason: options.reason || "" } },
+			{ session: options.session, new: true },
+		);
+		if (!hold) return null;
+
+		await ledgerService.post(
+			{
+				description: `Hold released${options.reason ? `: ${options.reason}` : ""}`,
+				referenceType: hold.referenceType,
+				transactionIds: [hold.transactionId],
+				postings: [
+					{ account: systemAccount("holds", hold.currency), debit: hold.amount },
+					...hold.allocations.map((allocation) => ({
+						account: userAccount(hold.userId, allocation.bucket, hold.currency),
+						credit: allocation.amount,
+					})),
+				],
+				actor: options.actor,
+			},
+			{ session: options.session },
+		);
+		return hold;
+	}
+
+	/**
+	 * Undo the user side of a movement that was debited directly when it was created (payouts
+	 * recorded before holds existed) by posting the reverse of its original journal entry.
+	 */
+	async reverseDirectDebit(
+		transactionId: mongoose.Types.ObjectId,
+		referenceType: string,
+		options: { session: ClientSession; actor?: { userId?: string; email?: string } },
+	) {
+		const original = await JournalEntry.findOne({
+			"reference.type": referenceType,
+			"reference.transactionIds": transactionId,
+		})
+			.sort({ createdAt: 1 })
+			.session(options.session);
+		if (!original) return null;
+
+		return ledgerService.post(
+			{
+				description: `Reversal: ${original.description}`,
+				referenceType,
+				transactionIds: [transactionId],
+				postings: original.postings.map((posting) => ({
+					account: posting.account,
+					debit: posting.credit,
+					credit: posting.debit,
+				})),
+				actor: options.actor,
+			},
+			{ session: options.session },
+		);
+	}
+
+	/**
+	 * Total held per currency for a user
+	 */
+	async heldByCurrency(userId: string | mongoose.Types.ObjectId): Promise<Record<string, number>> {
+		const rows = await Hold.aggregate([
+			{ $match: { userId: new mongoose.Types.ObjectId(String(userId)), status: "active" } },
+			{ $group: { _id: "$currency", amount: { $sum: "$amount" } } },
+		]);
+		return Object.fromEntries(rows.map((row) => [row._id, round(row.amount)]));
+	}
+
+	async listActive(userId: string | mongoose.Types.ObjectId) {
+		return Hold.find({ userId, status: "active" }).sort({ createdAt: -1 }).lean();
+	}
+}
+
+export default new HoldService();
@@ -0,0 +1,210 @@
+import mongoose from "mongoose";
+import { TransactionTypes } from "../models/transaction";
+import { InterestAccrual } from "../models/interestAccrual";
+import { User } from "../models/user";
+import ledgerService, { normalizeCurrency, systemAccount, userAccount } from "./ledgerService";
+import { runInTransaction } from "../utils/unitOfWork";
+import { interestAdded } from "../utils/mailer";
+
+const Contract = TransactionTypes.contract;
+
+const BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+const SCHEDULER_ACTOR = { email: "system:interest-accrual" };
+
+interface AccrualTerm {
+	start: Date;
+	days: number;
+	interestCents: number;
+}
+
+// Term in whole days between opening and maturity
+const termFor = (start: Date, maturesAt: Date, interest: number): AccrualTerm => ({
+	start,
+	days: Math.max(1, Math.round((maturesAt.getTime() - start.getTime()) / DAY_MS)),
+	interestCents: toCents(interest),
+});
+
+// Term of a contract, or null when it has no maturity date. Uses the interest fixed from the plan's
+// return when the contract opened, as completion and reconciliation do, so plan edits never
+// re-price open contracts
+const termOf = (contract: any): AccrualTerm | null => {
+	const start = contract.date ? new Date(contract.date) : null;
+	const maturesAt = contract.planData?.maturesAt ? new Date(contract.planData.maturesAt) : null;
+	if (!start || !maturesAt) return null;
+	return termFor(start, maturesAt, Number(contract.planData?.interest) || 0);
+};
+
+// Interest for day `day` of the term; spread so the days add up to the contract interest exactly
+const dayCents = (term: AccrualTerm, day: number) =>
+	Math.floor((term.interestCents * day) / term.days) - Math.floor((term.interestCents * (day - 1)) / term.days);
+
+const dayEnd = (term: AccrualTerm, day: number) => new Date(term.start.getTime() + day * DAY_MS);
+
+class InterestAccrualService {
+	/**
+	 * Credit the interest of every active contract for each contract day that has ended since its
+	 * last accrual. A contract missed for several days (downtime) catches up in one entry; each
+	 * contract-day is recorded once, so overlapping runs never pay the same day twice.
+	 */
+	async runDue(now = new Date()) {
+		const contracts = await Contract.find({
+			status: "active",
+			"planData.maturesAt": { $ne: null },
+			$or: [{ "planData.nextAccrualAt": { $lte: now } }, { "planData.nextAccrualAt": { $exists: false } }],
+		})
+			.sort({ "planData.nextAccrualAt": 1 })
+			.limit(BATCH_SIZE)
+			.select("_id");
+
+		// One email per user per run, however many contracts or days accrued
+		const credited = new Map<string, number>();
+		let accrued = 0;
+		let failed = 0;
+		for (const contract of contracts) {
+			try {
+				const result = await this.accrueContract(String(contract._id), now);
+				if (!result) continue;
+				accrued += result.days;
+				credited.set(result.userId, (credited.get(result.userId) || 0) + result.amount);
+			} catch (error: any) {
+				console.error(`Failed to accrue interest on contract ${contract._id}:`, error?.message || error);
+				failed++;
+			}
+		}
+
+		for (const [userId, amount] of credited) {
+			if (amount <= 0) continue;
+			const user = await User.findById(userId).select("email fullName");
+			if (user) await interestAdded(user.email, user.fullName, +amount.toFixed(2), now);
+		}
+		return { contracts: contracts.length, days: accrued, users: credited.size, failed };
+	}
+
+	/**
+	 * Interest a user's active contracts currently accrue per day
+	 */
+	async dailyRate(userId: string | mongoose.Types.ObjectId) {
+		const contracts = await Contract.find({ "user.id": userId, status: "active" }).select("date planData").lean();
+		const cents = contracts.reduce((sum, contract) => {
+			const term = termOf(contract);
+			return term ? sum + term.interestCents / term.days : sum;
+		}, 0);
+		return fromCents(Math.round(cents));
+	}
+
+	/**
+	 * Interest a contract from `start` to `maturesAt` earning `interest` in total is credited day by
+	 * day, as this job pays it
+	 */
+	schedule(start: Date, maturesAt: Date, interest: number) {
+		const term = termFor(start, maturesAt, interest);
+		let cumulative = 0;
+		return Array.from({ length: term.days }, (_, i) => {
+			const cents = dayCents(term, i + 1);
+			cumulative += cents;
+			return { day: i + 1, date: dayEnd(term, i + 1), interest: fromCents(cents), cumulative: fromCents(cumulative) };
+		});
+	}
+
+	/**
+	 * A user's accrual history, newest first, optionally for one contract
+	 */
+	async history(userId: string, options: { contractId?: string; page?: number; limit?: number } = {}) {
+		const page = Math.max(1, Number(options.page) || 1);
+		const limit = Math.max(1, Math.min(Number(options.limit) || 50, 200));
+		const filter: Record<string, any> = { userId: new mongoose.Types.ObjectId(userId) };
+		if (options.contractId) filter.contractId = new mongoose.Types.ObjectId(options.contractId);
+
+		const [accruals, total, sums] = await Promise.all([
+			InterestAccrual.find(filter)
+				.sort({ accruedFor: -1, day: -1 })
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.lean(),
+			InterestAccrual.countDocuments(filter),
+			InterestAccrual.aggregate([{ $match: filter }, { $group: { _id: "$currency", amount: { $sum: "$amount" } } }]),
+		]);
+
+		return {
+			accruals,
+			totals: Object.fromEntries(sums.map((row) => [row._id, +row.amount.toFixed(2)])),
+			pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+		};
+	}
+
+	/**
+	 * Accrue every ended, unaccrued day of one contract in a single unit of work. Returns null when
+	 * no day was due or the contract is no longer active.
+	 */
+	async accrueContract(id: string, now = new Date()) {
+		return runInTransaction(async (session) => {
+			const contract = await Contract.findOne({ _id: id, status: "active" }).session(session);
+			if (!contract || !contract.planData) return null;
+
+			const term = termOf(contract);
+			if (!term) return null;
+			const from = (contract.planData.accruedDays || 0) + 1;
+			let to = from - 1;
+			while (to < term.days && dayEnd(term, to + 1) <= now) to++;
+
+			const nextAccrualAt = to < term.days ? dayEnd(term, to + 1) : null;
+			if (to < from) {
+				// Nothing ended yet; remember when something will
+				contract.planData.nextAccrualAt = nextAccrualAt;
+				await contract.save({ session });
+				return null;
+			}
+
+			const currency = normalizeCurrency(contract.currency);
+			const days = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+			const amountCents = days.reduce((sum, day) => sum + dayCents(term, day), 0);
+			const plan = contract.planData.plan || "";
+
+			const entry =
+				amountCents > 0
+					? await ledgerService.post(
+							{
+								description: `Interest accrued on ${plan || "contract"} (day ${from === to ? to : `${from}-${to}`} of ${term.days})`,
+								referenceType: "interest_accrual",
+								transactionIds: [contract._id],
+								postings: [
+									{ account: systemAccount("interest_expense", currency), debit: fromCents(amountCents) },
+									{ account: userAccount(contract.user.id, "interest", currency), credit: fromCents(amountCents) },
+								],
+								actor: SCHEDULER_ACTOR,
+							},
+							{ session },
+						)
+					: null;
+
+			// The unique contract-day index aborts the unit of work if another run got there first
+			await InterestAccrual.create(
+				days.map((day) => ({
+					contractId: contract._id,
+					userId: contract.user.id,
+					day,
+					accruedFor: dayEnd(term, day),
+					amount: fromCents(dayCents(term, day)),
+					currency,
+					plan,
+					journalEntryId: entry ? entry._id : null,
+				})),
+				{ session, ordered: true },
+			);
+
+			contract.planData.accruedInterest = fromCents(toCents(contract.planData.accruedInterest || 0) + amountCents);
+			contract.planData.accruedDays = to;
+			contract.planData.nextAccrualAt = nextAccrualAt;
+			await contract.save({ session });
+
+			return { userId: String(contract.user.id), days: days.length, amount: fromCents(amountCents) };
+		});
+	}
+}
+
+export default new InterestAccrualService();
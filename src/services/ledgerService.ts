@@ -0,0 +1,426 @@
+import mongoose, { ClientSession } from "mongoose";
+import { LedgerAccount, JournalEntry, IJournalEntry, LedgerAccountKind, UserBalanceBucket } from "../models/ledger";
+import { User } from "../models/user";
+
+export type SystemAccountName =
+	| "cash"
+	| "fee_revenue"
+	| "penalty_revenue"
+	| "card_float"
+	| "card_authorizations"
+	| "card_settlement"
+	| "giftcard_liability"
+	| "payouts_clearing"
+	| "holds"
+	| "vendor_payable"
+	| "contract_principal"
+	| "interest_expense"
+	| "referral_expense"
+	| "adjustments"
+	| "opening_equity";
+
+const SYSTEM_ACCOUNT_KINDS: Record<SystemAccountName, LedgerAccountKind> = {
+	cash: "asset",
+	fee_revenue: "revenue",
+	penalty_revenue: "revenue",
+	card_float: "liability",
+	card_authorizations: "liability",
+	card_settlement: "liability",
+	giftcard_liability: "liability",
+	payouts_clearing: "liability",
+	holds: "liability",
+	vendor_payable: "liability",
+	contract_principal: "liability",
+	interest_expense: "expense",
+	referral_expense: "expense",
+	adjustments: "equity",
+	opening_equity: "equity",
+};
+
+export const USER_BUCKETS: UserBalanceBucket[] = ["deposit", "interest", "bonus"];
+
+// The top-level deposit/interest/bonus fields on a user hold this currency; every other
+// currency lives in the user's `balances` lines.
+export const BASE_CURRENCY = "USD";
+
+export const SUPPORTED_CURRENCIES = (process.env.SUPPORTED_CURRENCIES || "USD,USDC,USDT,EUR,GBP")
+	.split(",")
+	.map((c) => c.trim().toUpperCase())
+	.filter(Boolean);
+
+export const normalizeCurrency = (currency?: string | null) => String(currency || BASE_CURRENCY).trim().toUpperCase();
+
+export const isSupportedCurrency = (currency: string) => SUPPORTED_CURRENCIES.includes(normalizeCurrency(currency));
+
+export interface PostingInput {
+	account: string;
+	debit?: number;
+	credit?: number;
+	memo?: string;
+}
+
+export interface JournalInput {
+	description: string;
+	referenceType: string;
+	transactionIds?: Array<string | mongoose.Types.ObjectId>;
+	postings: PostingInput[];
+	actor?: { userId?: string; email?: string };
+}
+
+export interface UserLedgerBalances {
+	currency: string;
+	deposit: number;
+	interest: number;
+	bonus: number;
+	totalBalance: number;
+}
+
+interface ParsedAccount {
+	owner: "user" | "system";
+	kind: LedgerAccountKind;
+	userId: string | null;
+	bucket: UserBalanceBucket | null;
+	name: string;
+	currency: string;
+}
+
+const formatMoney = (amount: number, currency: string) =>
+	currency === BASE_CURRENCY ? `$${amount.toFixed(2)}` : `${amount.toFixed(2)} ${currency}`;
+
+export class InsufficientFundsError extends Error {
+	available: number;
+	required: number;
+	currency: string;
+
+	constructor(available: number, required: number, currency = BASE_CURRENCY) {
+		super(
+			`Insufficient ${currency === BASE_CURRENCY ? "" : `${currency} `}balance. ` +
+				`Available: ${formatMoney(available, currency)}, Required: ${formatMoney(required, currency)}`,
+		);
+		this.name = "InsufficientFundsError";
+		this.available = available;
+		this.required = required;
+		this.currency = currency;
+	}
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+const emptyBuckets = (): Record<UserBalanceBucket, number> => ({ deposit: 0, interest: 0, bonus: 0 });
+
+export const userAccount = (userId: string | mongoose.Types.ObjectId, bucket: UserBalanceBucket, currency = "USD") =>
+	`user:${String(userId)}:${bucket}:${currency}`;
+
+export const systemAccount = (name: SystemAccountName, currency = "USD") => `system:${name}:${currency}`;
+
+function parseAccountCode(code: string): ParsedAccount {
+	const parts = code.split(":");
+	if (parts[0] === "user" && parts.length === 4 && USER_BUCKETS.includes(parts[2] as UserBalanceBucket)) {
+		return {
+			owner: "user",
+			kind: "liability",
+			userId: parts[1],
+			bucket: parts[2] as UserBalanceBucket,
+			name: `User ${parts[2]}`,
+			currency: parts[3],
+		};
+	}
+	if (parts[0] === "system" && parts.length === 3 && parts[1] in SYSTEM_ACCOUNT_KINDS) {
+		const name = parts[1] as SystemAccountName;
+		return { owner: "system", kind: SYSTEM_ACCOUNT_KINDS[name], userId: null, bucket: null, name, currency: parts[2] };
+	}
+	throw new Error(`Unknown ledger account: ${code}`);
+}
+
+// Debit-normal accounts grow with debits, everything else grows with credits
+const normalDelta = (kind: LedgerAccountKind, debitCents: number, creditCents: number) =>
+	kind === "asset" || kind === "expense" ? debitCents - creditCents : creditCents - debitCents;
+
+class LedgerService {
+	/**
+	 * The user's projected buckets in one currency
+	 */
+	bucketsFor(user: any, currency = BASE_CURRENCY): Record<UserBalanceBucket, number> {
+		const code = normalizeCurrency(currency);
+		if (code === BASE_CURRENCY) {
+			return { deposit: user?.deposit || 0, interest: user?.interest || 0, bonus: user?.bonus || 0 };
+		}
+		const line = (user?.balances || []).find((b: any) => b.currency === code);
+		return line ? { deposit: line.deposit || 0, interest: line.interest || 0, bonus: line.bonus || 0 } : emptyBuckets();
+	}
+
+	/**
+	 * Spendable balance in one currency as projected onto the user document by the ledger
+	 */
+	availableBalance(user: any, currency = BASE_CURRENCY): number {
+		const buckets = this.bucketsFor(user, currency);
+		return buckets.deposit + buckets.interest + buckets.bonus;
+	}
+
+	/**
+	 * Spendable balance read fresh from the user document
+	 */
+	async getAvailableBalance(
+		userId: string | mongoose.Types.ObjectId,
+		session?: ClientSession,
+		currency = BASE_CURRENCY,
+	): Promise<number> {
+		const user = await User.findById(userId).select("deposit interest bonus balances").session(session || null);
+		return this.availableBalance(user, currency);
+	}
+
+	/**
+	 * One line per currency the user holds, base currency first
+	 */
+	listBalances(user: any): Array<UserLedgerBalances> {
+		const currencies = [
+			BASE_CURRENCY,
+			...(user?.balances || []).map((b: any) => b.currency).filter((c: string) => c !== BASE_CURRENCY),
+		];
+		return currencies.map((currency) => {
+			const buckets = this.bucketsFor(user, currency);
+			return { currency, ...buckets, totalBalance: fromCents(toCents(this.availableBalance(user, currency))) };
+		});
+	}
+
+	/**
+	 * Build the user-side debit postings for spending `amount` in `currency`, draining buckets
+	 * in order (deposit first, then interest, then bonus unless restricted).
+	 */
+	spendPostings(
+		user: any,
+		amount: number,
+		options: { buckets?: UserBalanceBucket[]; memo?: string; currency?: string } = {},
+	): PostingInput[] {
+		const currency = normalizeCurrency(options.currency);
+		const held = this.bucketsFor(user, currency);
+		const buckets = options.buckets || USER_BUCKETS;
+		const available = buckets.reduce((sum, bucket) => sum + held[bucket], 0);
+		if (toCents(available) < toCents(amount)) {
+			throw new InsufficientFundsError(available, amount, currency);
+		}
+
+		let remaining = toCents(amount);
+		const postings: PostingInput[] = [];
+		for (const bucket of buckets) {
+			if (remaining <= 0) break;
+			const take = Math.min(remaining, toCents(held[bucket]));
+			if (take <= 0) continue;
+			postings.push({ account: userAccount(user._id, bucket, currency), debit: fromCents(take), memo: options.memo });
+			remaining -= take;
+		}
+		return postings;
+	}
+
+	/**
+	 * Post a balanced journal entry, update account balances and the user balance projection.
+	 * `project: false` records postings for balances the user document already holds (opening balances).
+	 * Pass the unit-of-work session so the entry commits or aborts with the rest of the movement.
+	 */
+	async post(
+		input: JournalInput,
+		options: { session?: ClientSession; project?: boolean } = {},
+	): Promise<IJournalEntry> {
+		const session = options.session;
+		// Zero-amount lines (e.g. a waived fee) are dropped rather than rejected
+		const lines = input.postings
+			.map((p) => ({ ...p, debit: toCents(p.debit || 0), credit: toCents(p.credit || 0) }))
+			.filter((p) => p.debit !== 0 || p.credit !== 0)
+			.map((p) => {
+				if (p.debit < 0 || p.credit < 0 || (p.debit > 0 && p.credit > 0)) {
+					throw new Error(`Posting to ${p.account} must have exactly one positive side`);
+				}
+				return { ...p, parsed: parseAccountCode(p.account) };
+			});
+
+		const totalDebit = lines.reduce((sum, l) => sum + l.debit, 0);
+		const totalCredit = lines.reduce((sum, l) => sum + l.credit, 0);
+		if (lines.length < 2 || totalDebit !== totalCredit) {
+			throw new Error(`Unbalanced journal entry: debits ${fromCents(totalDebit)} != credits ${fromCents(totalCredit)}`);
+		}
+
+		// Net movement per account
+		const net = new Map<string, { parsed: ParsedAccount; debit: number; credit: number }>();
+		for (const line of lines) {
+			const current = net.get(line.account) || { parsed: line.parsed, debit: 0, credit: 0 };
+			current.debit += line.debit;
+			current.credit += line.credit;
+			net.set(line.account, current);
+		}
+
+		// Apply user balance decrements first so an overdraft aborts before anything else moves
+		const userMovements = [...net.entries()]
+			.filter(([, m]) => m.parsed.owner === "user")
+			.map(([code, m]) => ({ code, ...m, delta: m.credit - m.debit }))
+			.sort((a, b) => a.delta - b.delta);
+
+		for (const movement of userMovements) {
+			if (movement.delta === 0 || options.project === false) continue;
+			await this.project(
+				movement.parsed.userId as string,
+				movement.parsed.bucket as UserBalanceBucket,
+				movement.parsed.currency,
+				movement.delta,
+				session,
+			);
+		}
+
+		for (const [code, movement] of net.entries()) {
+			const { parsed } = movement;
+			await LedgerAccount.updateOne(
+				{ code },
+				{
+					$setOnInsert: {
+						code,
+						kind: parsed.kind,
+						owner: parsed.owner,
+						userId: parsed.userId,
+						bucket: parsed.bucket,
+						name: parsed.name,
+						currency: parsed.currency,
+					},
+					$inc: { balance: fromCents(normalDelta(parsed.kind, movement.debit, movement.credit)) },
+				},
+				{ upsert: true, session },
+			);
+		}
+
+		const [entry] = await JournalEntry.create(
+			[
+				{
+					description: input.description,
+					reference: {
+						type: input.referenceType,
+						transactionIds: input.transactionIds || [],
+					},
+					postings: lines.map((l) => ({
+						account: l.account,
+						userId: l.parsed.userId,
+						debit: fromCents(l.debit),
+						credit: fromCents(l.credit),
+						currency: l.parsed.currency,
+						memo: l.memo || "",
+					})),
+					createdBy: {
+						userId: input.actor?.userId || null,
+						email: input.actor?.email || "",
+					},
+				},
+			],
+			{ session },
+		);
+		return entry;
+	}
+
+	/**
+	 * Apply one bucket movement (in cents) to the user document. Base-currency buckets are
+	 * top-level fields, other currencies are `balances` lines created on first credit.
+	 * Decrements are guarded so the bucket can never go negative.
+	 */
+	private async project(
+		userId: string,
+		bucket: UserBalanceBucket,
+		currency: string,
+		deltaCents: number,
+		session?: ClientSession,
+	): Promise<void> {
+		const amount = fromCents(deltaCents);
+		const guard = { $gte: fromCents(-deltaCents) - 0.000001 };
+
+		let matched: number;
+		if (currency === BASE_CURRENCY) {
+			const filter: Record<string, any> = { _id: userId };
+			if (deltaCents < 0) filter[bucket] = guard;
+			matched = (await User.updateOne(filter, { $inc: { [bucket]: amount } }, { session })).matchedCount;
+		} else {
+			const line: Record<string, any> = { currency };
+			if (deltaCents < 0) line[bucket] = guard;
+			matched = (
+				await User.updateOne(
+					{ _id: userId, balances: { $elemMatch: line } },
+					{ $inc: { [`balances.$.${bucket}`]: amount } },
+					{ session },
+				)
+			).matchedCount;
+			if (matched === 0 && deltaCents > 0) {
+				matched = (
+					await User.updateOne(
+						{ _id: userId, "balances.currency": { $ne: currency } },
+						{ $push: { balances: { currency, ...emptyBuckets(), [bucket]: amount } } },
+						{ session },
+					)
+				).matchedCount;
+			}
+		}
+
+		if (matched === 0) {
+			const current = await User.findById(userId).select("deposit interest bonus balances").session(session || null);
+			if (!current) throw new Error(`User ${userId} not found for ledger posting`);
+			throw new InsufficientFundsError(this.bucketsFor(current, currency)[bucket], fromCents(-deltaCents), currency);
+		}
+	}
+
+	/**
+	 * User balances per currency derived from postings rather than the projected user fields
+	 */
+	async getUserBalances(userId: string): Promise<UserLedgerBalances[]> {
+		const rows = await JournalEntry.aggregate([
+			{ $match: { "postings.userId": new mongoose.Types.ObjectId(userId) } },
+			{ $unwind: "$postings" },
+			{ $match: { "postings.userId": new mongoose.Types.ObjectId(userId) } },
+			{
+				$group: {
+					_id: "$postings.account",
+					credit: { $sum: "$postings.credit" },
+					debit: { $sum: "$postings.debit" },
+				},
+			},
+		]);
+
+		const byCurrency = new Map<string, UserLedgerBalances>();
+		byCurrency.set(BASE_CURRENCY, { currency: BASE_CURRENCY, ...emptyBuckets(), totalBalance: 0 });
+		for (const row of rows) {
+			const parsed = parseAccountCode(row._id);
+			if (!parsed.bucket) continue;
+			const balances = byCurrency.get(parsed.currency) || { currency: parsed.currency, ...emptyBuckets(), totalBalance: 0 };
+			balances[parsed.bucket] = fromCents(toCents(balances[parsed.bucket] + row.credit - row.debit));
+			byCurrency.set(parsed.currency, balances);
+		}
+		return [...byCurrency.values()].map((balances) => ({
+			...balances,
+			totalBalance: fromCents(toCents(balances.deposit + balances.interest + balances.bonus)),
+		}));
+	}
+
+	/**
+	 * Sum of debits and credits per account across the whole ledger
+	 */
+	async getTrialBalance() {
+		const rows = await JournalEntry.aggregate([
+			{ $unwind: "$postings" },
+			{
+				$group: {
+					_id: "$postings.account",
+					debit: { $sum: "$postings.debit" },
+					credit: { $sum: "$postings.credit" },
+				},
+			},
+			{ $sort: { _id: 1 } },
+		]);
+
+		const totals = rows.reduce(
+			(acc, row) => ({ debit: acc.debit + toCents(row.debit), credit: acc.credit + toCents(row.credit) }),
+			{ debit: 0, credit: 0 },
+		);
+
+		return {
+			accounts: rows.map((row) => ({ account: row._id, debit: row.debit, credit: row.credit })),
+			totalDebit: fromCents(totals.debit),
+			totalCredit: fromCents(totals.credit),
+			balanced: totals.debit === totals.credit,
+		};
+	}
+}
+
+export default new LedgerService();
@@ -0,0 +1,194 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import MetalPrice from "../models/metalPrice";
+import { METALS, Metal } from "../types/contract.types";
+
+export class MetalPriceError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "MetalPriceError";
+		this.status = status;
+	}
+}
+
+// What a provider returns: USD per troy ounce for the metals it knows
+export interface SpotPrices {
+	prices: Partial<Record<Metal, number>>;
+	source: string;
+}
+
+export interface MetalPriceProvider {
+	name: string;
+	fetchPrices(): Promise<SpotPrices>;
+}
+
+const METAL_INFO: Record<Metal, { displayName: string; symbol: string }> = {
+	gold: { displayName: "Gold", symbol: "XAU" },
+	silver: { displayName: "Silver", symbol: "XAG" },
+	platinum: { displayName: "Platinum", symbol: "XPT" },
+	palladium: { displayName: "Palladium", symbol: "XPD" },
+};
+
+// Entries kept per metal; hourly refreshes cover well over half a year
+const HISTORY_LIMIT = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const GRAMS_PER_TROY_OUNCE = 31.1034768;
+
+const validPrices = (raw: Record<string, unknown>) => {
+	const prices: Partial<Record<Metal, number>> = {};
+	for (const metal of METALS) {
+		const price = Number(raw?.[metal]);
+		if (Number.isFinite(price) && price > 0) prices[metal] = price;
+	}
+	return prices;
+};
+
+/**
+ * Reads prices from a JSON file ({ source?, prices: { gold, silver, ... } }) for offline use and
+ * development. METAL_PRICES_FILE overrides the bundled fixture.
+ */
+export class FileMetalPriceProvider implements MetalPriceProvider {
+	name = "file";
+
+	constructor(private file = process.env.METAL_PRICES_FILE || path.join(process.cwd(), "fixtures", "metalPrices.json")) {}
+
+	async fetchPrices(): Promise<SpotPrices> {
+		const data = JSON.parse(await fs.promises.readFile(this.file, "utf8"));
+		return { prices: validPrices(data.prices), source: String(data.source || `file:${path.basename(this.file)}`) };
+	}
+}
+
+/**
+ * metals-api.com compatible source. Rates come as ounces per USD, so the price is the inverse.
+ */
+export class MetalsApiPriceProvider implements MetalPriceProvider {
+	name = "metals-api";
+
+	constructor(
+		private url = process.env.METAL_PRICE_API_URL || "https://metals-api.com/api/latest",
+		private apiKey = process.env.METAL_PRICE_API_KEY || "",
+	) {}
+
+	async fetchPrices(): Promise<SpotPrices> {
+		if (!this.apiKey) throw new MetalPriceError(503, "METAL_PRICE_API_KEY is not configured");
+		const response = await axios.get(this.url, {
+			params: { access_key: this.apiKey, base: "USD", symbols: METALS.map((metal) => METAL_INFO[metal].symbol).join(",") },
+			timeout: 15000,
+		});
+		const rates = response.data?.rates || {};
+		if (response.data?.success === false || !Object.keys(rates).length) {
+			throw new MetalPriceError(502, `Metal price API error: ${response.data?.error?.info || "no rates returned"}`);
+		}
+		const perOunce: Record<string, number> = {};
+		for (const metal of METALS) {
+			const rate = Number(rates[METAL_INFO[metal].symbol]);
+			if (rate > 0) perOunce[metal] = 1 / rate;
+		}
+		return { prices: validPrices(perOunce), source: "metals-api" };
+	}
+}
+
+// Selected with METAL_PRICE_PROVIDER
+const PROVIDERS: Record<string, () => MetalPriceProvider> = {
+	file: () => new FileMetalPriceProvider(),
+	"metals-api": () => new MetalsApiPriceProvider(),
+};
+
+class MetalPriceService {
+	private provider: MetalPriceProvider | null = null;
+
+	/**
+	 * Replace the configured provider, e.g. with a fixture in scripts
+	 */
+	useProvider(provider: MetalPriceProvider) {
+		this.provider = provider;
+	}
+
+	private currentProvider() {
+		if (!this.provider) {
+			const name = process.env.METAL_PRICE_PROVIDER || "file";
+			const create = PROVIDERS[name];
+			if (!create) throw new MetalPriceError(500, `Unknown METAL_PRICE_PROVIDER "${name}"; use ${Object.keys(PROVIDERS).join(" or ")}`);
+			this.provider = create();
+		}
+		return this.provider;
+	}
+
+	/**
+	 * Fetch spot prices from the provider and store them with their change and history
+	 */
+	async refresh(now = new Date()) {
+		const provider = this.currentProvider();
+		const { prices, source } = await provider.fetchPrices();
+
+		const updated: Metal[] = [];
+		for (const metal of METALS) {
+			const price = prices[metal];
+			if (price === undefined) continue;
+			const current = await MetalPrice.findOne({ metal }).select("currentPrice");
+			const previous = current?.currentPrice;
+			const change = previous !== undefined ? price - previous : 0;
+
+			await MetalPrice.updateOne(
+				{ metal },
+				{
+					$set: {
+						...METAL_INFO[metal],
+						currentPrice: price,
+						previousPrice: previous,
+						change: +change.toFixed(4),
+						changePercent: previous ? +((change / previous) * 100).toFixed(4) : 0,
+						lastUpdated: now,
+						source,
+					},
+					$push: { historicalData: { $each: [{ date: now, price }], $slice: -HISTORY_LIMIT } },
+				},
+				{ upsert: true },
+			);
+			updated.push(metal);
+		}
+		return { provider: provider.name, source, updated };
+	}
+
+	/**
+	 * Latest stored price of every active metal, without history
+	 */
+	async latest() {
+		return MetalPrice.find({ isActive: true }).select("-historicalData").sort({ metal: 1 }).lean();
+	}
+
+	/**
+	 * Latest stored USD per troy ounce by metal; metals never fetched are missing
+	 */
+	async spotPrices(): Promise<Partial<Record<Metal, number>>> {
+		const rows = await MetalPrice.find({ isActive: true }).select("metal currentPrice").lean();
+		return Object.fromEntries(rows.map((row) => [row.metal, row.currentPrice]));
+	}
+
+	async priceOf(metal: Metal): Promise<number | null> {
+		const row = await MetalPrice.findOne({ metal, isActive: true }).select("currentPrice").lean();
+		return row ? row.currentPrice : null;
+	}
+
+	/**
+	 * Stored prices of a metal over the last `days`, oldest first
+	 */
+	async history(metal: string, days = 30) {
+		if (!(METALS as readonly string[]).includes(metal)) throw new MetalPriceError(400, `Unknown metal: ${metal}`);
+		const since = new Date(Date.now() - Math.max(1, Math.min(days, 365)) * DAY_MS);
+		const row = await MetalPrice.findOne({ metal }).lean();
+		if (!row) throw new MetalPriceError(404, `No prices stored for ${metal}`);
+		return {
+			metal,
+			currentPrice: row.currentPrice,
+			lastUpdated: row.lastUpdated,
+			history: row.historicalData.filter((point) => point.date >= since).map(({ date, price }) => ({ date, price })),
+		};
+	}
+}
+
+export default new MetalPriceService();
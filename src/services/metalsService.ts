@@ -0,0 +1,332 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { MetalProduct } from "../models/metalProduct";
+import { MetalOrder } from "../models/metalOrder";
+import { Transaction } from "../models/transaction";
+import { User } from "../models/user";
+import {
+	DELIVERY_PERIODS,
+	DELIVERY_STATUSES,
+	DeliveryPeriod,
+	DeliveryStatus,
+	METAL_OF_PRODUCT,
+	MetalHolding,
+	MetalOrderItem,
+	MetalOrderStatus,
+	Portfolio,
+} from "../types/contract.types";
+import ledgerService, { systemAccount } from "./ledgerService";
+import metalPriceService, { GRAMS_PER_TROY_OUNCE } from "./metalPriceService";
+import { maturityDate } from "./contractMaturityService";
+import { runInTransaction } from "../utils/unitOfWork";
+import { metalsDeliveryUpdate, metalsOrderPlaced } from "../utils/mailer";
+
+export class MetalsError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "MetalsError";
+		this.status = status;
+	}
+}
+
+// A quoted line: what ContractProduct describes plus the catalogue fields the order keeps
+export interface QuotedLine {
+	productId: mongoose.Types.ObjectId;
+	product: string;
+	name: string;
+	weight: string;
+	weightGrams: number;
+	purity: number;
+	price: number;
+	quantity: number;
+	deliveryPeriod: DeliveryPeriod;
+	percentage: number;
+	amount: number;
+	totalSum: number;
+}
+
+export interface MetalsQuote extends Omit<Portfolio, "products"> {
+	products: QuotedLine[];
+	currency: string;
+}
+
+const MAX_LINES = 20;
+const MAX_QUANTITY = 1000;
+
+// Orders below this total are refused
+const MINIMUM_ORDER_AMOUNT = () => Number(process.env.METALS_MINIMUM_ORDER_AMOUNT || 500);
+// Orders of at least METALS_PREMIUM_THRESHOLD get METALS_PREMIUM_DISCOUNT_PERCENT off
+const PREMIUM_THRESHOLD = () => Number(process.env.METALS_PREMIUM_THRESHOLD || 10000);
+const PREMIUM_DISCOUNT_PERCENT = () => Number(process.env.METALS_PREMIUM_DISCOUNT_PERCENT || 1.5);
+
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+/**
+ * When a line ordered at `from` with `period` is due: immediate lines are allocated straight away
+ */
+export const expectedDelivery = (period: DeliveryPeriod, from = new Date()) =>
+	period === "immediate" ? from : maturityDate(from, period) || from;
+
+const orderNumber = () =>
+	`MO-${new Date().toISOString().slice(0, 10).replace(/-/g, "")}-${crypto.randomBytes(3).toString("hex").toUpperCase()}`;
+
+class MetalsService {
+	/**
+	 * Price a portfolio at current catalogue prices. Large orders get the premium benefit, spread
+	 * over the lines in proportion to their amount so the line totals add up to `finalSum`.
+	 */
+	async quote(items: MetalOrderItem[]): Promise<MetalsQuote> {
+		if (!Array.isArray(items) || !items.length) throw new MetalsError(400, "Add at least one product");
+		if (items.length > MAX_LINES) throw new MetalsError(400, `An order takes at most ${MAX_LINES} lines`);
+
+		const ids = items.map((item) => String(item.productId));
+		if (!ids.every((id) => mongoose.isValidObjectId(id))) throw new MetalsError(400, "Invalid productId");
+		const catalogue = await MetalProduct.find({ _id: { $in: ids }, isActive: true });
+		const byId = new Map(catalogue.map((product) => [String(product._id), product]));
+
+		const lines = items.map((item) => {
+			const product = byId.get(String(item.productId));
+			if (!product) throw new MetalsError(404, `Product ${item.productId} is not available`);
+			const quantity = Number(item.quantity);
+			if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_QUANTITY) {
+				throw new MetalsError(400, `Quantity of ${product.name} must be a whole number from 1 to ${MAX_QUANTITY}`);
+			}
+			const deliveryPeriod = (item.deliveryPeriod || "immediate") as DeliveryPeriod;
+			if (!DELIVERY_PERIODS.includes(deliveryPeriod) || !product.deliveryPeriods.includes(deliveryPeriod)) {
+				throw new MetalsError(400, `${product.name} cannot be delivered in ${deliveryPeriod}`);
+			}
+			return { product, quantity, deliveryPeriod, amountCents: toCents(product.price) * quantity };
+		});
+
+		const tempCents = lines.reduce((sum, line) => sum + line.amountCents, 0);
+		const minimumOrderAmount = MINIMUM_ORDER_AMOUNT();
+		if (tempCents < toCents(minimumOrderAmount)) {
+			throw new MetalsError(400, `Minimum order amount is $${minimumOrderAmount}`);
+		}
+
+		const quantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+		const discountCents = tempCents >= toCents(PREMIUM_THRESHOLD()) ? Math.round((tempCents * PREMIUM_DISCOUNT_PERCENT()) / 100) : 0;
+
+		// Each line carries its share of the discount; the last line takes the rounding remainder
+		let discountLeft = discountCents;
+		const products = lines.map((line, index) => {
+			const share = index === lines.length - 1 ? discountLeft : Math.round((discountCents * line.amountCents) / tempCents);
+			discountLeft -= share;
+			return {
+				productId: line.product._id as mongoose.Types.ObjectId,
+				product: line.product.product,
+				name: line.product.name,
+				weight: line.product.weight,
+				weightGrams: line.product.weightGrams,
+				purity: line.product.purity,
+				price: line.product.price,
+				quantity: line.quantity,
+				deliveryPeriod: line.deliveryPeriod,
+				percentage: Math.round((line.amountCents / tempCents) * 10000) / 100,
+				amount: fromCents(line.amountCents),
+				totalSum: fromCents(line.amountCents - share),
+			};
+		});
+
+		return {
+			products,
+			tempSum: fromCents(tempCents),
+			finalSum: fromCents(tempCents - discountCents),
+			minimumOrderAmount,
+			premiumBenefit: discountCents ? { amount: fromCents(discountCents), quantity } : undefined,
+			currency: "USD",
+		};
+	}
+
+	/**
+	 * Price the portfolio, debit the user's balance and record the order in one unit of work.
+	 * The payment sits in vendor_payable until the dealer is settled.
+	 */
+	async checkout(userId: string, items: MetalOrderItem[], actor: { userId?: string; email?: string }) {
+		const quote = await this.quote(items);
+
+		const { order, transaction, user } = await runInTransaction(async (session) => {
+			const user = await User.findById(userId).session(session);
+			if (!user) throw new MetalsError(404, "User not found");
+
+			// Throws InsufficientFundsError before anything is written
+			const spend = ledgerService.spendPostings(user, quote.finalSum, { currency: quote.currency });
+
+			const orderId = new mongoose.Types.ObjectId();
+			const number = orderNumber();
+			const [transaction] = await Transaction.create(
+				[
+					{
+						type: "metals_order",
+						user: { id: user._id, email: user.email, name: user.username },
+						status: "completed",
+						amount: quote.finalSum * -1,
+						currency: quote.currency,
+						description: `Metals order ${number}`,
+						metadata: { metalsOrderId: String(orderId), orderNumber: number },
+					},
+				],
+				{ session },
+			);
+
+			await ledgerService.post(
+				{
+					description: `Metals order ${number}`,
+					referenceType: "metals_order",
+					transactionIds: [transaction._id],
+					postings: [...spend, { account: systemAccount("vendor_payable", quote.currency), credit: quote.finalSum }],
+					actor,
+				},
+				{ session },
+			);
+
+			const now = new Date();
+			const [order] = await MetalOrder.create(
+				[
+					{
+						_id: orderId,
+						orderNumber: number,
+						userId: user._id,
+						email: user.email,
+						products: quote.products.map((line) => ({
+							...line,
+							status: "scheduled",
+							expectedAt: expectedDelivery(line.deliveryPeriod, now),
+						})),
+						tempSum: quote.tempSum,
+						finalSum: quote.finalSum,
+						minimumOrderAmount: quote.minimumOrderAmount,
+						premiumBenefit: quote.premiumBenefit || { amount: 0, quantity: 0 },
+						currency: quote.currency,
+						transactionId: transaction._id,
+					},
+				],
+				{ session },
+			);
+			return { order, transaction, user };
+		});
+
+		await metalsOrderPlaced(user.email, user.fullName, order.orderNumber, order.finalSum, order.createdAt, order.products);
+		return { order, transaction };
+	}
+
+	/**
+	 * Move one order line forward (scheduled -> shipped -> delivered; scheduled lines may be
+	 * delivered directly, e.g. vault allocation) and email the owner.
+	 */
+	async updateDelivery(orderId: string, lineId: string, status: string, options: { trackingNumber?: string } = {}) {
+		if (!mongoose.isValidObjectId(orderId) || !mongoose.isValidObjectId(lineId)) {
+			throw new MetalsError(400, "Invalid order or line id");
+		}
+		const next = status as DeliveryStatus;
+		if (!DELIVERY_STATUSES.includes(next)) {
+			throw new MetalsError(400, `status must be one of ${DELIVERY_STATUSES.join(", ")}`);
+		}
+
+		const order = await MetalOrder.findById(orderId);
+		if (!order) throw new MetalsError(404, "Order not found");
+		const line = order.products.id(lineId);
+		if (!line) throw new MetalsError(404, "Order line not found");
+		if (DELIVERY_STATUSES.indexOf(next) <= DELIVERY_STATUSES.indexOf(line.status)) {
+			throw new MetalsError(409, `Line is already ${line.status}`);
+		}
+
+		const now = new Date();
+		line.status = next;
+		if (next === "shipped") line.shippedAt = now;
+		if (next === "delivered") line.deliveredAt = now;
+		if (options.trackingNumber) line.trackingNumber = String(options.trackingNumber).slice(0, 100);
+		order.status = this.statusOf(order.products);
+		await order.save();
+
+		const user = await User.findById(order.userId).select("email fullName");
+		if (user) {
+			await metalsDeliveryUpdate(user.email, user.fullName, order.orderNumber, {
+				name: line.name,
+				quantity: line.quantity,
+				status: line.status,
+				trackingNumber: line.trackingNumber,
+			});
+		}
+		return order;
+	}
+
+	/**
+	 * What a user holds per catalogue product across their orders. Metal content is valued at the
+	 * latest stored spot price; without one, at the current catalogue price (or the price paid when
+	 * the product has left the catalogue).
+	 */
+	async holdings(userId: string) {
+		const rows = await MetalOrder.aggregate([
+			{ $match: { userId: new mongoose.Types.ObjectId(userId) } },
+			{ $unwind: "$products" },
+			{
+				$group: {
+					_id: "$products.productId",
+					product: { $first: "$products.product" },
+					name: { $first: "$products.name" },
+					weight: { $first: "$products.weight" },
+					lastPrice: { $last: "$products.price" },
+					quantity: { $sum: "$products.quantity" },
+					deliveredQuantity: {
+						$sum: { $cond: [{ $eq: ["$products.status", "delivered"] }, "$products.quantity", 0] },
+					},
+					weightGrams: { $sum: { $multiply: ["$products.weightGrams", "$products.quantity"] } },
+					fineGrams: {
+						$sum: {
+							$multiply: ["$products.weightGrams", "$products.quantity", { $ifNull: ["$products.purity", 0.999] }],
+						},
+					},
+					cost: { $sum: "$products.totalSum" },
+				},
+			},
+			{ $sort: { product: 1, weightGrams: -1 } },
+		]);
+
+		const spot = await metalPriceService.spotPrices();
+		const prices = new Map(
+			(await MetalProduct.find({ _id: { $in: rows.map((row) => row._id) } }).select("price")).map((product) => [
+				String(product._id),
+				product.price,
+			]),
+		);
+
+		const holdings: MetalHolding[] = rows.map((row) => {
+			const fineOunces = row.fineGrams / GRAMS_PER_TROY_OUNCE;
+			const spotPrice = spot[METAL_OF_PRODUCT[row.product as keyof typeof METAL_OF_PRODUCT]];
+			const value = spotPrice ? fineOunces * spotPrice : (prices.get(String(row._id)) ?? row.lastPrice) * row.quantity;
+			return {
+				productId: String(row._id),
+				product: row.product,
+				name: row.name,
+				weight: row.weight,
+				quantity: row.quantity,
+				deliveredQuantity: row.deliveredQuantity,
+				pendingQuantity: row.quantity - row.deliveredQuantity,
+				weightGrams: +row.weightGrams.toFixed(2),
+				fineOunces: +fineOunces.toFixed(4),
+				cost: +row.cost.toFixed(2),
+				value: +value.toFixed(2),
+			};
+		});
+
+		const cost = holdings.reduce((sum, holding) => sum + holding.cost, 0);
+		const value = holdings.reduce((sum, holding) => sum + holding.value, 0);
+		return {
+			holdings,
+			totals: { cost: +cost.toFixed(2), value: +value.toFixed(2), gain: +(value - cost).toFixed(2) },
+			spotPrices: spot,
+		};
+	}
+
+	private statusOf(lines: { status: DeliveryStatus }[]): MetalOrderStatus {
+		const delivered = lines.filter((line) => line.status === "delivered").length;
+		if (delivered === lines.length) return "delivered";
+		return delivered ? "partially_delivered" : "processing";
+	}
+}
+
+export default new MetalsService();
@@ -0,0 +1,233 @@
+import { PaymentRequest, IPaymentRequest } from "../models/paymentRequest";
+import { User } from "../models/user";
+import transferService from "./transferService";
+import { isSupportedCurrency, normalizeCurrency } from "./ledgerService";
+import { runInTransaction, UnitOfWorkError } from "../utils/unitOfWork";
+import { logAudit } from "../utils/auditLogger";
+import { paymentRequestReceived, paymentRequestReminder, paymentRequestResolved } from "../utils/mailer";
+
+export class PaymentRequestError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "PaymentRequestError";
+		this.status = status;
+	}
+}
+
+export interface CreatePaymentRequestInput {
+	payerId?: string;
+	payerEmail?: string;
+	amount: number;
+	currency?: string;
+	memo?: string;
+	expiresInDays?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EXPIRY_DAYS = () => Number(process.env.PAYMENT_REQUEST_EXPIRY_DAYS || 7);
+const MAX_EXPIRY_DAYS = 30;
+const REMINDER_INTERVAL_MS = () => Number(process.env.PAYMENT_REQUEST_REMINDER_HOURS || 48) * 60 * 60 * 1000;
+const MAX_REMINDERS = () => Math.max(0, parseInt(process.env.PAYMENT_REQUEST_MAX_REMINDERS || "2", 10));
+
+const fullName = (user: { firstName?: string; lastName?: string; email?: string }) =>
+	`${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email || "";
+
+class PaymentRequestService {
+	async create(requesterId: string, input: CreatePaymentRequestInput, now = new Date()) {
+		const amount = Number(input.amount);
+		if (!Number.isFinite(amount) || amount <= 0) throw new PaymentRequestError(400, "Invalid amount");
+		const currency = normalizeCurrency(input.currency);
+		if (!isSupportedCurrency(currency)) throw new PaymentRequestError(400, `Unsupported currency: ${currency}`);
+
+		const expiresInDays = input.expiresInDays === undefined ? DEFAULT_EXPIRY_DAYS() : Number(input.expiresInDays);
+		if (!Number.isFinite(expiresInDays) || expiresInDays <= 0 || expiresInDays > MAX_EXPIRY_DAYS) {
+			throw new PaymentRequestError(400, `expiresInDays must be between 1 and ${MAX_EXPIRY_DAYS}`);
+		}
+
+		const requester = await User.findById(requesterId).select("email firstName lastName");
+		if (!requester) throw new PaymentRequestError(404, "User not found");
+		const payer = input.payerId
+			? await User.findById(input.payerId).select("email firstName lastName")
+			: await User.findOne({ email: String(input.payerEmail || "").toLowerCase().trim() }).select("email firstName lastName");
+		if (!payer) throw new PaymentRequestError(404, "Payer not found");
+		if (String(payer._id) === String(requester._id)) throw new PaymentRequestError(400, "Cannot request money from yourself");
+
+		const request = await PaymentRequest.create({
+			requesterId: requester._id,
+			requesterEmail: requester.email,
+			payerId: payer._id,
+			payerEmail: payer.email,
+			amount,
+			currency,
+			memo: input.memo || "",
+			expiresAt: new Date(now.getTime() + expiresInDays * DAY_MS),
+		});
+
+		await paymentRequestReceived(payer.email, fullName(payer), fullName(requester), amount, currency, request.memo, request.expiresAt);
+		return request;
+	}
+
+	/**
+	 * Pay a pending request with an internal transfer from the payer to the requester. The status
+	 * flip and the transfer share one unit of work, so a request is paid at most once.
+	 */
+	async approve(request: IPaymentRequest, actor?: { userId?: string; email?: string }, now = new Date()) {
+		const result = await runInTransaction(async (session) => {
+			const claimed = await PaymentRequest.findOneAndUpdate(
+				{ _id: request._id, status: "pending", expiresAt: { $gt: now } },
+				{ $set: { status: "paid", respondedAt: now } },
+				{ session, new: true },
+			);
+			if (!claimed) throw new UnitOfWorkError(409, "Payment request is no longer pending");
+
+			const transfer = await transferService.internalTransfer(
+				{
+					fromUserId: String(claimed.payerId),
+					toUserId: String(claimed.requesterId),
+					amount: claimed.amount,
+					currency: claimed.currency,
+					memo: claimed.memo || undefined,
+					actor,
+					metadata: { paymentRequestId: String(claimed._id) },
+				},
+				session,
+			);
+
+			claimed.transactionIds = transfer.transactions.map((txn) => txn._id);
+			await claimed.save({ session });
+			return { request: claimed, transfer };
+		});
+
+		const { fromUser, toUser } = result.transfer;
+		await paymentRequestResolved(
+			toUser.email,
+			fullName(toUser),
+			fullName(fromUser),
+			result.request.amount,
+			result.request.currency,
+			"paid",
+		);
+		return result;
+	}
+
+	async decline(request: IPaymentRequest, reason = "", now = new Date()) {
+		const declined = await PaymentRequest.findOneAndUpdate(
+			{ _id: request._id, status: "pending" },
+			{ $set: { status: "declined", respondedAt: now, declineReason: reason } },
+			{ new: true },
+		);
+		if (!declined) throw new PaymentRequestError(409, "Payment request is no longer pending");
+
+		const [requester, payer] = await Promise.all([
+			User.findById(declined.requesterId).select("email firstName lastName"),
+			User.findById(declined.payerId).select("email firstName lastName"),
+		]);
+		if (requester) {
+			await paymentRequestResolved(
+				requester.email,
+				fullName(requester),
+				payer ? fullName(payer) : declined.payerEmail,
+				declined.amount,
+				declined.currency,
+				"declined",
+				reason,
+			);
+		}
+		return declined;
+	}
+
+	async cancel(request: IPaymentRequest, now = new Date()) {
+		const cancelled = await PaymentRequest.findOneAndUpdate(
+			{ _id: request._id, status: "pending" },
+			{ $set: { status: "cancelled", respondedAt: now } },
+			{ new: true },
+		);
+		if (!cancelled) throw new PaymentRequestError(409, "Payment request is no longer pending");
+		return cancelled;
+	}
+
+	/**
+	 * Background pass: expire overdue requests (telling the requester) and remind payers of
+	 * requests that have been waiting longer than PAYMENT_REQUEST_REMINDER_HOURS.
+	 */
+	async runMaintenance(now = new Date()) {
+		let expired = 0;
+		const overdue = await PaymentRequest.find({ status: "pending", expiresAt: { $lte: now } }).limit(500);
+		for (const request of overdue) {
+			const updated = await PaymentRequest.findOneAndUpdate(
+				{ _id: request._id, status: "pending" },
+				{ $set: { status: "expired", respondedAt: now } },
+				{ new: true },
+			);
+			if (!updated) continue;
+			expired++;
+
+			await logAudit({
+				action: "PAYMENT_REQUEST_EXPIRED",
+				target: {
+					entityType: "payment_request",
+					entityId: String(updated._id),
+					userId: String(updated.requesterId),
+					email: updated.requesterEmail,
+				},
+				before: { status: "pending" },
+				after: { status: "expired" },
+				success: true,
+				message: "Payment request expired",
+			});
+			const requester = await User.findById(updated.requesterId).select("email firstName lastName");
+			if (requester) {
+				await paymentRequestResolved(
+					requester.email,
+					fullName(requester),
+					updated.payerEmail,
+					updated.amount,
+					updated.currency,
+					"expired",
+				);
+			}
+		}
+
+		let reminded = 0;
+		const interval = REMINDER_INTERVAL_MS();
+		const cutoff = new Date(now.getTime() - interval);
+		const waiting = await PaymentRequest.find({
+			status: "pending",
+			expiresAt: { $gt: now },
+			createdAt: { $lte: cutoff },
+			remindersSent: { $lt: MAX_REMINDERS() },
+			$or: [{ lastReminderAt: null }, { lastReminderAt: { $lte: cutoff } }],
+		}).limit(500);
+		for (const request of waiting) {
+			// Claim the reminder first so a concurrent run cannot send it twice
+			const claimed = await PaymentRequest.findOneAndUpdate(
+				{ _id: request._id, status: "pending", remindersSent: request.remindersSent },
+				{ $inc: { remindersSent: 1 }, $set: { lastReminderAt: now } },
+				{ new: true },
+			);
+			if (!claimed) continue;
+
+			const [requester, payer] = await Promise.all([
+				User.findById(claimed.requesterId).select("email firstName lastName"),
+				User.findById(claimed.payerId).select("email firstName lastName"),
+			]);
+			if (!requester || !payer) continue;
+			await paymentRequestReminder(
+				payer.email,
+				fullName(payer),
+				fullName(requester),
+				claimed.amount,
+				claimed.currency,
+				claimed.memo,
+				claimed.expiresAt,
+			);
+			reminded++;
+		}
+
+		return { expired, reminded };
+	}
+}
+
+export default new PaymentRequestService();
@@ -1,5 +1,6 @@
 import NOWPaymentsService from "./nowPaymentsService";
-import { Transaction } from "../models/transaction";
+import { Transaction, TransactionTypes } from "../models/transaction";
+import { TransactionStatus } from "../types/transaction.types";
 
 interface CreatePayoutResponse {
 	success: boolean;
@@ -229,7 +230,8 @@ export class PayoutOrchestrator {
 
 			// Update transaction status
 			try {
-				await Transaction.findByIdAndUpdate(transactionId, {
+				// Payout fields only exist on the withdrawal discriminator
+				await TransactionTypes.withdrawal.findByIdAndUpdate(transactionId, {
 					status: "failed",
 					payoutError: `Processing error: ${error.message}`,
 				});
@@ -411,7 +413,7 @@ export class PayoutOrchestrator {
 	}
 
 	// Helper method
-	private mapNOWPaymentsStatus(status: string): string {
+	private mapNOWPaymentsStatus(status: string): TransactionStatus {
 		switch (status.toLowerCase()) {
 			case "waiting":
 			case "confirming":
@@ -0,0 +1,140 @@
+import mongoose from "mongoose";
+import { Plan } from "../models/plan";
+import { Transaction, TransactionTypes } from "../models/transaction";
+
+export class PlanError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "PlanError";
+		this.status = status;
+	}
+}
+
+// Fields an admin may set on a plan; roi, minAmount and duration are derived from them
+export const PLAN_FIELDS = [
+	"name",
+	"tier",
+	"description",
+	"minContract",
+	"maxContract",
+	"dailyReturn",
+	"planDuration",
+	"goldBacking",
+	"withdrawalLimit",
+	"features",
+	"color",
+	"isActive",
+	"earlyTerminationPenalty",
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Withdrawals that still count against the limit; rejected and failed ones released their funds
+const LIMITED_TYPES = ["withdrawal", "crypto_withdrawal", "external_transfer"];
+const RELEASED_STATUSES = ["rejected", "failed"];
+
+class PlanService {
+	/**
+	 * Create a plan from an admin request body. Validation errors become 400s.
+	 */
+	async create(body: Record<string, any>) {
+		const plan = new Plan({ ...this.pick(body), isActive: body.isActive ?? true });
+		await this.save(plan);
+		return plan;
+	}
+
+	/**
+	 * Apply the fields present in `body` to a plan. Loads and saves the document so the derived
+	 * fields and cross-field validation run, which findByIdAndUpdate would skip.
+	 */
+	async update(id: string, body: Record<string, any>) {
+		if (!mongoose.isValidObjectId(id)) throw new PlanError(400, "Invalid plan id");
+		const plan = await Plan.findById(id);
+		if (!plan) throw new PlanError(404, "Plan not found");
+
+		plan.set(this.pick(body));
+		await this.save(plan);
+		return plan;
+	}
+
+	/**
+	 * Reject contract amounts outside the plan's bounds
+	 */
+	checkAmount(plan: any, amount: number) {
+		const min = plan.minContract ?? plan.minAmount ?? 0;
+		if (!Number.isFinite(amount) || amount < min) {
+			throw new PlanError(400, `Minimum amount is $${min}`);
+		}
+		if (plan.maxContract !== null && plan.maxContract !== undefined && amount > plan.maxContract) {
+			throw new PlanError(400, `Maximum amount for ${plan.name} is $${plan.maxContract}`);
+		}
+	}
+
+	/**
+	 * The withdrawal limit per 24 hours that applies to a user, or null when none does. A user with
+	 * active contracts on several plans gets the most generous limit; a plan without a limit lifts it.
+	 */
+	async withdrawalLimitFor(userId: string | mongoose.Types.ObjectId, session?: mongoose.ClientSession) {
+		const planIds = await TransactionTypes.contract.distinct("planData.planId", {
+			"user.id": userId,
+			status: "active",
+		}).session(session || null);
+		if (!planIds.length) return null;
+
+		const plans = await Plan.find({ _id: { $in: planIds } })
+			.select("withdrawalLimit")
+			.session(session || null);
+		if (!plans.length || plans.some((plan) => !plan.withdrawalLimit)) return null;
+		return Math.max(...plans.map((plan) => plan.withdrawalLimit));
+	}
+
+	/**
+	 * Throw when withdrawing `amount` would take the user past their plan's limit for the last 24 hours
+	 */
+	async checkWithdrawal(userId: string | mongoose.Types.ObjectId, amount: number, session?: mongoose.ClientSession) {
+		const limit = await this.withdrawalLimitFor(userId, session);
+		if (limit === null) return;
+
+		const [recent] = await Transaction.aggregate([
+			{
+				$match: {
+					"user.id": new mongoose.Types.ObjectId(String(userId)),
+					type: { $in: LIMITED_TYPES },
+					status: { $nin: RELEASED_STATUSES },
+					date: { $gte: new Date(Date.now() - DAY_MS) },
+				},
+			},
+			// Crypto withdrawals and external transfers are stored as negative amounts
+			{ $group: { _id: null, total: { $sum: { $abs: "$amount" } } } },
+		]).session(session || null);
+
+		const used = recent?.total || 0;
+		if (used + Math.abs(amount) > limit) {
+			const left = Math.max(0, Math.round((limit - used) * 100) / 100);
+			throw new PlanError(400, `Withdrawal exceeds your plan's limit of $${limit} per 24 hours; $${left} remaining`);
+		}
+	}
+
+	private pick(body: Record<string, any>) {
+		const fields: Record<string, any> = {};
+		for (const field of PLAN_FIELDS) {
+			if (body[field] !== undefined) fields[field] = body[field];
+		}
+		return fields;
+	}
+
+	private async save(plan: any) {
+		try {
+			await plan.save();
+		} catch (error) {
+			if (error instanceof mongoose.Error.ValidationError) {
+				throw new PlanError(400, Object.values(error.errors).map((e) => e.message).join("; "));
+			}
+			throw error;
+		}
+	}
+}
+
+export default new PlanService();
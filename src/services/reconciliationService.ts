@@ -0,0 +1,162 @@
+import { Transaction } from "../models/transaction";
+import { User } from "../models/user";
+import { JournalEntry, UserBalanceBucket } from "../models/ledger";
+import {
+	ReconciliationReport,
+	IReconciliationReport,
+	IReconciliationMismatch,
+	ReconciliationField,
+} from "../models/reconciliationReport";
+import ledgerService, { BASE_CURRENCY, USER_BUCKETS } from "./ledgerService";
+import { balanceEffectOf } from "../utils/transactionEffects";
+
+type Buckets = Record<UserBalanceBucket, number>;
+
+interface UserReconciliation {
+	mismatches: Omit<IReconciliationMismatch, "userId" | "email">[];
+	transactionsReplayed: number;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+const emptyBuckets = (): Buckets => ({ deposit: 0, interest: 0, bonus: 0 });
+
+class ReconciliationService {
+	private get tolerance(): number {
+		return Number(process.env.RECONCILIATION_TOLERANCE) || 0.01;
+	}
+
+	/**
+	 * Balances posted by scripts/openLedgerBalances.ts, in cents per currency, and when they were posted.
+	 * Transactions older than the opening entry are already included in it.
+	 */
+	private async openingBalances(userId: string) {
+		const entries = await JournalEntry.find({ "reference.type": "opening_balance", "postings.userId": userId })
+			.select("postings postedAt")
+			.lean();
+
+		const balances = new Map<string, Buckets>();
+		let openedAt: Date | null = null;
+		for (const entry of entries) {
+			if (!openedAt || entry.postedAt > openedAt) openedAt = entry.postedAt;
+			for (const posting of entry.postings) {
+				if (String(posting.userId) !== userId) continue;
+				const bucket = posting.account.split(":")[2] as UserBalanceBucket;
+				if (!USER_BUCKETS.includes(bucket)) continue;
+				const line = balances.get(posting.currency) || emptyBuckets();
+				line[bucket] += toCents(posting.credit) - toCents(posting.debit);
+				balances.set(posting.currency, line);
+			}
+		}
+		return { balances, openedAt };
+	}
+
+	/**
+	 * Replay a user's transactions oldest first and compare the result with the stored balances
+	 */
+	async reconcileUser(user: any): Promise<UserReconciliation> {
+		const userId = String(user._id);
+		const { balances: expected, openedAt } = await this.openingBalances(userId);
+		const transactions = await Transaction.find({ "user.id": user._id }).sort({ date: 1, createdAt: 1 }).lean();
+
+		let withdrawCents = 0;
+		let transactionsReplayed = 0;
+		for (const txn of transactions) {
+			const effect = balanceEffectOf(txn);
+			if (!effect) continue;
+			transactionsReplayed++;
+
+			// The withdrawn counter is lifetime and never part of the opening entry
+			withdrawCents += toCents(effect.withdraw);
+			if (openedAt && (txn as any).createdAt && (txn as any).createdAt <= openedAt) continue;
+
+			const line = expected.get(effect.currency) || emptyBuckets();
+			for (const [bucket, delta] of Object.entries(effect.deltas)) {
+				line[bucket as UserBalanceBucket] += toCents(delta || 0);
+			}
+			if (effect.spend) {
+				let remaining = toCents(effect.spend.amount);
+				for (const bucket of effect.spend.buckets) {
+					const take = Math.min(remaining, Math.max(0, line[bucket]));
+					line[bucket] -= take;
+					remaining -= take;
+				}
+				// An overdraft the live code would have refused shows up as a negative first bucket
+				if (remaining > 0) line[effect.spend.buckets[0]] -= remaining;
+			}
+			expected.set(effect.currency, line);
+		}
+
+		const actualLines = ledgerService.listBalances(user);
+		const currencies = new Set([...expected.keys(), ...actualLines.map((line) => line.currency)]);
+		const mismatches: UserReconciliation["mismatches"] = [];
+		const compare = (currency: string, field: ReconciliationField, expectedCents: number, actual: number) => {
+			const difference = fromCents(toCents(actual) - expectedCents);
+			if (Math.abs(difference) > this.tolerance) {
+				mismatches.push({ currency, field, expected: fromCents(expectedCents), actual, difference });
+			}
+		};
+
+		for (const currency of currencies) {
+			const line = expected.get(currency) || emptyBuckets();
+			const actual = ledgerService.bucketsFor(user, currency);
+			for (const bucket of USER_BUCKETS) {
+				compare(currency, bucket, line[bucket], actual[bucket]);
+			}
+		}
+		compare(BASE_CURRENCY, "withdraw", withdrawCents, user.withdraw || 0);
+
+		return { mismatches, transactionsReplayed };
+	}
+
+	/**
+	 * Reconcile every user and store the report. Per-user failures are logged and skipped.
+	 */
+	async run(
+		options: { trigger?: IReconciliationReport["trigger"]; actor?: { userId?: string; email?: string } } = {},
+	): Promise<IReconciliationReport> {
+		const report = await ReconciliationReport.create({
+			trigger: options.trigger || "manual",
+			tolerance: this.tolerance,
+			createdBy: { userId: options.actor?.userId || null, email: options.actor?.email || "" },
+		});
+
+		try {
+			const mismatches: IReconciliationMismatch[] = [];
+			let usersChecked = 0;
+			let usersWithDrift = 0;
+			let transactionsReplayed = 0;
+
+			const cursor = User.find({}).select("email deposit interest bonus withdraw balances").cursor();
+			for await (const user of cursor) {
+				try {
+					const result = await this.reconcileUser(user);
+					usersChecked++;
+					transactionsReplayed += result.transactionsReplayed;
+					if (result.mismatches.length) {
+						usersWithDrift++;
+						mismatches.push(...result.mismatches.map((m) => ({ ...m, userId: user._id as any, email: user.email })));
+					}
+				} catch (error: any) {
+					console.error(`Reconciliation failed for ${user.email}:`, error.message);
+				}
+			}
+
+			report.set({
+				status: "completed",
+				finishedAt: new Date(),
+				usersChecked,
+				usersWithDrift,
+				transactionsReplayed,
+				mismatches,
+			});
+		} catch (error: any) {
+			report.set({ status: "failed", finishedAt: new Date(), error: error.message || String(error) });
+		}
+
+		await report.save();
+		return report;
+	}
+}
+
+export default new ReconciliationService();
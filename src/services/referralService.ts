@@ -0,0 +1,367 @@
+import crypto from "crypto";
+import mongoose, { ClientSession } from "mongoose";
+import { User } from "../models/user";
+import { Transaction } from "../models/transaction";
+import { ReferralCommission, ReferralSettings } from "../models/referral";
+import ledgerService, { systemAccount, userAccount } from "./ledgerService";
+
+export class ReferralError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "ReferralError";
+		this.status = status;
+	}
+}
+
+export interface ReferralRules {
+	levels: number[];
+	perCommissionCap: number;
+	perReferrerCap: number;
+	firstDepositOnly: boolean;
+	requireKycApproved: boolean;
+	minDepositAmount: number;
+}
+
+export interface PaidCommission {
+	referrer: any;
+	level: number;
+	amount: number;
+}
+
+const MAX_LEVELS = 5;
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+const envFlag = (name: string, fallback: boolean) =>
+	process.env[name] === undefined ? fallback : !["false", "0", "no"].includes(String(process.env[name]).toLowerCase());
+
+// Rules used until an admin saves settings; REFERRAL_LEVEL_RATES is a comma list, e.g. "5,2,1"
+const DEFAULT_RULES = (): ReferralRules => ({
+	levels: String(process.env.REFERRAL_LEVEL_RATES || "5")
+		.split(",")
+		.map(Number)
+		.filter((rate) => Number.isFinite(rate) && rate >= 0)
+		.slice(0, MAX_LEVELS),
+	perCommissionCap: Number(process.env.REFERRAL_COMMISSION_CAP) || 0,
+	perReferrerCap: Number(process.env.REFERRAL_REFERRER_CAP) || 0,
+	firstDepositOnly: envFlag("REFERRAL_FIRST_DEPOSIT_ONLY", true),
+	requireKycApproved: envFlag("REFERRAL_REQUIRE_KYC", true),
+	minDepositAmount: Number(process.env.REFERRAL_MIN_DEPOSIT) || 0,
+});
+
+const newCode = () =>
+	Array.from(crypto.randomBytes(CODE_LENGTH), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+
+class ReferralService {
+	/**
+	 * Program rules in force: the saved settings, or the env defaults
+	 */
+	async rules(): Promise<ReferralRules & { source: "settings" | "default" }> {
+		const saved = await ReferralSettings.findOne({ key: "default" }).lean();
+		if (!saved) return { ...DEFAULT_RULES(), source: "default" };
+		return {
+			levels: saved.levels,
+			perCommissionCap: saved.perCommissionCap,
+			perReferrerCap: saved.perReferrerCap,
+			firstDepositOnly: saved.firstDepositOnly,
+			requireKycApproved: saved.requireKycApproved,
+			minDepositAmount: saved.minDepositAmount,
+			source: "settings",
+		};
+	}
+
+	/**
+	 * Save program rules (admin). Fields left out keep their current value.
+	 */
+	async updateRules(input: Partial<ReferralRules>, actor: { userId?: string; email?: string }) {
+		const { source, ...current } = await this.rules();
+		const next = { ...current, ...input };
+		if (!Array.isArray(next.levels) || !next.levels.length || next.levels.length > MAX_LEVELS) {
+			throw new ReferralError(400, `levels must list 1 to ${MAX_LEVELS} commission rates`);
+		}
+		if (next.levels.some((rate) => !Number.isFinite(rate) || rate < 0 || rate > 100)) {
+			throw new ReferralError(400, "Commission rates must be between 0 and 100");
+		}
+
+		await ReferralSettings.findOneAndUpdate(
+			{ key: "default" },
+			{ ...next, updatedBy: { userId: actor.userId || null, email: actor.email || "" } },
+			{ upsert: true, new: true, runValidators: true },
+		);
+		return this.rules();
+	}
+
+	/**
+	 * The user's own referral code, created on first use
+	 */
+	async codeFor(userId: string | mongoose.Types.ObjectId): Promise<string> {
+		const user = await User.findById(userId).select("referralCode");
+		if (!user) throw new ReferralError(404, "User not found");
+		if (user.referralCode) return user.referralCode;
+
+		for (let attempt = 0; attempt < 5; attempt++) {
+			const code = newCode();
+			try {
+				// Conditional so two concurrent first calls settle on one code
+				const updated = await User.findOneAndUpdate(
+					{ _id: userId, referralCode: { $exists: false } },
+					{ $set: { referralCode: code } },
+					{ new: true },
+				).select("referralCode");
+				if (updated?.referralCode) return updated.referralCode;
+				const current = await User.findById(userId).select("referralCode");
+				if (current?.referralCode) return current.referralCode;
+			} catch (error: any) {
+				// Code taken by someone else; try another
+				if (error?.code !== 11000) throw error;
+			}
+		}
+		throw new ReferralError(500, "Failed to generate a unique referral code");
+	}
+
+	/**
+	 * The user a code refers to: a referral code, or, for codes handed out before they existed,
+	 * a username or user id
+	 */
+	async resolve(code: string, session?: ClientSession) {
+		const value = String(code || "").trim();
+		if (!value) return null;
+		const conditions: Record<string, unknown>[] = [{ referralCode: value.toUpperCase() }, { username: value }];
+		if (mongoose.isValidObjectId(value)) conditions.push({ _id: value });
+		return User.findOne({ $or: conditions }).session(session || null);
+	}
+
+	/**
+	 * Referral fields for a user signing up with `code`; unknown codes are dropped
+	 */
+	async referralFor(code: string) {
+		const referrer = await this.resolve(code);
+		if (!referrer) return { code: "", status: "none" as const, referrerId: null };
+		return { code: String(code).trim(), status: "pending" as const, referrerId: referrer._id };
+	}
+
+	/**
+	 * Pay commission up the referral chain for an approved deposit of `user`, inside the deposit's
+	 * unit of work. A deposit qualifies when the rules allow it (first qualifying deposit only, KYC
+	 * approved, minimum amount); the referral then moves from pending to claimed. Each level's
+	 * referrer earns its rate of the deposit, within the per-commission and per-referrer caps.
+	 */
+	async payDepositCommissions(
+		user: any,
+		deposit: any,
+		session: ClientSession,
+		actor: { userId?: string; email?: string },
+	): Promise<PaidCommission[]> {
+		const referral = user.referral;
+		if (!referral || referral.status === "none") return [];
+
+		const rules = await this.rules();
+		const amount = Number(deposit.amount) || 0;
+		if (rules.firstDepositOnly && referral.status === "claimed") return [];
+		if (amount <= 0 || amount < rules.minDepositAmount) return [];
+		if (rules.requireKycApproved && user.kycStatus !== "approved") return [];
+
+		const paid: PaidCommission[] = [];
+		const seen = new Set<string>([String(user._id)]);
+		let referrer = referral.referrerId
+			? await User.findById(referral.referrerId).session(session)
+			: await this.resolve(referral.code, session);
+		if (referrer) referral.referrerId = referrer._id;
+
+		for (let level = 1; level <= rules.levels.length && referrer && !seen.has(String(referrer._id)); level++) {
+			seen.add(String(referrer._id));
+			const commission = await this.payCommission(referrer, user, deposit, level, rules, session, actor);
+			if (commission) paid.push(commission);
+
+			const next: any = referrer.referral;
+			if (!next || next.status === "none") break;
+			referrer = next.referrerId ? await User.findById(next.referrerId).session(session) : await this.resolve(next.code, session);
+		}
+
+		referral.status = "claimed";
+		referral.claimedAt = new Date();
+		await User.updateOne(
+			{ _id: user._id },
+			{ $set: { "referral.status": "claimed", "referral.claimedAt": referral.claimedAt, "referral.referrerId": referral.referrerId || null } },
+			{ session },
+		);
+		return paid;
+	}
+
+	private async payCommission(
+		referrer: any,
+		referred: any,
+		deposit: any,
+		level: number,
+		rules: ReferralRules,
+		session: ClientSession,
+		actor: { userId?: string; email?: string },
+	): Promise<PaidCommission | null> {
+		const rate = rules.levels[level - 1] || 0;
+		if (!rate) return null;
+		if (rules.requireKycApproved && referrer.kycStatus !== "approved") return null;
+
+		const depositAmount = Number(deposit.amount) || 0;
+		const full = round((depositAmount * rate) / 100);
+		let amount = rules.perCommissionCap ? Math.min(full, rules.perCommissionCap) : full;
+		if (rules.perReferrerCap) {
+			const [earned] = await ReferralCommission.aggregate([
+				{ $match: { referrerId: referrer._id } },
+				{ $group: { _id: null, amount: { $sum: "$amount" } } },
+			]).session(session);
+			amount = Math.min(amount, Math.max(0, rules.perReferrerCap - (earned?.amount || 0)));
+		}
+		amount = round(amount);
+		if (amount <= 0) return null;
+
+		const description = `Referral commission (level ${level}) for ${referred.email} deposit`;
+		const [txn] = await Transaction.create(
+			[
+				{
+					type: "referral_bonus",
+					user: { id: referrer._id, email: referrer.email, name: referrer.username },
+					status: "completed",
+					amount,
+					currency: "USD",
+					description,
+					metadata: { referredUserId: String(referred._id), depositId: String(deposit._id) },
+				},
+			],
+			{ session },
+		);
+		const entry = await ledgerService.post(
+			{
+				description,
+				referenceType: "referral_bonus",
+				transactionIds: [deposit._id, txn._id],
+				postings: [
+					{ account: systemAccount("referral_expense"), debit: amount },
+					{ account: userAccount(referrer._id, "deposit"), credit: amount },
+				],
+				actor,
+			},
+			{ session },
+		);
+		await ReferralCommission.create(
+			[
+				{
+					referrerId: referrer._id,
+					referredUserId: referred._id,
+					depositId: deposit._id,
+					level,
+					rate,
+					depositAmount,
+					amount,
+					capped: amount < full,
+					transactionId: txn._id,
+					journalEntryId: entry._id,
+				},
+			],
+			{ session },
+		);
+		return { referrer, level, amount };
+	}
+
+	/**
+	 * A user's referral report: their code, who they referred and what they earned per level
+	 */
+	async summary(userId: string) {
+		const id = new mongoose.Types.ObjectId(userId);
+		const [code, user, referred, byLevel, rules] = await Promise.all([
+			this.codeFor(userId),
+			User.findById(userId).select("referral"),
+			User.aggregate([{ $match: { "referral.referrerId": id } }, { $group: { _id: "$referral.status", count: { $sum: 1 } } }]),
+			ReferralCommission.aggregate([
+				{ $match: { referrerId: id } },
+				{ $group: { _id: "$level", count: { $sum: 1 }, amount: { $sum: "$amount" } } },
+				{ $sort: { _id: 1 } },
+			]),
+			this.rules(),
+		]);
+
+		const statuses = Object.fromEntries(referred.map((row) => [row._id, row.count]));
+		return {
+			code,
+			referredBy: user?.referral?.referrerId || null,
+			referrals: {
+				total: referred.reduce((sum, row) => sum + row.count, 0),
+				pending: statuses.pending || 0,
+				claimed: statuses.claimed || 0,
+			},
+			earnings: {
+				total: round(byLevel.reduce((sum, row) => sum + row.amount, 0)),
+				byLevel: byLevel.map((row) => ({ level: row._id, count: row.count, amount: round(row.amount) })),
+			},
+			levels: rules.levels,
+		};
+	}
+
+	/**
+	 * Commission ledger of one referrer, newest first
+	 */
+	async commissions(referrerId: string, options: { page?: number; limit?: number } = {}) {
+		const page = Math.max(1, Number(options.page) || 1);
+		const limit = Math.max(1, Math.min(Number(options.limit) || 20, 100));
+		const filter = { referrerId: new mongoose.Types.ObjectId(referrerId) };
+		const [commissions, total] = await Promise.all([
+			ReferralCommission.find(filter)
+				.sort({ createdAt: -1 })
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.populate("referredUserId", "username email")
+				.lean(),
+			ReferralCommission.countDocuments(filter),
+		]);
+		return { commissions, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+	}
+
+	/**
+	 * Program-wide report for admins: commission totals per level, top referrers and how many
+	 * referrals are still pending, optionally within a date range
+	 */
+	async report(options: { from?: Date; to?: Date; limit?: number } = {}) {
+		const match: Record<string, any> = {};
+		if (options.from || options.to) {
+			match.createdAt = {};
+			if (options.from) match.createdAt.$gte = options.from;
+			if (options.to) match.createdAt.$lt = options.to;
+		}
+		const limit = Math.max(1, Math.min(Number(options.limit) || 10, 100));
+
+		const [byLevel, top, statuses] = await Promise.all([
+			ReferralCommission.aggregate([
+				{ $match: match },
+				{ $group: { _id: "$level", count: { $sum: 1 }, amount: { $sum: "$amount" }, capped: { $sum: { $cond: ["$capped", 1, 0] } } } },
+				{ $sort: { _id: 1 } },
+			]),
+			ReferralCommission.aggregate([
+				{ $match: match },
+				{ $group: { _id: "$referrerId", count: { $sum: 1 }, amount: { $sum: "$amount" } } },
+				{ $sort: { amount: -1 } },
+				{ $limit: limit },
+				{ $lookup: { from: "users", localField: "_id", foreignField: "_id", as: "user" } },
+				{ $unwind: { path: "$user", preserveNullAndEmptyArrays: true } },
+				{ $project: { _id: 0, userId: "$_id", email: "$user.email", username: "$user.username", count: 1, amount: 1 } },
+			]),
+			User.aggregate([{ $match: { "referral.status": { $in: ["pending", "claimed"] } } }, { $group: { _id: "$referral.status", count: { $sum: 1 } } }]),
+		]);
+
+		const counts = Object.fromEntries(statuses.map((row) => [row._id, row.count]));
+		return {
+			range: { from: options.from || null, to: options.to || null },
+			totals: {
+				count: byLevel.reduce((sum, row) => sum + row.count, 0),
+				amount: round(byLevel.reduce((sum, row) => sum + row.amount, 0)),
+			},
+			byLevel: byLevel.map((row) => ({ level: row._id, count: row.count, amount: round(row.amount), capped: row.capped })),
+			topReferrers: top.map((row) => ({ ...row, amount: round(row.amount) })),
+			referrals: { pending: counts.pending || 0, claimed: counts.claimed || 0 },
+			rules: await this.rules(),
+		};
+	}
+}
+
+export default new ReferralService();
@@ -0,0 +1,267 @@
+import { StandingOrder, IStandingOrder, StandingOrderFrequency } from "../models/standingOrder";
+import { User } from "../models/user";
+import transferService from "./transferService";
+import { isSupportedCurrency, normalizeCurrency } from "./ledgerService";
+import { runInTransaction, UnitOfWorkError } from "../utils/unitOfWork";
+import { standingOrderExecuted, standingOrderFailed } from "../utils/mailer";
+
+export class StandingOrderError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "StandingOrderError";
+		this.status = status;
+	}
+}
+
+export interface CreateStandingOrderInput {
+	toUserId?: string;
+	toEmail?: string;
+	amount: number;
+	currency?: string;
+	memo?: string;
+	frequency: StandingOrderFrequency;
+	startDate?: string | Date;
+	endDate?: string | Date | null;
+}
+
+const MAX_ATTEMPTS = () => Math.max(1, parseInt(process.env.STANDING_ORDER_MAX_ATTEMPTS || "3", 10));
+const RETRY_DELAY_MS = () => Number(process.env.STANDING_ORDER_RETRY_HOURS || 6) * 60 * 60 * 1000;
+const BATCH_SIZE = 100;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Same day of month as `anchorDay` in the month after `from`, clamped to the month's last day
+ * (a standing order on the 31st runs on the 30th in April and the 28th/29th in February).
+ */
+const nextMonthly = (from: Date, anchorDay: number) => {
+	const year = from.getUTCFullYear();
+	const month = from.getUTCMonth() + 1;
+	const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+	return new Date(
+		Date.UTC(year, month, Math.min(anchorDay, lastDay), from.getUTCHours(), from.getUTCMinutes(), from.getUTCSeconds()),
+	);
+};
+
+const toDate = (value: string | Date | null | undefined, field: string) => {
+	if (value === undefined || value === null || value === "") return null;
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) throw new StandingOrderError(400, `Invalid ${field}`);
+	return date;
+};
+
+class StandingOrderService {
+	/**
+	 * Occurrence after `from`, or null when the order has no more occurrences
+	 */
+	nextOccurrence(order: Pick<IStandingOrder, "frequency" | "startDate" | "endDate">, from: Date): Date | null {
+		let next: Date | null = null;
+		if (order.frequency === "weekly") next = new Date(from.getTime() + WEEK_MS);
+		if (order.frequency === "monthly") next = nextMonthly(from, order.startDate.getUTCDate());
+		if (next && order.endDate && next > order.endDate) return null;
+		return next;
+	}
+
+	async create(userId: string, input: CreateStandingOrderInput, now = new Date()) {
+		const amount = Number(input.amount);
+		if (!Number.isFinite(amount) || amount <= 0) throw new StandingOrderError(400, "Invalid amount");
+		const currency = normalizeCurrency(input.currency);
+		if (!isSupportedCurrency(currency)) throw new StandingOrderError(400, `Unsupported currency: ${currency}`);
+
+		const startDate = toDate(input.startDate, "startDate") || now;
+		const endDate = toDate(input.endDate, "endDate");
+		// Allow a small clock skew for "start now" requests
+		if (startDate.getTime() < now.getTime() - 60 * 1000) {
+			throw new StandingOrderError(400, "startDate cannot be in the past");
+		}
+		if (endDate && endDate < startDate) throw new StandingOrderError(400, "endDate must be after startDate");
+
+		const recipient = input.toUserId
+			? await User.findById(input.toUserId).select("email")
+			: await User.findOne({ email: String(input.toEmail || "").toLowerCase() }).select("email");
+		if (!recipient) throw new StandingOrderError(404, "Recipient not found");
+		if (String(recipient._id) === String(userId)) {
+			throw new StandingOrderError(400, "Cannot create a standing order to your own account");
+		}
+
+		return StandingOrder.create({
+			userId,
+			toUserId: recipient._id,
+			toEmail: recipient.email,
+			amount,
+			currency,
+			memo: input.memo || "",
+			frequency: input.frequency,
+			startDate,
+			endDate,
+			nextRunAt: startDate,
+			dueAt: startDate,
+		});
+	}
+
+	async pause(order: IStandingOrder) {
+		if (order.status !== "active") throw new StandingOrderError(400, `Cannot pause a ${order.status} standing order`);
+		order.status = "paused";
+		order.dueAt = null;
+		return order.save();
+	}
+
+	/**
+	 * Reactivate a paused order. Occurrences missed while paused are skipped rather than paid in a burst.
+	 */
+	async resume(order: IStandingOrder, now = new Date()) {
+		if (order.status !== "paused") throw new StandingOrderError(400, `Cannot resume a ${order.status} standing order`);
+
+		let next: Date | null = order.nextRunAt;
+		while (next && next < now && order.frequency !== "once") {
+			next = this.nextOccurrence(order, next);
+		}
+		if (!next) {
+			order.status = "completed";
+			order.nextRunAt = null;
+			order.dueAt = null;
+			return order.save();
+		}
+
+		order.status = "active";
+		order.nextRunAt = next;
+		order.dueAt = next < now ? now : next;
+		order.failedAttempts = 0;
+		return order.save();
+	}
+
+	async cancel(order: IStandingOrder) {
+		if (!["active", "paused"].includes(order.status)) {
+			throw new StandingOrderError(400, `Cannot cancel a ${order.status} standing order`);
+		}
+		order.status = "cancelled";
+		order.dueAt = null;
+		order.cancelledAt = new Date();
+		return order.save();
+	}
+
+	/**
+	 * Execute every active order that is due. Each transfer runs in its own unit of work together
+	 * with the order update, guarded on `dueAt`, so an occurrence is never paid twice even if two
+	 * runners pick up the same order.
+	 */
+	async runDue(now = new Date()) {
+		const orders = await StandingOrder.find({ status: "active", dueAt: { $lte: now } })
+			.sort({ dueAt: 1 })
+			.limit(BATCH_SIZE);
+
+		let executed = 0;
+		let failed = 0;
+		for (const order of orders) {
+			if (await this.execute(order, now)) executed++;
+			else failed++;
+		}
+		return { due: orders.length, executed, failed };
+	}
+
+	private async execute(order: IStandingOrder, now: Date): Promise<boolean> {
+		const dueAt = order.dueAt;
+		try {
+			const result = await runInTransaction(async (session) => {
+				const claimed = await StandingOrder.findOneAndUpdate(
+					{ _id: order._id, status: "active", dueAt },
+					{ $set: { dueAt: null } },
+					{ session, new: true },
+				);
+				// Paused, cancelled or already handled by another runner
+				if (!claimed) return null;
+
+				const transfer = await transferService.internalTransfer(
+					{
+						fromUserId: String(claimed.userId),
+						toUserId: String(claimed.toUserId),
+						amount: claimed.amount,
+						currency: claimed.currency,
+						memo: claimed.memo,
+						metadata: { standingOrderId: String(claimed._id) },
+					},
+					session,
+				);
+
+				const next = this.nextOccurrence(claimed, claimed.nextRunAt || now);
+				claimed.runs += 1;
+				claimed.failedAttempts = 0;
+				claimed.lastRunAt = now;
+				claimed.lastError = "";
+				claimed.transactionIds.push(transfer.transactions[0]._id);
+				claimed.nextRunAt = next;
+				claimed.dueAt = next;
+				if (!next) claimed.status = "completed";
+				await claimed.save({ session });
+
+				return { order: claimed, transfer };
+			});
+			if (!result) return true;
+
+			const { fromUser, toUser, newBalance } = result.transfer;
+			await standingOrderExecuted(
+				fromUser.email,
+				`${fromUser.firstName} ${fromUser.lastName}`,
+				result.order.amount,
+				result.order.currency,
+				toUser.email,
+				result.order.nextRunAt,
+				newBalance,
+			);
+			return true;
+		} catch (error: any) {
+			await this.recordFailure(order, dueAt, error, now).catch((err) =>
+				console.error(`Failed to record standing order failure ${order._id}:`, err),
+			);
+			return false;
+		}
+	}
+
+	/**
+	 * Insufficient funds and other transient problems are retried after STANDING_ORDER_RETRY_HOURS.
+	 * Once the attempts run out the occurrence is skipped (recurring orders) or the order fails
+	 * (one-off orders); a missing sender or recipient fails the order straight away.
+	 */
+	private async recordFailure(order: IStandingOrder, dueAt: Date | null, error: any, now: Date) {
+		const message = error?.message || String(error);
+		const attempts = order.failedAttempts + 1;
+		const permanent = error instanceof UnitOfWorkError;
+		const retry = !permanent && attempts < MAX_ATTEMPTS();
+
+		const update: Record<string, unknown> = { lastError: message, lastRunAt: now };
+		if (retry) {
+			update.failedAttempts = attempts;
+			update.dueAt = new Date(now.getTime() + RETRY_DELAY_MS());
+		} else {
+			const next = permanent || order.frequency === "once" ? null : this.nextOccurrence(order, order.nextRunAt || now);
+			update.failedAttempts = 0;
+			update.nextRunAt = next;
+			update.dueAt = next;
+			if (!next) update.status = permanent || order.frequency === "once" ? "failed" : "completed";
+		}
+
+		const updated = await StandingOrder.findOneAndUpdate(
+			{ _id: order._id, status: "active", dueAt },
+			{ $set: update },
+			{ new: true },
+		);
+		if (!updated) return;
+		console.warn(`Standing order ${order._id} failed (attempt ${attempts}): ${message}`);
+
+		const user = await User.findById(order.userId).select("email firstName lastName");
+		if (!user) return;
+		await standingOrderFailed(
+			user.email,
+			`${user.firstName} ${user.lastName}`,
+			order.amount,
+			order.currency,
+			order.toEmail,
+			message,
+			retry ? (update.dueAt as Date) : null,
+		);
+	}
+}
+
+export default new StandingOrderService();
@@ -0,0 +1,320 @@
+import PDFDocument from "pdfkit";
+import { Transaction } from "../models/transaction";
+import { User } from "../models/user";
+import { StatementDelivery } from "../models/statementDelivery";
+import ledgerService, { BASE_CURRENCY, normalizeCurrency } from "./ledgerService";
+import { netBalanceChange, feeOf, typeLabel } from "../utils/transactionEffects";
+import { toCsv } from "../utils/csv";
+import { monthlyStatement } from "../utils/mailer";
+
+export interface StatementLine {
+	date: Date;
+	reference: string;
+	type: string;
+	description: string;
+	status: string;
+	amount: number;
+	fee: number;
+	balanceChange: number;
+	balance: number;
+}
+
+export interface Statement {
+	account: { userId: string; name: string; email: string; accountNumber: string };
+	year: number;
+	month: number;
+	currency: string;
+	periodStart: Date;
+	periodEnd: Date;
+	openingBalance: number;
+	closingBalance: number;
+	totalCredits: number;
+	totalDebits: number;
+	totalFees: number;
+	lines: StatementLine[];
+	generatedAt: Date;
+}
+
+export class StatementPeriodError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "StatementPeriodError";
+	}
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const MONTH_NAMES = [
+	"January",
+	"February",
+	"March",
+	"April",
+	"May",
+	"June",
+	"July",
+	"August",
+	"September",
+	"October",
+	"November",
+	"December",
+];
+
+export const periodLabel = (year: number, month: number) => `${MONTH_NAMES[month - 1]} ${year}`;
+
+class StatementService {
+	/**
+	 * UTC boundaries of a calendar month; rejects months that have not started yet
+	 */
+	period(year: number, month: number) {
+		if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12 || year < 2000) {
+			throw new StatementPeriodError("Invalid statement period");
+		}
+		const periodStart = new Date(Date.UTC(year, month - 1, 1));
+		const periodEnd = new Date(Date.UTC(year, month, 1));
+		if (periodStart > new Date()) throw new StatementPeriodError("Statement period is in the future");
+		return { periodStart, periodEnd };
+	}
+
+	/**
+	 * Statement for one user, month and currency. The opening balance is walked back from the
+	 * current balance through every transaction since the start of the month, so the closing
+	 * balance of the latest month always matches what the user sees.
+	 */
+	async build(userId: string, year: number, month: number, currency = BASE_CURRENCY): Promise<Statement | null> {
+		const { periodStart, periodEnd } = this.period(year, month);
+		const code = normalizeCurrency(currency);
+
+		const user = await User.findById(userId).select(
+			"firstName lastName email accountNumber deposit interest bonus balances",
+		);
+		if (!user) return null;
+
+		const transactions = await Transaction.find({ "user.id": user._id, currency: code, date: { $gte: periodStart } })
+			.sort({ date: 1, createdAt: 1 })
+			.lean();
+
+		const changeSinceStart = transactions.reduce((sum, txn) => sum + netBalanceChange(txn), 0);
+		const openingBalance = round(ledgerService.availableBalance(user, code) - changeSinceStart);
+
+		let balance = openingBalance;
+		let totalCredits = 0;
+		let totalDebits = 0;
+		let totalFees = 0;
+		const lines: StatementLine[] = [];
+		for (const txn of transactions) {
+			if (txn.date >= periodEnd) break;
+			const balanceChange = netBalanceChange(txn);
+			const fee = feeOf(txn);
+			balance = round(balance + balanceChange);
+			if (balanceChange > 0) totalCredits += balanceChange;
+			if (balanceChange < 0) totalDebits += -balanceChange;
+			if (balanceChange !== 0) totalFees += fee;
+			lines.push({
+				date: txn.date,
+				reference: String(txn._id),
+				type: txn.type,
+				description: (txn as any).description || typeLabel(txn.type),
+				status: txn.status,
+				amount: Number(txn.amount) || 0,
+				fee,
+				balanceChange,
+				balance,
+			});
+		}
+
+		return {
+			account: {
+				userId: String(user._id),
+				name: `${user.firstName} ${user.lastName}`,
+				email: user.email,
+				accountNumber: user.accountNumber,
+			},
+			year,
+			month,
+			currency: code,
+			periodStart,
+			periodEnd,
+			openingBalance,
+			closingBalance: balance,
+			totalCredits: round(totalCredits),
+			totalDebits: round(totalDebits),
+			totalFees: round(totalFees),
+			lines,
+			generatedAt: new Date(),
+		};
+	}
+
+	fileName(statement: Statement, extension: "pdf" | "csv") {
+		const month = String(statement.month).padStart(2, "0");
+		return `statement-${statement.year}-${month}-${statement.currency}.${extension}`;
+	}
+
+	toCsv(statement: Statement): string {
+		const day = (date: Date) => date.toISOString().slice(0, 10);
+		return toCsv([
+			["Date", "Reference", "Type", "Description", "Status", "Amount", "Fee", "Balance change", "Balance"],
+			[day(statement.periodStart), "", "", "Opening balance", "", "", "", "", statement.openingBalance.toFixed(2)],
+			...statement.lines.map((line) => [
+				day(line.date),
+				line.reference,
+				line.type,
+				line.description,
+				line.status,
+				line.amount.toFixed(2),
+				line.fee.toFixed(2),
+				line.balanceChange.toFixed(2),
+				line.balance.toFixed(2),
+			]),
+			[
+				day(new Date(statement.periodEnd.getTime() - 1)),
+				"",
+				"",
+				"Closing balance",
+				"",
+				"",
+				statement.totalFees.toFixed(2),
+				"",
+				statement.closingBalance.toFixed(2),
+			],
+		]);
+	}
+
+	toPdf(statement: Statement): Promise<Buffer> {
+		return new Promise((resolve, reject) => {
+			const doc = new PDFDocument({ size: "A4", margin: 40 });
+			const chunks: Buffer[] = [];
+			doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+			doc.on("end", () => resolve(Buffer.concat(chunks)));
+			doc.on("error", reject);
+
+			const money = (amount: number) => `${amount < 0 ? "-" : ""}${Math.abs(amount).toFixed(2)}`;
+			const columns = [
+				{ label: "Date", width: 62 },
+				{ label: "Description", width: 190 },
+				{ label: "Status", width: 60 },
+				{ label: "Amount", width: 65, align: "right" as const },
+				{ label: "Fee", width: 48, align: "right" as const },
+				{ label: "Balance", width: 90, align: "right" as const },
+			];
+			const row = (values: string[], bold = false) => {
+				const y = doc.y;
+				let x = doc.page.margins.left;
+				doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+				const height = Math.max(
+					...values.map((value, i) => doc.heightOfString(value, { width: columns[i].width - 4 })),
+				);
+				values.forEach((value, i) => {
+					doc.text(value, x, y, { width: columns[i].width - 4, align: columns[i].align || "left" });
+					x += columns[i].width;
+				});
+				doc.x = doc.page.margins.left;
+				doc.y = y + height + 4;
+			};
+			const header = () => row(columns.map((c) => c.label), true);
+
+			doc.font("Helvetica-Bold").fontSize(16).text("InstantGlobal");
+			doc.font("Helvetica").fontSize(11).text(`Account statement - ${periodLabel(statement.year, statement.month)}`);
+			doc.moveDown();
+			doc.fontSize(9);
+			doc.text(`Account holder: ${statement.account.name}`);
+			doc.text(`Email: ${statement.account.email}`);
+			if (statement.account.accountNumber) doc.text(`Account number: ${statement.account.accountNumber}`);
+			doc.text(`Currency: ${statement.currency}`);
+			doc.moveDown();
+			doc.text(`Opening balance: ${money(statement.openingBalance)}`);
+			doc.text(`Money in: ${money(statement.totalCredits)}`);
+			doc.text(`Money out: ${money(statement.totalDebits)}`);
+			doc.text(`Fees: ${money(statement.totalFees)}`);
+			doc.font("Helvetica-Bold").text(`Closing balance: ${money(statement.closingBalance)}`);
+			doc.moveDown();
+
+			header();
+			row([statement.periodStart.toISOString().slice(0, 10), "Opening balance", "", "", "", money(statement.openingBalance)]);
+			for (const line of statement.lines) {
+				if (doc.y > doc.page.height - doc.page.margins.bottom - 30) {
+					doc.addPage();
+					header();
+				}
+				row([
+					line.date.toISOString().slice(0, 10),
+					line.description,
+					line.status,
+					money(line.amount),
+					line.fee ? money(line.fee) : "",
+					money(line.balance),
+				]);
+			}
+			row(["", "Closing balance", "", "", money(statement.totalFees), money(statement.closingBalance)], true);
+
+			doc.moveDown(2);
+			doc.font("Helvetica").fontSize(7).fillColor("#666666");
+			doc.text(
+				`Generated ${statement.generatedAt.toISOString()}. Pending or rejected transactions are listed ` +
+					"but do not change the balance.",
+				doc.page.margins.left,
+			);
+			doc.end();
+		});
+	}
+
+	/**
+	 * Email last month's statements to every user with activity in that month. Already-delivered
+	 * statements are skipped, so the job can run as often as the scheduler likes.
+	 */
+	async sendMonthlyStatements(now = new Date()) {
+		const previous = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+		const year = previous.getUTCFullYear();
+		const month = previous.getUTCMonth() + 1;
+		const { periodStart, periodEnd } = this.period(year, month);
+
+		const accounts: Array<{ _id: { userId: any; currency: string } }> = await Transaction.aggregate([
+			{ $match: { date: { $gte: periodStart, $lt: periodEnd }, "user.id": { $ne: null } } },
+			{ $group: { _id: { userId: "$user.id", currency: { $ifNull: ["$currency", BASE_CURRENCY] } } } },
+		]);
+
+		let sent = 0;
+		let failed = 0;
+		let skipped = 0;
+		for (const { _id } of accounts) {
+			const currency = normalizeCurrency(_id.currency);
+			const key = { userId: _id.userId, year, month, currency };
+			if (await StatementDelivery.exists({ ...key, status: "sent" })) {
+				skipped++;
+				continue;
+			}
+
+			try {
+				const statement = await this.build(String(_id.userId), year, month, currency);
+				if (!statement) {
+					skipped++;
+					continue;
+				}
+				const [pdf, csv] = [await this.toPdf(statement), this.toCsv(statement)];
+				const result = await monthlyStatement(statement.account.email, statement.account.name, periodLabel(year, month), [
+					{ filename: this.fileName(statement, "pdf"), content: pdf, contentType: "application/pdf" },
+					{ filename: this.fileName(statement, "csv"), content: csv, contentType: "text/csv" },
+				]);
+				if ((result as any)?.error) throw new Error(String((result as any).error));
+
+				await StatementDelivery.updateOne(
+					key,
+					{ $set: { email: statement.account.email, status: "sent", error: "", sentAt: new Date() } },
+					{ upsert: true },
+				);
+				sent++;
+			} catch (error: any) {
+				console.error(`Statement email failed for ${_id.userId} ${currency}:`, error.message);
+				await StatementDelivery.updateOne(
+					key,
+					{ $set: { status: "failed", error: error.message || String(error), sentAt: new Date() } },
+					{ upsert: true },
+				).catch(() => undefined);
+				failed++;
+			}
+		}
+
+		return { year, month, sent, failed, skipped };
+	}
+}
+
+export default new StatementService();
@@ -0,0 +1,361 @@
+import { Transaction } from "../models/transaction";
+import { User } from "../models/user";
+import ledgerService, { BASE_CURRENCY } from "./ledgerService";
+import { netBalanceChange, feeOf, typeLabel } from "../utils/transactionEffects";
+import { toCsv } from "../utils/csv";
+
+export type ExportFormat = "csv" | "ofx" | "qif";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "ofx", "qif"];
+
+export interface ExportFilters {
+	from?: Date;
+	to?: Date; // exclusive
+	types?: string[];
+	currency?: string;
+}
+
+export interface ExportLine {
+	date: Date;
+	reference: string;
+	type: string;
+	status: string;
+	currency: string;
+	payee: string;
+	memo: string;
+	category: string;
+	ofxType: string;
+	amount: number;
+	fee: number;
+	balanceChange: number;
+}
+
+export interface TransactionExport {
+	account: { userId: string; name: string; email: string; accountNumber: string };
+	filters: ExportFilters;
+	lines: ExportLine[];
+	generatedAt: Date;
+}
+
+const OFX_BANK_ID = "INSTANTGLOBAL";
+
+const last4 = (txn: any) => {
+	const fromMetadata = String(txn.metadata?.last4 || "");
+	if (fromMetadata) return fromMetadata;
+	const match = String(txn.description || "").match(/\*{4}\s?(\d{4})/);
+	return match ? match[1] : "";
+};
+
+const wallet = (txn: any) => {
+	const coin = txn.walletData?.coinName || txn.metadata?.chain || txn.currency || "";
+	const network = txn.walletData?.network && txn.walletData.network !== coin ? ` (${txn.walletData.network})` : "";
+	return `${coin}${network}`.trim();
+};
+
+/**
+ * Payee, category and OFX TRNTYPE for each transaction type. Memo defaults to the stored
+ * description, which already carries the user's own memo for transfers.
+ */
+function describe(txn: any, counterparties: Map<string, string>) {
+	const metadata = (txn.metadata || {}) as Record<string, any>;
+	const description = String(txn.description || "");
+
+	switch (txn.type) {
+		case "internal_transfer": {
+			const counterpartyId = String(metadata.toUserId || metadata.fromUserId || "");
+			const payee = counterparties.get(counterpartyId) || description.replace(/^Transfer (to|from) /, "");
+			return { payee, memo: description, category: "Transfers", ofxType: "XFER" };
+		}
+		case "external_transfer":
+			return {
+				payee: metadata.beneficiary || "External transfer",
+				memo: description,
+				category: "Transfers",
+				ofxType: "XFER",
+			};
+		case "deposit":
+		case "crypto_deposit":
+			return {
+				payee: `Crypto deposit ${wallet(txn)}`.trim(),
+				memo: description || txn.walletData?.address || metadata.address || "",
+				category: "Deposits",
+				ofxType: "DEP",
+			};
+		case "withdrawal":
+		case "crypto_withdrawal":
+			return {
+				payee: `Crypto withdrawal ${wallet(txn)}`.trim(),
+				memo: description || txn.walletData?.address || metadata.address || "",
+				category: "Withdrawals",
+				ofxType: "DEBIT",
+			};
+		case "card_funding":
+		case "card_refund":
+		case "virtual_card_purchase": {
+			const card = last4(txn);
+			return {
+				payee: card ? `Virtual card **** ${card}` : "Virtual card",
+				memo: description,
+				category: "Transfers:Virtual card",
+				ofxType: txn.type === "card_refund" ? "CREDIT" : "XFER",
+			};
+		}
+		case "flight_booking": {
+			const route = metadata.origin && metadata.destination ? `${metadata.origin} -> ${metadata.destination}` : "";
+			return {
+				payee: metadata.carrier || metadata.vendor || "Flight booking",
+				memo: route ? `Flight ${route}` : description || "Flight booking",
+				category: "Travel:Air",
+				ofxType: "POS",
+			};
+		}
+		case "gift_card_purchase":
+			return {
+				payee: metadata.recipient ? `Gift card for ${metadata.recipient}` : "Gift card",
+				memo: description,
+				category: "Gifts",
+				ofxType: "POS",
+			};
+		case "gift_card_redemption":
+			return { payee: "Gift card redemption", memo: description, category: "Gifts", ofxType: "CREDIT" };
+		case "metals_order":
+			return {
+				payee: "InstantGlobal Metals",
+				memo: description || `Metals order ${metadata.orderNumber || ""}`.trim(),
+				category: "Investments:Metals",
+				ofxType: "POS",
+			};
+		case "contract":
+			return {
+				payee: txn.planData?.plan ? `${txn.planData.plan} plan` : "Investment plan",
+				memo: description || [txn.planData?.plan, txn.planData?.duration].filter(Boolean).join(" - "),
+				category: "Investments",
+				ofxType: "XFER",
+			};
+		case "interest_payout":
+			return { payee: "InstantGlobal", memo: description || "Interest", category: "Interest", ofxType: "INT" };
+		case "referral_bonus":
+			return { payee: "InstantGlobal", memo: description || "Referral commission", category: "Bonus", ofxType: "CREDIT" };
+		case "bonus":
+			return { payee: "InstantGlobal", memo: description || "Bonus", category: "Bonus", ofxType: "CREDIT" };
+		case "admin_adjustment":
+			return { payee: "InstantGlobal", memo: description || "Balance adjustment", category: "Adjustments", ofxType: "OTHER" };
+		default:
+			return { payee: typeLabel(txn.type), memo: description, category: "", ofxType: "OTHER" };
+	}
+}
+
+// OFX 1.02 is SGML in US-ASCII: strip accents and escape markup characters
+const ofxText = (value: string, max: number) =>
+	value
+		.normalize("NFKD")
+		.replace(/[^\x20-\x7e]/g, "")
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.slice(0, max);
+
+const ofxDate = (date: Date) => date.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+
+// QIF fields are line based, so a newline would start a new field
+const qifText = (value: string) => value.replace(/[\r\n]+/g, " ");
+
+const qifDate = (date: Date) => {
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())}/${date.getUTCFullYear()}`;
+};
+
+class TransactionExportService {
+	/**
+	 * Transactions of one user matching the filters, oldest first, with payee/memo already mapped
+	 */
+	async build(email: string, filters: ExportFilters): Promise<TransactionExport | null> {
+		const user = await User.findOne({ email }).select("firstName lastName email accountNumber");
+		if (!user) return null;
+
+		const query: Record<string, any> = { "user.email": email };
+		if (filters.from || filters.to) {
+			query.date = {};
+			if (filters.from) query.date.$gte = filters.from;
+			if (filters.to) query.date.$lt = filters.to;
+		}
+		if (filters.types?.length) query.type = { $in: filters.types };
+		if (filters.currency) query.currency = filters.currency;
+
+		const transactions = await Transaction.find(query).sort({ date: 1, createdAt: 1 }).lean();
+
+		// Resolve the other side of internal transfers to a readable name in one query
+		const counterpartyIds = new Set<string>();
+		for (const txn of transactions) {
+			const metadata = (txn.metadata || {}) as Record<string, any>;
+			if (txn.type === "internal_transfer" && (metadata.toUserId || metadata.fromUserId)) {
+				counterpartyIds.add(String(metadata.toUserId || metadata.fromUserId));
+			}
+		}
+		const counterparties = new Map<string, string>();
+		if (counterpartyIds.size) {
+			const users = await User.find({ _id: { $in: [...counterpartyIds] } }).select("firstName lastName email").lean();
+			for (const counterparty of users) {
+				const name = `${counterparty.firstName || ""} ${counterparty.lastName || ""}`.trim();
+				counterparties.set(String(counterparty._id), name || counterparty.email);
+			}
+		}
+
+		const lines = transactions.map((txn) => ({
+			date: txn.date,
+			reference: String(txn._id),
+			type: txn.type,
+			status: txn.status,
+			currency: txn.currency || BASE_CURRENCY,
+			amount: Number(txn.amount) || 0,
+			fee: feeOf(txn),
+			balanceChange: netBalanceChange(txn),
+			...describe(txn, counterparties),
+		}));
+
+		return {
+			account: {
+				userId: String(user._id),
+				name: `${user.firstName} ${user.lastName}`,
+				email: user.email,
+				accountNumber: user.accountNumber,
+			},
+			filters,
+			lines,
+			generatedAt: new Date(),
+		};
+	}
+
+	fileName(data: TransactionExport, format: ExportFormat) {
+		const day = (date: Date) => date.toISOString().slice(0, 10);
+		const from = data.filters.from ? day(data.filters.from) : "start";
+		const to = data.filters.to ? day(new Date(data.filters.to.getTime() - 1)) : day(data.generatedAt);
+		const currency = data.filters.currency ? `-${data.filters.currency}` : "";
+		return `transactions-${from}-to-${to}${currency}.${format}`;
+	}
+
+	contentType(format: ExportFormat) {
+		if (format === "ofx") return "application/x-ofx";
+		if (format === "qif") return "application/qif";
+		return "text/csv; charset=utf-8";
+	}
+
+	async render(data: TransactionExport, format: ExportFormat): Promise<string> {
+		if (format === "ofx") return this.toOfx(data);
+		if (format === "qif") return this.toQif(data);
+		return this.toCsv(data);
+	}
+
+	/**
+	 * Every matching transaction, including pending and rejected ones, with the stored amount
+	 * and the change it actually made to the balance
+	 */
+	toCsv(data: TransactionExport): string {
+		return toCsv([
+			["Date", "Reference", "Type", "Status", "Payee", "Memo", "Category", "Currency", "Amount", "Fee", "Balance change"],
+			...data.lines.map((line) => [
+				line.date,
+				line.reference,
+				line.type,
+				line.status,
+				line.payee,
+				line.memo,
+				line.category,
+				line.currency,
+				line.amount.toFixed(2),
+				line.fee.toFixed(2),
+				line.balanceChange.toFixed(2),
+			]),
+		]);
+	}
+
+	/**
+	 * OFX 1.02 bank statement. Accounting tools expect posted entries only, so lines that did not
+	 * move the balance are left out and amounts are the balance change. OFX allows one currency
+	 * per statement; without a currency filter the base currency is exported.
+	 */
+	async toOfx(data: TransactionExport): Promise<string> {
+		const currency = data.filters.currency || BASE_CURRENCY;
+		const lines = data.lines.filter((line) => line.currency === currency && line.balanceChange !== 0);
+		const balance = await ledgerService.getAvailableBalance(data.account.userId, undefined, currency);
+		const now = ofxDate(data.generatedAt);
+		const start = data.filters.from || lines[0]?.date || data.generatedAt;
+		const end = data.filters.to || data.generatedAt;
+
+		const transactions = lines.map((line) =>
+			[
+				"<STMTTRN>",
+				`<TRNTYPE>${line.ofxType}`,
+				`<DTPOSTED>${ofxDate(line.date)}`,
+				`<TRNAMT>${line.balanceChange.toFixed(2)}`,
+				`<FITID>${line.reference}`,
+				`<NAME>${ofxText(line.payee, 32)}`,
+				...(line.memo ? [`<MEMO>${ofxText(line.memo, 255)}`] : []),
+				"</STMTTRN>",
+			].join("\r\n"),
+		);
+
+		return [
+			"OFXHEADER:100",
+			"DATA:OFXSGML",
+			"VERSION:102",
+			"SECURITY:NONE",
+			"ENCODING:USASCII",
+			"CHARSET:1252",
+			"COMPRESSION:NONE",
+			"OLDFILEUID:NONE",
+			"NEWFILEUID:NONE",
+			"",
+			"<OFX>",
+			"<SIGNONMSGSRSV1><SONRS>",
+			"<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+			`<DTSERVER>${now}`,
+			"<LANGUAGE>ENG",
+			"</SONRS></SIGNONMSGSRSV1>",
+			"<BANKMSGSRSV1><STMTTRNRS>",
+			"<TRNUID>1",
+			"<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+			"<STMTRS>",
+			`<CURDEF>${currency}`,
+			"<BANKACCTFROM>",
+			`<BANKID>${OFX_BANK_ID}`,
+			`<ACCTID>${ofxText(data.account.accountNumber || data.account.userId, 22)}`,
+			"<ACCTTYPE>CHECKING",
+			"</BANKACCTFROM>",
+			"<BANKTRANLIST>",
+			`<DTSTART>${ofxDate(start)}`,
+			`<DTEND>${ofxDate(end)}`,
+			...transactions,
+			"</BANKTRANLIST>",
+			`<LEDGERBAL><BALAMT>${balance.toFixed(2)}<DTASOF>${now}</LEDGERBAL>`,
+			"</STMTRS>",
+			"</STMTTRNRS></BANKMSGSRSV1>",
+			"</OFX>",
+			"",
+		].join("\r\n");
+	}
+
+	/**
+	 * QIF bank register. Same rules as OFX: posted entries only, one currency per file.
+	 */
+	toQif(data: TransactionExport): string {
+		const currency = data.filters.currency || BASE_CURRENCY;
+		const lines = data.lines.filter((line) => line.currency === currency && line.balanceChange !== 0);
+
+		const entries = lines.map((line) =>
+			[
+				`D${qifDate(line.date)}`,
+				`T${line.balanceChange.toFixed(2)}`,
+				`N${line.reference}`,
+				`P${qifText(line.payee)}`,
+				...(line.memo ? [`M${qifText(line.memo)}`] : []),
+				...(line.category ? [`L${line.category}`] : []),
+				"^",
+			].join("\n"),
+		);
+
+		return ["!Type:Bank", ...entries, ""].join("\n");
+	}
+}
+
+export default new TransactionExportService();
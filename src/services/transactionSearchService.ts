@@ -0,0 +1,224 @@
+import mongoose from "mongoose";
+import { Transaction } from "../models/transaction";
+import { CursorPage } from "../types/common.types";
+import {
+	LEGACY_TRANSACTION_TYPES,
+	TRANSACTION_TYPES,
+	TransactionQuery,
+	TransactionSortField,
+	TransactionStatus,
+} from "../types/transaction.types";
+import { isSupportedCurrency, normalizeCurrency } from "./ledgerService";
+
+export class TransactionSearchError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "TransactionSearchError";
+		this.status = status;
+	}
+}
+
+export const SORT_FIELDS: TransactionSortField[] = ["date", "amount", "createdAt", "updatedAt"];
+
+const STATUSES: TransactionStatus[] = [
+	"pending",
+	"approved",
+	"rejected",
+	"processing",
+	"completed",
+	"failed",
+	"active",
+	"terminated",
+	"requires_manual",
+];
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// Position of the last item on a page; tied to the sort it was produced with
+interface Cursor {
+	sortBy: TransactionSortField;
+	sortOrder: "asc" | "desc";
+	value: Date | string | number | null;
+	id: string;
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const list = (value: unknown) =>
+	String(value)
+		.split(",")
+		.map((item) => item.trim())
+		.filter(Boolean);
+
+const dateFields: TransactionSortField[] = ["date", "createdAt", "updatedAt"];
+
+class TransactionSearchService {
+	/**
+	 * Validate raw query-string parameters into a TransactionQuery. Non-admins only ever see
+	 * their own transactions, whatever user they ask for.
+	 */
+	parse(raw: Record<string, unknown>, requester: { email?: string; isAdmin?: boolean }): TransactionQuery {
+		const query: TransactionQuery = {};
+
+		if (raw.type) {
+			const known = [...TRANSACTION_TYPES, ...LEGACY_TRANSACTION_TYPES] as string[];
+			const types = list(raw.type);
+			const unknown = types.filter((type) => !known.includes(type));
+			if (unknown.length) throw new TransactionSearchError(400, `Unknown transaction type: ${unknown.join(", ")}`);
+			query.type = types as TransactionQuery["type"];
+		}
+		if (raw.status) {
+			const statuses = list(raw.status);
+			const unknown = statuses.filter((status) => !STATUSES.includes(status as TransactionStatus));
+			if (unknown.length) throw new TransactionSearchError(400, `Unknown status: ${unknown.join(", ")}`);
+			query.status = statuses as TransactionStatus[];
+		}
+		if (raw.currency) {
+			const currency = normalizeCurrency(String(raw.currency));
+			if (!isSupportedCurrency(currency)) throw new TransactionSearchError(400, `Unsupported currency: ${currency}`);
+			query.currency = currency;
+		}
+		if (raw.payoutProvider) {
+			const provider = String(raw.payoutProvider);
+			if (provider !== "nowpayments" && provider !== "manual") {
+				throw new TransactionSearchError(400, "payoutProvider must be nowpayments or manual");
+			}
+			query.payoutProvider = provider;
+		}
+		if (raw.search) query.search = String(raw.search).trim().slice(0, 100);
+
+		for (const bound of ["minAmount", "maxAmount"] as const) {
+			if (raw[bound] === undefined || raw[bound] === "") continue;
+			const amount = Number(raw[bound]);
+			if (!Number.isFinite(amount)) throw new TransactionSearchError(400, `Invalid ${bound}`);
+			query[bound] = amount;
+		}
+		if (query.minAmount !== undefined && query.maxAmount !== undefined && query.minAmount > query.maxAmount) {
+			throw new TransactionSearchError(400, "minAmount must not exceed maxAmount");
+		}
+
+		for (const bound of ["startDate", "endDate"] as const) {
+			if (!raw[bound]) continue;
+			const date = new Date(String(raw[bound]));
+			if (Number.isNaN(date.getTime())) throw new TransactionSearchError(400, `Invalid ${bound}`);
+			// A bare date as upper bound includes that whole day
+			if (bound === "endDate" && /^\d{4}-\d{2}-\d{2}$/.test(String(raw[bound]))) {
+				date.setUTCDate(date.getUTCDate() + 1);
+			}
+			query[bound] = date;
+		}
+		if (query.startDate && query.endDate && query.startDate >= query.endDate) {
+			throw new TransactionSearchError(400, "startDate must be before endDate");
+		}
+
+		if (requester.isAdmin) {
+			if (raw.userId) {
+				if (!mongoose.isValidObjectId(raw.userId)) throw new TransactionSearchError(400, "Invalid userId");
+				query.userId = String(raw.userId);
+			}
+			if (raw.email) query.email = String(raw.email);
+		} else {
+			query.email = String(requester.email || "");
+		}
+
+		const sortBy = String(raw.sortBy || "date") as TransactionSortField;
+		if (!SORT_FIELDS.includes(sortBy)) {
+			throw new TransactionSearchError(400, `sortBy must be one of ${SORT_FIELDS.join(", ")}`);
+		}
+		const sortOrder = String(raw.sortOrder || "desc");
+		if (sortOrder !== "asc" && sortOrder !== "desc") throw new TransactionSearchError(400, "sortOrder must be asc or desc");
+		query.sortBy = sortBy;
+		query.sortOrder = sortOrder;
+
+		const limit = raw.limit === undefined ? DEFAULT_LIMIT : Number(raw.limit);
+		if (!Number.isInteger(limit) || limit < 1) throw new TransactionSearchError(400, "Invalid limit");
+		query.limit = Math.min(limit, MAX_LIMIT);
+		if (raw.cursor) query.cursor = String(raw.cursor);
+
+		return query;
+	}
+
+	/**
+	 * One page of matching transactions. Pass the returned `nextCursor` back as `cursor` with the
+	 * same filters and sort to get the following page; ties on the sort field are broken by _id,
+	 * so pages never overlap or skip documents.
+	 */
+	async search(query: TransactionQuery): Promise<CursorPage<any>> {
+		const sortBy = query.sortBy || "date";
+		const sortOrder = query.sortOrder || "desc";
+		const limit = Math.min(query.limit || DEFAULT_LIMIT, MAX_LIMIT);
+		const direction = sortOrder === "asc" ? 1 : -1;
+
+		const conditions: Record<string, any>[] = [this.filterFor(query)];
+		if (query.cursor) {
+			const cursor = this.decodeCursor(query.cursor);
+			if (cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder) {
+				throw new TransactionSearchError(400, "Cursor does not match the requested sort");
+			}
+			const value = cursor.value !== null && dateFields.includes(sortBy) ? new Date(cursor.value) : cursor.value;
+			const id = new mongoose.Types.ObjectId(cursor.id);
+			const past = sortOrder === "asc" ? "$gt" : "$lt";
+			conditions.push({ $or: [{ [sortBy]: { [past]: value } }, { [sortBy]: value, _id: { [past]: id } }] });
+		}
+
+		const rows = await Transaction.find(conditions.length > 1 ? { $and: conditions } : conditions[0])
+			.sort({ [sortBy]: direction, _id: direction })
+			.limit(limit + 1)
+			.lean();
+
+		const hasMore = rows.length > limit;
+		const items = hasMore ? rows.slice(0, limit) : rows;
+		const last = items[items.length - 1] as Record<string, any> | undefined;
+		return {
+			items,
+			limit,
+			hasMore,
+			nextCursor: hasMore && last ? this.encodeCursor({ sortBy, sortOrder, value: last[sortBy] ?? null, id: String(last._id) }) : null,
+		};
+	}
+
+	private filterFor(query: TransactionQuery) {
+		const filter: Record<string, any> = {};
+		if (query.userId) filter["user.id"] = new mongoose.Types.ObjectId(query.userId);
+		if (query.email) filter["user.email"] = query.email;
+		if (query.type?.length) filter.type = { $in: query.type };
+		if (query.status?.length) filter.status = { $in: query.status };
+		if (query.currency) filter.currency = query.currency;
+		if (query.payoutProvider) filter.payoutProvider = query.payoutProvider;
+		if (query.minAmount !== undefined || query.maxAmount !== undefined) {
+			filter.amount = {};
+			if (query.minAmount !== undefined) filter.amount.$gte = query.minAmount;
+			if (query.maxAmount !== undefined) filter.amount.$lte = query.maxAmount;
+		}
+		if (query.startDate || query.endDate) {
+			filter.date = {};
+			if (query.startDate) filter.date.$gte = query.startDate;
+			if (query.endDate) filter.date.$lt = query.endDate;
+		}
+		if (query.search) {
+			const pattern = new RegExp(escapeRegex(query.search), "i");
+			filter.$or = [{ description: pattern }, { "walletData.address": pattern }, { "metadata.address": pattern }];
+		}
+		return filter;
+	}
+
+	private encodeCursor(cursor: Cursor) {
+		const value = cursor.value instanceof Date ? cursor.value.toISOString() : cursor.value;
+		return Buffer.from(JSON.stringify({ ...cursor, value })).toString("base64url");
+	}
+
+	private decodeCursor(raw: string): Cursor {
+		try {
+			const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+			if (!SORT_FIELDS.includes(cursor.sortBy) || !mongoose.isValidObjectId(cursor.id)) throw new Error("malformed");
+			return cursor;
+		} catch {
+			throw new TransactionSearchError(400, "Invalid cursor");
+		}
+	}
+}
+
+export default new TransactionSearchService();
@@ -0,0 +1,381 @@
+import { ClientSession } from "mongoose";
+import { User } from "../models/user";
+import { FeeType } from "../models/feeSchedule";
+import ledgerService, { InsufficientFundsError, systemAccount, userAccount, normalizeCurrency } from "./ledgerService";
+import holdService from "./holdService";
+import feeService from "./feeService";
+
+export class TransactionStateError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "TransactionStateError";
+		this.status = status;
+	}
+}
+
+export interface TransitionContext {
+	session: ClientSession;
+	actor?: { userId?: string; email?: string };
+	reason?: string;
+}
+
+type EffectContext = TransitionContext & { from: string };
+type Effect = (txn: any, ctx: EffectContext) => Promise<void>;
+
+interface StateMachine {
+	// Legal next statuses per status; a status without an entry (or with none listed) is terminal
+	transitions: Record<string, string[]>;
+	// Ledger side effects run when the transaction enters a status, inside the caller's unit of work
+	effects?: Record<string, Effect>;
+}
+
+const metadataOf = (txn: any) => (txn.metadata || {}) as Record<string, any>;
+
+async function ownerOf(txn: any, session: ClientSession) {
+	const user = txn.user?.id
+		? await User.findById(txn.user.id).session(session)
+		: await User.findOne({ email: txn.user?.email }).session(session);
+	if (!user) throw new TransactionStateError(404, "User not found");
+	return user;
+}
+
+// Payouts: settle the hold into cash (the fee as its own entry), or clear legacy direct debits
+const settlePayout: Effect = async (txn, { session, actor }) => {
+	const amt = Math.abs(Number(txn.amount) || 0);
+	const fee = Number(metadataOf(txn).fee) || 0;
+	const currency = normalizeCurrency(txn.currency);
+	const description = `Payout settled for ${txn.user?.email || "user"}`;
+	const captured = await holdService.capture(txn._id, [{ account: systemAccount("cash", currency), credit: amt - fee }], {
+		session,
+		description,
+		fee: { type: txn.type as FeeType, amount: fee },
+		actor,
+	});
+	// Payouts created before holds were debited up front into payouts clearing
+	if (!captured) {
+		await ledgerService.post(
+			{
+				description,
+				referenceType: txn.type,
+				transactionIds: [txn._id],
+				postings: [
+					{ account: systemAccount("payouts_clearing", currency), debit: amt - fee },
+					{ account: systemAccount("cash", currency), credit: amt - fee },
+				],
+				actor,
+			},
+			{ session },
+		);
+	}
+};
+
+const refundPayout: Effect = async (txn, { session, reason, actor }) => {
+	const released = await holdService.release(txn._id, { session, reason, actor });
+	// Payouts created before holds were debited up front; reverse that entry instead
+	if (!released) await holdService.reverseDirectDebit(txn._id, txn.type, { session, actor });
+};
+
+const releaseHold: Effect = async (txn, { session, reason, actor }) => {
+	await holdService.release(txn._id, { session, reason, actor });
+};
+
+const creditDeposit: Effect = async (txn, { session, actor }) => {
+	const user = await ownerOf(txn, session);
+	const amt = Math.abs(Number(txn.amount) || 0);
+	const currency = normalizeCurrency(txn.currency);
+	await ledgerService.post(
+		{
+			description: `${txn.type === "deposit" ? "Deposit" : "Crypto deposit"} approved for ${user.email}`,
+			referenceType: txn.type,
+			transactionIds: [txn._id],
+			postings: [
+				{ account: systemAccount("cash", currency), debit: amt },
+				{ account: userAccount(user._id, "deposit", currency), credit: amt },
+			],
+			actor,
+		},
+		{ session },
+	);
+};
+
+const MACHINES: Record<string, StateMachine> = {
+	deposit: {
+		transitions: { pending: ["approved", "rejected"] },
+		effects: { approved: creditDeposit },
+	},
+
+	withdrawal: {
+		transitions: {
+			pending: ["processing", "approved", "rejected", "failed"],
+			processing: ["pending", "approved", "rejected", "failed"],
+		},
+		effects: {
+			approved: async (txn, { session, from, actor }) => {
+				const user = await ownerOf(txn, session);
+				const amount = Number(txn.amount) || 0;
+				const fee = Number(metadataOf(txn).fee) || 0;
+				const description = `Withdrawal approved for ${user.email}`;
+
+				// Funds reserved when the withdrawal was requested are paid out of the hold
+				const captured = await holdService.capture(txn._id, [{ account: systemAccount("cash"), credit: amount }], {
+					session,
+					description,
+					fee: { type: "withdrawal", amount: fee },
+					actor,
+				});
+
+				// Withdrawals requested before holds existed are deducted on approval
+				if (!captured && from === "pending") {
+					try {
+						await ledgerService.post(
+							{
+								description,
+								referenceType: "withdrawal",
+								transactionIds: [txn._id],
+								postings: [
+									...ledgerService.spendPostings(user, amount, { buckets: ["deposit", "interest"] }),
+									{ account: systemAccount("cash"), credit: amount },
+								],
+								actor,
+							},
+							{ session },
+						);
+					} catch (err) {
+						if (err instanceof InsufficientFundsError) throw new TransactionStateError(400, "Insufficient user balance.");
+						throw err;
+					}
+				}
+
+				if (captured || from === "pending") {
+					// Lifetime withdrawn total; not part of the spendable balance
+					await User.updateOne({ _id: user._id }, { $inc: { withdraw: amount } }, { session });
+				}
+			},
+			rejected: releaseHold,
+			failed: releaseHold,
+		},
+	},
+
+	contract: {
+		transitions: {
+			pending: ["active", "rejected"],
+			active: ["completed", "rejected", "terminated"],
+		},
+		effects: {
+			// Principal goes back to the user's deposit
+			rejected: async (txn, { session, actor }) => {
+				const user = await ownerOf(txn, session);
+				await ledgerService.post(
+					{
+						description: `Contract rejected - principal refunded`,
+						referenceType: "contract",
+						transactionIds: [txn._id],
+						postings: [
+							{ account: systemAccount("contract_principal"), debit: Number(txn.amount) },
+							{ account: userAccount(user._id, "deposit"), credit: Number(txn.amount) },
+						],
+						actor,
+					},
+					{ session },
+				);
+				txn.amount = 0;
+			},
+			// Early exit requested by the user: the principal is refunded less the penalty recorded in
+			// planData.termination; interest accrued so far stays with the user
+			terminated: async (txn, { session, actor }) => {
+				const user = await ownerOf(txn, session);
+				const termination = txn.planData?.termination;
+				if (!termination) throw new TransactionStateError(400, "Contract has no termination terms");
+				const principal = Number(txn.amount);
+				await ledgerService.post(
+					{
+						description: `Contract terminated early - principal refunded less penalty`,
+						referenceType: "contract",
+						transactionIds: [txn._id],
+						postings: [
+							{ account: systemAccount("contract_principal"), debit: principal },
+							{ account: userAccount(user._id, "deposit"), credit: Number(termination.refund) },
+							{ account: systemAccount("penalty_revenue"), credit: Number(termination.penalty) },
+						],
+						actor,
+					},
+					{ session },
+				);
+			},
+			// Principal and the interest not yet accrued day by day are paid out
+			completed: async (txn, { session, actor }) => {
+				const user = await ownerOf(txn, session);
+				const principal = Number(txn.amount);
+				const interest = Number(txn.planData ? txn.planData.interest : 0) || 0;
+				const accrued = Number(txn.planData ? txn.planData.accruedInterest : 0) || 0;
+				const remaining = Math.max(0, Math.round((interest - accrued) * 100) / 100);
+				await ledgerService.post(
+					{
+						description: `Contract completed - principal and interest paid`,
+						referenceType: "contract",
+						transactionIds: [txn._id],
+						postings: [
+							{ account: systemAccount("contract_principal"), debit: principal },
+							{ account: systemAccount("interest_expense"), debit: remaining },
+							{ account: userAccount(user._id, "deposit"), credit: principal },
+							{ account: userAccount(user._id, "interest"), credit: remaining },
+						],
+						actor,
+					},
+					{ session },
+				);
+			},
+		},
+	},
+
+	external_transfer: {
+		transitions: {
+			pending: ["processing", "completed", "rejected"],
+			processing: ["completed", "rejected"],
+		},
+		effects: { completed: settlePayout, rejected: refundPayout },
+	},
+
+	crypto_withdrawal: {
+		transitions: {
+			pending: ["processing", "completed", "rejected"],
+			processing: ["completed", "rejected"],
+		},
+		effects: { completed: settlePayout, rejected: refundPayout },
+	},
+
+	crypto_deposit: {
+		transitions: { pending: ["completed", "rejected"] },
+		effects: { completed: creditDeposit },
+	},
+
+	flight_booking: {
+		transitions: { pending: ["completed", "rejected"] },
+		effects: {
+			// Bookings are charged from their hold once approved
+			completed: async (txn, { session, actor }) => {
+				const amt = Math.abs(Number(txn.amount) || 0);
+				const platformFee = Number(metadataOf(txn).platformFee) || 0;
+				const currency = normalizeCurrency(txn.currency);
+				const description = txn.get("description") || "Flight booking";
+				const vendorCredit = { account: systemAccount("vendor_payable", currency), credit: amt - platformFee };
+				const captured = await holdService.capture(txn._id, [vendorCredit], {
+					session,
+					description,
+					fee: { type: "flight_booking", amount: platformFee },
+					actor,
+				});
+				if (captured) return;
+
+				const user = await ownerOf(txn, session);
+				const spend = feeService.spendPostings(user, { amount: amt - platformFee, fee: platformFee, currency });
+				await ledgerService.post(
+					{
+						description,
+						referenceType: txn.type,
+						transactionIds: [txn._id],
+						postings: [...spend.principal, vendorCredit],
+						actor,
+					},
+					{ session },
+				);
+				await feeService.charge(
+					{
+						type: "flight_booking",
+						amount: platformFee,
+						currency,
+						debits: spend.fee,
+						transactionIds: [txn._id],
+						description,
+						actor,
+					},
+					session,
+				);
+			},
+			rejected: releaseHold,
+		},
+	},
+};
+
+// Settled the moment they are created; their status never changes afterwards
+for (const type of [
+	"internal_transfer",
+	"card_funding",
+	"card_refund",
+	"gift_card_purchase",
+	"gift_card_redemption",
+	"virtual_card_purchase",
+	"metals_order",
+	"referral_bonus",
+	"interest_payout",
+	"bonus",
+	"admin_adjustment",
+]) {
+	MACHINES[type] = { transitions: { completed: [] } };
+}
+
+class TransactionStateMachine {
+	/**
+	 * Statuses a transaction can move to from its current one
+	 */
+	allowedTransitions(type: string, from: string): string[] {
+		return MACHINES[type]?.transitions[from] || [];
+	}
+
+	canTransition(type: string, from: string, to: string): boolean {
+		return this.allowedTransitions(type, from).includes(to);
+	}
+
+	/**
+	 * Throws a TransactionStateError explaining why `txn` cannot move to `to`
+	 */
+	assertTransition(txn: any, to: string): void {
+		const type = String(txn.type || "");
+		const from = String(txn.status || "");
+		const machine = MACHINES[type];
+		if (!machine) throw new TransactionStateError(400, `Transactions of type ${type} have no status transitions`);
+
+		const known = new Set([...Object.keys(machine.transitions), ...Object.values(machine.transitions).flat()]);
+		if (!known.has(to)) throw new TransactionStateError(400, `Invalid ${type} status: ${to}`);
+		if (from === to) throw new TransactionStateError(409, `Transaction is already ${to}`);
+
+		const allowed = this.allowedTransitions(type, from);
+		if (!allowed.includes(to)) {
+			throw new TransactionStateError(
+				409,
+				allowed.length
+					? `Cannot move a ${type} transaction from ${from} to ${to}; allowed: ${allowed.join(", ")}`
+					: `Cannot move a ${type} transaction from ${from} to ${to}; ${from} is final`,
+			);
+		}
+	}
+
+	/**
+	 * Move a transaction to `to` inside the caller's unit of work: checks the transition is legal,
+	 * runs its ledger side effects, records it in the status history with the actor and saves.
+	 */
+	async transition(txn: any, to: string, ctx: TransitionContext) {
+		this.assertTransition(txn, to);
+		const from = String(txn.status);
+
+		const effect = MACHINES[txn.type].effects?.[to];
+		if (effect) await effect(txn, { ...ctx, from });
+
+		const now = new Date();
+		txn.status = to;
+		if (!this.allowedTransitions(txn.type, to).length) txn.processedAt = now;
+		txn.statusHistory.push({
+			from,
+			to,
+			at: now,
+			actor: { userId: ctx.actor?.userId || null, email: ctx.actor?.email || "" },
+			reason: ctx.reason || "",
+		});
+		await txn.save({ session: ctx.session });
+		return txn;
+	}
+}
+
+export default new TransactionStateMachine();
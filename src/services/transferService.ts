@@ -0,0 +1,93 @@
+import { ClientSession } from "mongoose";
+import { User } from "../models/user";
+import { Transaction } from "../models/transaction";
+import ledgerService, { userAccount } from "./ledgerService";
+import feeService from "./feeService";
+import { UnitOfWorkError } from "../utils/unitOfWork";
+
+export interface InternalTransferInput {
+	fromUserId: string;
+	toUserId: string;
+	amount: number;
+	currency: string;
+	memo?: string;
+	actor?: { userId?: string; email?: string };
+	// Extra fields recorded on both transactions, e.g. the standing order that triggered the transfer
+	metadata?: Record<string, unknown>;
+}
+
+class TransferService {
+	/**
+	 * Move funds between two platform users inside the caller's unit of work. Records a debit
+	 * and a credit transaction and posts the matching journal entry, plus a fee entry when the
+	 * internal_transfer schedule charges one; throws InsufficientFundsError when the sender
+	 * cannot cover the amount and fee.
+	 */
+	async internalTransfer(input: InternalTransferInput, session: ClientSession) {
+		const { amount, currency, memo } = input;
+		const fromUser = await User.findById(input.fromUserId).session(session);
+		const toUser = await User.findById(input.toUserId).session(session);
+		if (!fromUser || !toUser) throw new UnitOfWorkError(404, "User not found");
+		const quote = await feeService.quote("internal_transfer", amount, { user: fromUser, currency });
+
+		const [outTxn, inTxn] = await Transaction.create(
+			[
+				{
+					type: "internal_transfer",
+					user: { id: fromUser._id, email: fromUser.email, name: `${fromUser.firstName} ${fromUser.lastName}` },
+					status: "completed",
+					amount: quote.total * -1,
+					currency,
+					description: memo || `Transfer to ${toUser.email}`,
+					metadata: { ...input.metadata, toUserId: toUser._id.toString(), fee: quote.fee },
+				},
+				{
+					type: "internal_transfer",
+					user: { id: toUser._id, email: toUser.email, name: `${toUser.firstName} ${toUser.lastName}` },
+					status: "completed",
+					amount,
+					currency,
+					description: memo || `Transfer from ${fromUser.email}`,
+					metadata: { ...input.metadata, fromUserId: fromUser._id.toString(), fee: 0 },
+				},
+			],
+			{ session, ordered: true },
+		);
+
+		// Sender spends deposit first, then interest; recipient is credited to deposit
+		const spend = feeService.spendPostings(fromUser, quote, { buckets: ["deposit", "interest"] });
+		const description = memo || `Internal transfer ${fromUser.email} -> ${toUser.email}`;
+		await ledgerService.post(
+			{
+				description,
+				referenceType: "internal_transfer",
+				transactionIds: [outTxn._id, inTxn._id],
+				postings: [...spend.principal, { account: userAccount(toUser._id, "deposit", currency), credit: amount }],
+				actor: input.actor,
+			},
+			{ session },
+		);
+		await feeService.charge(
+			{
+				type: "internal_transfer",
+				amount: quote.fee,
+				currency,
+				debits: spend.fee,
+				transactionIds: [outTxn._id],
+				description,
+				actor: input.actor,
+			},
+			session,
+		);
+
+		return {
+			fromUser,
+			toUser,
+			transactions: [outTxn, inTxn],
+			fee: quote.fee,
+			newBalance: await ledgerService.getAvailableBalance(fromUser._id, session, currency),
+		};
+	}
+}
+
+export default new TransferService();
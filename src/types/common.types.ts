@@ -45,12 +45,43 @@ export interface IMarketRate {
   updatedAt: Date;
 }
 
+// Metal Spot Price Interface (for database); prices are USD per troy ounce
+export interface IMetalPrice {
+  _id: string;
+  metal: 'gold' | 'silver' | 'platinum' | 'palladium';
+  displayName: string;
+  symbol: string;
+  currentPrice: number;
+  previousPrice?: number;
+  change?: number;
+  changePercent?: number;
+  lastUpdated: Date;
+  source: string;
+  isActive: boolean;
+  historicalData: Array<{
+    date: Date;
+    price: number;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Pagination and Query Types
 export interface PaginationQuery {
   page?: number;
   limit?: number;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
+  // Opaque position from a previous page's `nextCursor`; used instead of `page` where supported
+  cursor?: string;
+}
+
+// One page of a cursor-paginated list, returned as ApiResponse data
+export interface CursorPage<T> {
+  items: T[];
+  limit: number;
+  hasMore: boolean;
+  nextCursor: string | null;
 }
 
 // API Response Wrapper
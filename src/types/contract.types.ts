@@ -11,7 +11,40 @@ export type ContractProductType =
   | "palladium";
 
 
-export type DeliveryPeriod = "immediate" | "1_month" | "3_months" | "6_months";
+export const CONTRACT_PRODUCT_TYPES: ContractProductType[] = [
+  "gold_bar",
+  "gold_coin",
+  "silver_bar",
+  "silver_coin",
+  "platinum",
+  "palladium",
+];
+
+export const METALS = ["gold", "silver", "platinum", "palladium"] as const;
+
+export type Metal = (typeof METALS)[number];
+
+// Spot price each product is valued at
+export const METAL_OF_PRODUCT: Record<ContractProductType, Metal> = {
+  gold_bar: "gold",
+  gold_coin: "gold",
+  silver_bar: "silver",
+  silver_coin: "silver",
+  platinum: "platinum",
+  palladium: "palladium",
+};
+
+export const DELIVERY_PERIODS = ["immediate", "1_month", "3_months", "6_months"] as const;
+
+export type DeliveryPeriod = (typeof DELIVERY_PERIODS)[number];
+
+// Delivery tracking of one order line: scheduled for its delivery period, then shipped and delivered
+export const DELIVERY_STATUSES = ["scheduled", "shipped", "delivered"] as const;
+
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+// Derived from the lines: delivered once every line is
+export type MetalOrderStatus = "processing" | "partially_delivered" | "delivered";
 
 // Contract Product Interface
 export interface ContractProduct {
@@ -26,6 +59,45 @@ export interface ContractProduct {
 }
 
 
+// Order line as stored: a ContractProduct priced at checkout plus its delivery tracking
+export interface MetalOrderLine extends ContractProduct {
+  _id: string;
+  productId: string;
+  name: string;
+  // Grams per unit and fineness, for holdings
+  weightGrams: number;
+  purity: number;
+  status: DeliveryStatus;
+  expectedAt: Date;
+  shippedAt: Date | null;
+  deliveredAt: Date | null;
+  trackingNumber: string;
+}
+
+// Checkout request line (POST /api/metals/quote and /api/metals/orders)
+export interface MetalOrderItem {
+  productId: string;
+  quantity: number;
+  deliveryPeriod: DeliveryPeriod;
+}
+
+// A user's position in one catalogue product across their orders
+export interface MetalHolding {
+  productId: string;
+  product: ContractProductType;
+  name: string;
+  weight: string;
+  quantity: number;
+  deliveredQuantity: number;
+  pendingQuantity: number;
+  weightGrams: number;
+  // Pure metal content in troy ounces
+  fineOunces: number;
+  cost: number;
+  // At the latest stored spot price, or the catalogue price when there is none
+  value: number;
+}
+
 // Portfolio Interface
 export interface Portfolio {
   products: ContractProduct[];
@@ -45,10 +117,14 @@ export interface IContractPlan {
   tier: string;
   description: string;
   minContract: number;
-  maxContract: number;
+  // null: no upper bound
+  maxContract: number | null;
+  // Percent of the principal per day
   dailyReturn: number;
+  // Contract term in days
   planDuration: number;
   goldBacking: number;
+  // USD per 24 hours while the user holds an active contract on the plan; 0: no limit
   withdrawalLimit: number;
   features: string[];
   color: {
@@ -57,9 +133,13 @@ export interface IContractPlan {
     accent: string;
   };
   isActive: boolean;
+  earlyTerminationPenalty?: number;
+  // Derived from the fields above
+  roi: number;
+  minAmount: number;
+  duration: string;
   createdAt: Date;
   updatedAt: Date;
-  
 }
 
 
@@ -3,22 +3,47 @@
 // =============================================================================
 
 import mongoose from "mongoose";
+import { PaginationQuery } from "./common.types";
 
-export type TransactionType = 
-  | "deposit" 
-  | "withdrawal" 
-  | "contract" 
-  | "interest_payout" 
-  | "bonus" 
-  | "referral_bonus";
-
-export type TransactionStatus = 
-  | "pending" 
-  | "approved" 
-  | "rejected" 
-  | "processing" 
-  | "completed" 
-  | "failed";
+// Every type the API creates; each is a discriminator of the Transaction model
+export const TRANSACTION_TYPES = [
+  "deposit",
+  "withdrawal",
+  "contract",
+  "interest_payout",
+  "bonus",
+  "referral_bonus",
+  "internal_transfer",
+  "external_transfer",
+  "crypto_deposit",
+  "crypto_withdrawal",
+  "gift_card_purchase",
+  "gift_card_redemption",
+  "virtual_card_purchase",
+  "card_funding",
+  "card_refund",
+  "flight_booking",
+  "metals_order",
+  "admin_adjustment",
+] as const;
+
+export type TransactionType = (typeof TRANSACTION_TYPES)[number];
+
+// Types only found on old documents; they are still readable but nothing creates them
+export const LEGACY_TRANSACTION_TYPES = ["investment", "gold_investment"] as const;
+
+export type LegacyTransactionType = (typeof LEGACY_TRANSACTION_TYPES)[number];
+
+export type TransactionStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "processing"
+  | "completed"
+  | "failed"
+  | "active"
+  | "terminated"
+  | "requires_manual";
 
 // Wallet Data for crypto transactions
 export interface WalletData {
@@ -28,11 +53,44 @@ export interface WalletData {
   convertedAmount: number;
 }
 
+// What happens to a contract's money when it matures
+export const CONTRACT_ROLLOVER_MODES = ["none", "principal", "principal_and_interest"] as const;
+
+export type RolloverMode = (typeof CONTRACT_ROLLOVER_MODES)[number];
+
 // Plan Data for contract transactions
 export interface PlanData {
   plan: string;
   duration: string;
   interest: number;
+  // When the contract completes on its own; null when the duration could not be parsed
+  maturesAt?: Date | null;
+  // Interest credited day by day so far, and the number of contract days it covers
+  accruedInterest?: number;
+  accruedDays?: number;
+  // When the next contract day ends and can accrue; null once every day has accrued
+  nextAccrualAt?: Date | null;
+  planId?: mongoose.Types.ObjectId;
+  // Percent of the principal kept on early termination, fixed when the contract opens
+  earlyTerminationPenalty?: number;
+  termination?: ContractTermination;
+  // Reinvest into a new contract on maturity; planId null means the same plan
+  rollover?: { mode: RolloverMode; planId: mongoose.Types.ObjectId | null };
+  // Part of the principal taken from the interest balance (a rollover that reinvested interest)
+  fundedFromInterest?: number;
+  rolledFromId?: mongoose.Types.ObjectId;
+  rolledIntoId?: mongoose.Types.ObjectId;
+  // Why the rollover did not happen at maturity
+  rolloverSkipped?: string;
+}
+
+// Outcome of a contract the user exited before maturity
+export interface ContractTermination {
+  accruedInterest: number;
+  penaltyPercent: number;
+  penalty: number;
+  refund: number;
+  terminatedAt: Date;
 }
 
 // Gold Contract Data for gold contract transactions
@@ -45,24 +103,141 @@ export interface GoldContractData {
   duration: number; // in days
 }
 
+// NOWPayments automated payout fields (withdrawals only)
+export interface PayoutData {
+  payoutProvider: "nowpayments" | "manual" | null;
+  nowPaymentsId: string | null;
+  nowPaymentsTxHash: string | null;
+  autoProcessed: boolean;
+  payoutError: string | null;
+  payoutAttempts: number;
+  lastAttemptAt: Date | null;
+}
+
+// Every metadata field a transaction type may carry; each type picks its own below
+export interface TransactionMetadataFields {
+  // Set when an admin rejects the transaction
+  rejectionReason: string;
+  // Funds reserved while the transaction is pending (see holdService)
+  holdId: mongoose.Types.ObjectId;
+  fee: number;
+  feePct: number;
+  // Internal transfers
+  toUserId: string;
+  fromUserId: string;
+  standingOrderId: string;
+  paymentRequestId: string;
+  // External transfers
+  beneficiary: string;
+  bankDetails: Record<string, any>;
+  beneficiaryId: string | null;
+  // Crypto
+  address: string;
+  chain: string;
+  // Gift cards
+  productId: string;
+  giftCardId: string;
+  giftCardCode: string;
+  cardAmount: number;
+  recipient: string;
+  // Cards
+  cardId: string;
+  cardDetails: Record<string, any>;
+  fundingAmount: number;
+  issuanceFee: number;
+  last4: string;
+  // Flights
+  vendor: string;
+  flightDetails: Record<string, any>;
+  passengers: Record<string, any>[];
+  basePrice: number;
+  flightId: string;
+  origin: string;
+  destination: string;
+  departureTime: string;
+  carrier: string;
+  platformFeePercent: number;
+  platformFee: number;
+  totalAmount: number;
+  // Metals orders
+  metalsOrderId: string;
+  orderNumber: string;
+  // Referral bonuses
+  referredUserId: string;
+  depositId: string;
+  // Admin adjustments
+  deltas: { deposit: number; interest: number; bonus: number };
+  withdraw: { from: number; to: number };
+  adjustedBy: string;
+}
+
+type MetadataOf<K extends keyof TransactionMetadataFields> = Pick<TransactionMetadataFields, "rejectionReason" | K>;
+
+// Metadata each transaction type accepts; anything else is dropped on save
+export interface TransactionMetadataMap {
+  deposit: MetadataOf<never>;
+  withdrawal: MetadataOf<"holdId" | "fee">;
+  contract: MetadataOf<never>;
+  interest_payout: MetadataOf<never>;
+  bonus: MetadataOf<never>;
+  referral_bonus: MetadataOf<"referredUserId" | "depositId">;
+  internal_transfer: MetadataOf<"toUserId" | "fromUserId" | "fee" | "standingOrderId" | "paymentRequestId">;
+  external_transfer: MetadataOf<"beneficiary" | "bankDetails" | "beneficiaryId" | "feePct" | "fee" | "holdId">;
+  crypto_deposit: MetadataOf<"address" | "chain">;
+  crypto_withdrawal: MetadataOf<"address" | "chain" | "fee" | "holdId">;
+  gift_card_purchase: MetadataOf<"productId" | "giftCardId" | "giftCardCode" | "cardAmount" | "recipient" | "fee">;
+  gift_card_redemption: MetadataOf<"giftCardId" | "giftCardCode">;
+  virtual_card_purchase: MetadataOf<"cardId" | "cardDetails" | "fundingAmount" | "issuanceFee" | "last4" | "fee">;
+  card_funding: MetadataOf<"cardId" | "fee">;
+  card_refund: MetadataOf<"cardId">;
+  flight_booking: MetadataOf<
+    | "vendor"
+    | "flightDetails"
+    | "passengers"
+    | "basePrice"
+    | "flightId"
+    | "origin"
+    | "destination"
+    | "departureTime"
+    | "carrier"
+    | "platformFeePercent"
+    | "platformFee"
+    | "totalAmount"
+    | "fee"
+    | "feePct"
+    | "holdId"
+  >;
+  metals_order: MetadataOf<"metalsOrderId" | "orderNumber">;
+  admin_adjustment: MetadataOf<"deltas" | "withdraw" | "adjustedBy">;
+}
+
+export type TransactionMetadata<T extends TransactionType = TransactionType> = Partial<TransactionMetadataMap[T]>;
+
+export interface StatusChange {
+  from: string;
+  to: string;
+  at: Date;
+  actor: { userId: mongoose.Types.ObjectId | null; email: string };
+  reason: string;
+}
 
 // Transaction Interface (for database)
-export interface ITransaction {
-  _id: string;
-  type: TransactionType;
-  userId: mongoose.Types.ObjectId;
+export interface ITransaction<T extends TransactionType = TransactionType> extends Partial<PayoutData> {
+  _id: mongoose.Types.ObjectId;
+  type: T;
+  user: { id: mongoose.Types.ObjectId; email: string; name: string };
   status: TransactionStatus;
+  currency: string;
+  description: string;
   amount: number;
   date: Date;
+  metadata: TransactionMetadata<T>;
+  // deposit and withdrawal only
   walletData?: WalletData;
+  // contract only
   planData?: PlanData;
-  goldContractData?: GoldContractData;
-  transactionNumber: string;
-  // NOWPayments integration fields
-  nowPaymentsId?: string;
-  nowPaymentsTxHash?: string;
-  autoProcessed?: boolean;
-  payoutError?: string;
+  processedAt: Date | null;
+  statusHistory: StatusChange[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -77,19 +252,24 @@ export interface CreateTransactionRequest {
   goldContractData?: Partial<GoldContractData>;
 }
 
-// Transaction Query Parameters
-export interface TransactionQuery {
+export type TransactionSortField = "date" | "amount" | "createdAt" | "updatedAt";
+
+// Transaction Query Parameters (GET /api/transactions/search)
+export interface TransactionQuery extends PaginationQuery {
   userId?: string;
-  type?: TransactionType;
-  status?: TransactionStatus;
+  email?: string;
+  type?: (TransactionType | LegacyTransactionType)[];
+  status?: TransactionStatus[];
+  currency?: string;
+  payoutProvider?: PayoutData["payoutProvider"];
+  // Matched against the description and wallet address
+  search?: string;
   startDate?: Date;
-  endDate?: Date;
+  endDate?: Date; // exclusive
+  // Signed as stored: outgoing movements such as transfers are negative
   minAmount?: number;
   maxAmount?: number;
-  page?: number;
-  limit?: number;
-  sortBy?: string;
-  sortOrder?: 'asc' | 'desc';
+  sortBy?: TransactionSortField;
 }
 
 // Transaction Response with User Population
@@ -99,7 +99,8 @@ function buildDiff(before: JsonLike, after: JsonLike): JsonLike {
 }
 
 interface AuditInput {
-	req: Request;
+	// Omitted for actions taken by background jobs
+	req?: Request;
 	action: string;
 	actor?: { userId?: string; email?: string; isAdmin?: boolean };
 	target: { entityType: string; entityId: string; userId?: string; email?: string };
@@ -112,9 +113,9 @@ interface AuditInput {
 
 export async function logAudit(input: AuditInput): Promise<void> {
 	try {
-		const requestMeta = extractRequestMeta(input.req);
-		const geo = await resolveGeo(requestMeta.ip);
-		if (geo) {
+		const requestMeta = input.req ? extractRequestMeta(input.req) : null;
+		const geo = requestMeta ? await resolveGeo(requestMeta.ip) : null;
+		if (requestMeta && geo) {
 			requestMeta.country = geo.country || requestMeta.country;
 			requestMeta.city = geo.city || requestMeta.city;
 			requestMeta.region = geo.region || requestMeta.region;
@@ -136,7 +137,7 @@ export async function logAudit(input: AuditInput): Promise<void> {
 				userId: input.target.userId || null,
 				email: input.target.email || "",
 			},
-			request: requestMeta,
+			request: requestMeta || {},
 			changes: {
 				before: input.before ?? null,
 				after: input.after ?? null,
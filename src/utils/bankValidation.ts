@@ -0,0 +1,43 @@
+// Format and checksum checks for bank account identifiers
+
+export const normalizeIban = (iban: string) => String(iban || "").replace(/\s+/g, "").toUpperCase();
+
+/**
+ * US ABA routing number: 9 digits with the 3-7-1 weighted checksum
+ */
+export function isValidRoutingNumber(value: string): boolean {
+	const digits = String(value || "").trim();
+	if (!/^\d{9}$/.test(digits)) return false;
+	const d = digits.split("").map(Number);
+	const sum = 3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+	return sum % 10 === 0;
+}
+
+/**
+ * IBAN: country code, check digits and BBAN, validated with the ISO 7064 mod-97 check
+ */
+export function isValidIban(value: string): boolean {
+	const iban = normalizeIban(value);
+	if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+	const rearranged = iban.slice(4) + iban.slice(0, 4);
+	let remainder = 0;
+	for (const char of rearranged) {
+		const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+		for (const digit of code) remainder = (remainder * 10 + Number(digit)) % 97;
+	}
+	return remainder === 1;
+}
+
+/**
+ * SWIFT/BIC: 4-letter bank code, 2-letter country, 2-character location, optional 3-character branch
+ */
+export const isValidBic = (value: string) => /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(String(value || "").trim().toUpperCase());
+
+// Domestic account numbers vary by bank; accept 4-17 digits like ACH does
+export const isValidAccountNumber = (value: string) => /^\d{4,17}$/.test(String(value || "").trim());
+
+export const maskAccount = (value: string) => {
+	const text = String(value || "");
+	return text.length > 4 ? `****${text.slice(-4)}` : text;
+};
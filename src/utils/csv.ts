@@ -0,0 +1,17 @@
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+const escapeCsv = (value: CsvValue): string => {
+	if (value === null || value === undefined) return "";
+	const text = value instanceof Date ? value.toISOString() : String(value);
+	// Quote fields with separators/quotes/newlines; prefix formula characters so spreadsheets don't evaluate them
+	const numeric = /^-?\d+(\.\d+)?$/.test(text);
+	const safe = !numeric && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+	return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * RFC 4180 CSV with CRLF line endings
+ */
+export function toCsv(rows: CsvValue[][]): string {
+	return rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n") + "\r\n";
+}
@@ -1,13 +1,24 @@
 import { transporter } from "./emailConfig";
 import { emailTemplate } from "./emailTemplate";
 
+interface MailAttachment {
+	filename: string;
+	content: Buffer | string;
+	contentType?: string;
+}
+
 interface MailData {
 	from: string;
 	to: string;
 	subject: string;
 	html: string;
+	attachments?: MailAttachment[];
 }
 
+// User-entered text (memos, reasons) shown in emails sent to other users
+const escapeHtml = (text: string) =>
+	String(text).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
 const sendMail = (mailData: MailData): Promise<any> => {
 	return new Promise((resolve, reject) => {
 		transporter.sendMail(mailData, (err: any, info: any) => {
@@ -629,6 +640,448 @@ export async function contractRejected(userEmail:string, fullName:string, amount
 		return { error: error instanceof Error && error.message };
 	}
 }
+// Contract terminated early at the user's request
+export async function contractTerminated(
+	userEmail: string,
+	fullName: string,
+	amount: number,
+	date: NativeDate,
+	contractType = "",
+	outcome: { accruedInterest: number; penalty: number; refund: number },
+) {
+	try {
+		let bodyContent = `
+      <td style="padding: 20px; line-height: 1.8;">
+        <p>Dear ${fullName},</p>
+        <p>Contract Terminated Early</p>
+        <p>
+          Your contract${contractType ? ` in ${contractType}` : ""} of <strong>$${amount}</strong>
+          was terminated early at your request on ${date}.
+        </p>
+        <p>
+          Interest earned to date: <strong>$${outcome.accruedInterest}</strong><br />
+          Early termination penalty: <strong>$${outcome.penalty}</strong><br />
+          Principal refunded to your balance: <strong>$${outcome.refund}</strong>
+        </p>
+        <p>
+          If you did not request this or have questions, reach out
+          to our support team at support@instantglobal.com.
+        </p>
+        <p>Best regards</p>
+        <p>The InstantGlobal Team</p>
+      </td>
+    `;
+
+		let mailOptions = {
+			from: process.env.EMAIL_FROM || "noreply@instantglobal.com",
+			to: userEmail,
+			subject: "Contract Terminated Early",
+			html: emailTemplate(bodyContent),
+		};
+
+		const result = await sendMailWithRetry(mailOptions);
+		return result;
+	} catch (error) {
+		return { error: error instanceof Error && error.message };
+	}
+}
+
+// Matured contract reinvested into a new one, or left in the balance when the rollover could not happen
+export async function contractRolledOver(
+	userEmail: string,
+	fullName: string,
+	amount: number,
+	date: NativeDate,
+	contractType = "",
+	outcome: { plan: string; amount: number } | { skipped: string },
+) {
+	try {
+		const detail =
+			"skipped" in outcome
+				? `Your automatic reinvestment could not go ahead: ${outcome.skipped}. The principal and interest
+          have been credited to your balance instead.`
+				: `As you requested, <strong>$${outcome.amount}</strong> has been reinvested into a new
+          ${outcome.plan} contract, which is now active and earning returns.`;
+		let bodyContent = `
+      <td style="padding: 20px; line-height: 1.8;">
+        <p>Dear ${fullName},</p>
+        <p>Contract Matured</p>
+        <p>
+          Your contract${contractType ? ` in ${contractType}` : ""} of <strong>$${amount}</strong>
+          matured on ${date}.
+        </p>
+        <p>
+          ${detail}
+        </p>
+        <p>
+          You can change the reinvestment setting of your active contracts in your account dashboard.
+        </p>
+        <p>Best regards</p>
+        <p>The InstantGlobal Team</p>
+      </td>
+    `;
+
+		let mailOptions = {
+			from: process.env.EMAIL_FROM || "noreply@instantglobal.com",
+			to: userEmail,
+			subject: "skipped" in outcome ? "Contract Matured - Reinvestment Skipped" : "Contract Reinvested",
+			html: emailTemplate(bodyContent),
+		};
+
+		const result = await sendMailWithRetry(mailOptions);
+		return result;
+	} catch (error) {
+		return { error: error instanceof Error && error.message };
+	}
+}
+
+// Metals order paid; lines are delivered on their own delivery periods
+export async function metalsOrderPlaced(
+	userEmail: string,
+	fullName: string,
+	orderNumber: string,
+	amount: number,
+	date: NativeDate,
+	lines: { name: string; quantity: number; expectedAt: Date }[],
+) {
+	try {
+		const items = lines
+			.map((line) => `${line.quantity} x ${line.name} - expected by ${line.expectedAt.toDateString()}`)
+			.join("<br />");
+		let bodyContent = `
+      <td style="padding: 20px; line-height: 1.8;">
+        <p>Dear ${fullName},</p>
+        <p>Metals Order Confirmed</p>
+        <p>
+          Your order <strong>${orderNumber}</strong> of <strong>$${amount}</strong> was paid on ${date}.
+        </p>
+        <p>
+          ${items}
+        </p>
+        <p>
+          You can follow each delivery in your account dashboard.
+        </p>
+        <p>Best regards</p>
+        <p>The InstantGlobal Team</p>
+      </td>
+    `;
+
+		let mailOptions = {
+			from: process.env.EMAIL_FROM || "noreply@instantglobal.com",
+			to: userEmail,
+			subject: `Metals Order ${orderNumber} Confirmed`,
+			html: emailTemplate(bodyContent),
+		};
+
+		const result = await sendMailWithRetry(mailOptions);
+		return result;
+	} catch (error) {
+		return { error: error instanceof Error && error.message };
+	}
+}
+
+// A metals order line was shipped or delivered
+export async function metalsDeliveryUpdate(
+	userEmail: string,
+	fullName: string,
+	orderNumber: string,
+	line: { name: string; quantity: number; status: string; trackingNumber?: string },
+) {
+	try {
+		let bodyContent = `
+      <td style="padding: 20px; line-height: 1.8;">
+        <p>Dear ${fullName},</p>
+        <p>Metals Order Update</p>
+        <p>
+          ${line.quantity} x ${line.name} from order <strong>${orderNumber}</strong> has been <strong>${line.status}</strong>.
+          ${line.trackingNumber ? `<br />Tracking number: <strong>${line.trackingNumber}</strong>` : ""}
+        </p>
+        <p>
+          If you have questions or need assistance, reach out
+          to our support team at support@instantglobal.com.
+        </p>
+        <p>Best regards</p>
+        <p>The InstantGlobal Team</p>
+      </td>
+    `;
+
+		let mailOptions = {
+			from: process.env.EMAIL_FROM || "noreply@instantglobal.com",
+			to: userEmail,
+			subject: `Metals Order ${orderNumber} ${line.status === "delivered" ? "Delivered" : "Shipped"}`,
+			html: emailTemplate(bodyContent),
+		};
+
+		const result = await sendMailWithRetry(mailOptions);
+		return result;
+	} catch (error) {
+		return { error: error instanceof Error && error.message };
+	}
+}
+
+// Monthly account statement (PDF and CSV attached)
+export async function monthlyStatement(
+	userEmail: string,
+	fullName: string,
+	period: string,
+	attachments: MailAttachment[],
+) {
+	try {
+		let bodyContent = `
+      <td style="padding: 20px; line-height: 1.8;">
+        <p>Dear ${fullName},</p>
+        <p>Your account statement for <strong>${period}</strong> is ready.</p>
+        <p>
+          The statement is attached as a PDF, with a CSV copy for spreadsheets. You can also download
+          statements for any month from your dashboard.
+        </p>
+        <p>
+          If you have questions or need assistance, reach out 
+          to our support team at support@instantglobal.com.
+        </p>
+        <p>Best regards</p>
+        <p>The InstantGlobal Team</p>
+      </td>
+    `;
+
+		let mailOptions: MailData = {
+			from: process.env.EMAIL_FROM || "noreply@instantglobal.com",
+			to: userEmail,
+			subject: `Your InstantGlobal statement for ${period}`,
+			html: emailTemplate(bodyContent),
+			attachments,
+		};
+
+		const result = await sendMailWithRetry(mailOptions);
+		return result;
+	} catch (error) {
+		return { error: error instanceof Error && error.message };
+	}
+}
+
+// Standing order paid
+export async function standingOrderExecuted(
+	userEmail: string,
+	fullName: string,
+	amount: number,
+	currency: string,
+	recipient: string,
+	nextRunAt: Date | null,
+	newBalance: number,
+) {
+	try {
+		let bodyContent = `
+      <td style="padding: 20px; line-height: 1.8;">
+        <p>Dear ${fullName},</p>
+        <p>Standing Order Paid</p>
+        <p>
+          Your standing order of <strong>${amount.toFixed(2)} ${currency}</strong> to ${recipient} has been paid.
+          Your available ${currency} balance is now <strong>${newBalance.toFixed(2)}</strong>.
+        </p>
+        <p>
+          ${nextRunAt ? `The next payment is scheduled for ${nextRunAt.toUTCString()}.` : "This was the last payment of this standing order."}
+        </p>
+        <p>
+          If you have questions or need assistance, reach out 
+          to our support team at support@instantglobal.com.
+        </p>
+        <p>Best regards</p>
+        <p>The InstantGlobal Team</p>
+      </td>
+    `;
+
+		let mailOptions = {
+			from: process.env.EMAIL_FROM || "noreply@instantglobal.com",
+			to: userEmail,
+			subject: "Standing Order Paid",
+			html: emailTemplate(bodyContent),
+		};
+
+		const result = await sendMailWithRetry(mailOptions);
+		return result;
+	} catch (error) {
+		return { error: error instanceof Error && error.message };
+	}
+}
+
+// Standing order could not be paid
+export async function standingOrderFailed(
+	userEmail: string,
+	fullName: string,
+	amount: number,
+	currency: string,
+	recipient: string,
+	reason: string,
+	retryAt: Date | null,
+) {
+	try {
+		let bodyContent = `
+      <td style="padding: 20px; line-height: 1.8;">
+        <p>Dear ${fullName},</p>
+        <p>Standing Order Payment Failed</p>
+        <p>
+          We could not pay your standing order of <strong>${amount.toFixed(2)} ${currency}</strong> to ${recipient}:
+          ${reason}.
+        </p>
+        <p>
+          ${retryAt ? `We will try again on ${retryAt.toUTCString()}. Please make sure enough funds are available.` : "This payment will not be retried. You can review the standing order from your dashboard."}
+        </p>
+        <p>
+          If you have questions or need assistance, reach out 
+          to our support team at support@instantglobal.com.
+        </p>
+        <p>Best regards</p>
+        <p>The InstantGlobal Team</p>
+      </td>
+    `;
+
+		let mailOptions = {
+			from: process.env.EMAIL_FROM || "noreply@instantglobal.com",
+			to: userEmail,
+			subject: "Standing Order Payment Failed",
+			html: emailTemplate(bodyContent),
+		};
+
+		const result = await sendMailWithRetry(mailOptions);
+		return result;
+	} catch (error) {
+		return { error: error instanceof Error && error.message };
+	}
+}
+
+// Payment request received
+export async function paymentRequestReceived(
+	payerEmail: string,
+	payerName: string,
+	requesterName: string,
+	amount: number,
+	currency: string,
+	memo: string,
+	expiresAt: Date,
+) {
+	try {
+		let bodyContent = `
+      <td style="padding: 20px; line-height: 1.8;">
+        <p>Dear ${payerName},</p>
+        <p>New Payment Request</p>
+        <p>
+          ${requesterName} has requested <strong>${amount.toFixed(2)} ${currency}</strong> from you${memo ? ` for "${escapeHtml(memo)}"` : ""}.
+        </p>
+        <p>
+          You can approve or decline the request from your dashboard until ${expiresAt.toUTCString()}.
+          Nothing is paid unless you approve it.
+        </p>
+        <p>
+          If you have questions or need assistance, reach out 
+          to our support team at support@instantglobal.com.
+        </p>
+        <p>Best regards</p>
+        <p>The InstantGlobal Team</p>
+      </td>
+    `;
+
+		let mailOptions = {
+			from: process.env.EMAIL_FROM || "noreply@instantglobal.com",
+			to: payerEmail,
+			subject: `${requesterName} requested ${amount.toFixed(2)} ${currency}`,
+			html: emailTemplate(bodyContent),
+		};
+
+		const result = await sendMailWithRetry(mailOptions);
+		return result;
+	} catch (error) {
+		return { error: error instanceof Error && error.message };
+	}
+}
+
+// Reminder for a payment request still waiting for an answer
+export async function paymentRequestReminder(
+	payerEmail: string,
+	payerName: string,
+	requesterName: string,
+	amount: number,
+	currency: string,
+	memo: string,
+	expiresAt: Date,
+) {
+	try {
+		let bodyContent = `
+      <td style="padding: 20px; line-height: 1.8;">
+        <p>Dear ${payerName},</p>
+        <p>Payment Request Reminder</p>
+        <p>
+          ${requesterName} is still waiting for <strong>${amount.toFixed(2)} ${currency}</strong> from you${memo ? ` for "${escapeHtml(memo)}"` : ""}.
+        </p>
+        <p>
+          You can approve or decline the request from your dashboard until ${expiresAt.toUTCString()}.
+          Nothing is paid unless you approve it.
+        </p>
+        <p>
+          If you have questions or need assistance, reach out 
+          to our support team at support@instantglobal.com.
+        </p>
+        <p>Best regards</p>
+        <p>The InstantGlobal Team</p>
+      </td>
+    `;
+
+		let mailOptions = {
+			from: process.env.EMAIL_FROM || "noreply@instantglobal.com",
+			to: payerEmail,
+			subject: "Reminder: pending payment request",
+			html: emailTemplate(bodyContent),
+		};
+
+		const result = await sendMailWithRetry(mailOptions);
+		return result;
+	} catch (error) {
+		return { error: error instanceof Error && error.message };
+	}
+}
+
+// Payment request paid, declined or expired (sent to the requester)
+export async function paymentRequestResolved(
+	requesterEmail: string,
+	requesterName: string,
+	payerName: string,
+	amount: number,
+	currency: string,
+	outcome: "paid" | "declined" | "expired",
+	reason = "",
+) {
+	try {
+		let bodyContent = `
+      <td style="padding: 20px; line-height: 1.8;">
+        <p>Dear ${requesterName},</p>
+        <p>Payment Request Update</p>
+        <p>
+          Your request for <strong>${amount.toFixed(2)} ${currency}</strong> from ${payerName}
+          ${outcome === "paid" ? "has been paid. The funds are available in your balance." : outcome === "declined" ? "was declined." : "expired without an answer."}
+        </p>
+        ${reason ? `<p>Reason: ${escapeHtml(reason)}</p>` : ""}
+        <p>
+          If you have questions or need assistance, reach out 
+          to our support team at support@instantglobal.com.
+        </p>
+        <p>Best regards</p>
+        <p>The InstantGlobal Team</p>
+      </td>
+    `;
+
+		let mailOptions = {
+			from: process.env.EMAIL_FROM || "noreply@instantglobal.com",
+			to: requesterEmail,
+			subject: `Payment request ${outcome}`,
+			html: emailTemplate(bodyContent),
+		};
+
+		const result = await sendMailWithRetry(mailOptions);
+		return result;
+	} catch (error) {
+		return { error: error instanceof Error && error.message };
+	}
+}
+
 // Admin alert for new user registration
 export async function adminNewUserAlert(
 	userEmail: string,
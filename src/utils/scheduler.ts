@@ -0,0 +1,52 @@
+interface ScheduledJob {
+	name: string;
+	intervalMs: number;
+	run: () => Promise<unknown>;
+	runOnStart?: boolean;
+}
+
+const timers = new Map<string, NodeJS.Timeout>();
+const running = new Set<string>();
+
+async function runJob(job: ScheduledJob) {
+	// A slow run is never overlapped by the next tick
+	if (running.has(job.name)) {
+		console.warn(`⏭️  Skipping ${job.name}: previous run still in progress`);
+		return;
+	}
+	running.add(job.name);
+	const started = Date.now();
+	try {
+		await job.run();
+		console.log(`⏱️  ${job.name} finished in ${Date.now() - started}ms`);
+	} catch (error) {
+		console.error(`❌ Scheduled job ${job.name} failed:`, error);
+	} finally {
+		running.delete(job.name);
+	}
+}
+
+/**
+ * Run `job` every `intervalMs` inside this process. A non-positive interval disables the job.
+ */
+export function scheduleJob(job: ScheduledJob) {
+	if (!(job.intervalMs > 0)) {
+		console.log(`⏸️  Scheduled job ${job.name} disabled`);
+		return;
+	}
+	if (timers.has(job.name)) clearInterval(timers.get(job.name));
+
+	const timer = setInterval(() => void runJob(job), job.intervalMs);
+	timer.unref();
+	timers.set(job.name, timer);
+	console.log(`🕒 Scheduled ${job.name} every ${Math.round(job.intervalMs / 60000)} min`);
+
+	if (job.runOnStart) void runJob(job);
+}
+
+// Hours from an env var, e.g. RECONCILIATION_INTERVAL_HOURS=24
+export const hoursFromEnv = (name: string, fallback: number) => {
+	const raw = process.env[name];
+	const value = raw === undefined || raw === "" ? fallback : Number(raw);
+	return (Number.isFinite(value) ? value : fallback) * 60 * 60 * 1000;
+};
@@ -0,0 +1,148 @@
+import { UserBalanceBucket } from "../models/ledger";
+import { normalizeCurrency, USER_BUCKETS } from "../services/ledgerService";
+
+/**
+ * What a transaction did to its owner's balance buckets once it took effect.
+ * `deltas` apply to named buckets directly; `spend` drains buckets in order the same way
+ * ledgerService.spendPostings does; `withdraw` moves the lifetime withdrawn counter.
+ */
+export interface BalanceEffect {
+	currency: string;
+	deltas: Partial<Record<UserBalanceBucket, number>>;
+	spend: { amount: number; buckets: UserBalanceBucket[] } | null;
+	withdraw: number;
+}
+
+const ALL_BUCKETS = USER_BUCKETS;
+const CASH_BUCKETS: UserBalanceBucket[] = ["deposit", "interest"];
+
+const effect = (currency: string, partial: Partial<BalanceEffect>): BalanceEffect => ({
+	currency,
+	deltas: {},
+	spend: null,
+	withdraw: 0,
+	...partial,
+});
+
+const spend = (currency: string, amount: number, buckets: UserBalanceBucket[]) =>
+	effect(currency, { spend: { amount, buckets } });
+
+// Pending transactions that reserved their funds with a hold (see holdService)
+const isHeld = (txn: any, status: string) => Boolean(txn?.metadata?.holdId) && ["pending", "processing"].includes(status);
+
+/**
+ * Balance effect of a transaction given its current status, or null when it has none
+ * (still pending without a hold, rejected, or a type that never touches balances).
+ */
+export function balanceEffectOf(txn: any): BalanceEffect | null {
+	const status = String(txn?.status || "");
+	const currency = normalizeCurrency(txn?.currency);
+	const amount = Number(txn?.amount) || 0;
+	const abs = Math.abs(amount);
+	const metadata = (txn?.metadata || {}) as Record<string, any>;
+
+	switch (txn?.type) {
+		case "deposit":
+			return status === "approved" ? effect(currency, { deltas: { deposit: abs } }) : null;
+
+		case "withdrawal": {
+			// The amount is what the user receives; a withdrawal fee is debited on top of it
+			const debited = abs + (Number(metadata.fee) || 0);
+			if (status === "approved") return { ...spend(currency, debited, CASH_BUCKETS), withdraw: abs };
+			// Requests made since holds exist reserve the funds while waiting for approval
+			return isHeld(txn, status) ? spend(currency, debited, CASH_BUCKETS) : null;
+		}
+
+		case "contract": {
+			// Principal leaves the user's balance when the contract opens (partly from interest when a
+			// rollover reinvested it) and comes back when it ends. Interest accrued day by day while
+			// active stays with the user whatever the outcome.
+			const fromInterest = Number(txn?.planData?.fundedFromInterest) || 0;
+			const accrued = Number(txn?.planData?.accruedInterest) || 0;
+			let deposit = -(abs - fromInterest);
+			let interest = accrued - fromInterest;
+			if (status === "completed") {
+				deposit += abs;
+				interest += Math.max(0, (Number(txn?.planData?.interest) || 0) - accrued);
+			}
+			if (status === "rejected") deposit += abs;
+			// Early exit: the principal comes back less the penalty
+			if (status === "terminated") deposit += abs - (Number(txn?.planData?.termination?.penalty) || 0);
+			if (!deposit && !interest) return null;
+			return effect(currency, { deltas: { deposit, interest } });
+		}
+
+		case "internal_transfer":
+			if (status !== "completed") return null;
+			return amount < 0 ? spend(currency, abs, CASH_BUCKETS) : effect(currency, { deltas: { deposit: abs } });
+
+		case "card_funding":
+			return status === "completed" ? spend(currency, abs, CASH_BUCKETS) : null;
+
+		// Debited when created, settled later
+		case "external_transfer":
+		case "crypto_withdrawal":
+			return ["pending", "processing", "completed"].includes(status) ? spend(currency, abs, ALL_BUCKETS) : null;
+
+		case "flight_booking":
+			return status === "completed" || isHeld(txn, status) ? spend(currency, abs, ALL_BUCKETS) : null;
+
+		case "gift_card_purchase":
+		case "virtual_card_purchase":
+		case "metals_order":
+			return status === "completed" ? spend(currency, abs, ALL_BUCKETS) : null;
+
+		case "crypto_deposit":
+		case "card_refund":
+		case "gift_card_redemption":
+		case "referral_bonus":
+			return status === "completed" ? effect(currency, { deltas: { deposit: abs } }) : null;
+
+		case "interest_payout":
+			return status === "completed" ? effect(currency, { deltas: { interest: abs } }) : null;
+
+		case "bonus":
+			return status === "completed" ? effect(currency, { deltas: { bonus: abs } }) : null;
+
+		case "admin_adjustment": {
+			if (status !== "completed") return null;
+			const deltas: Partial<Record<UserBalanceBucket, number>> = {};
+			for (const bucket of ALL_BUCKETS) {
+				const delta = Number(metadata.deltas?.[bucket]) || 0;
+				if (delta) deltas[bucket] = delta;
+			}
+			const withdraw = (Number(metadata.withdraw?.to) || 0) - (Number(metadata.withdraw?.from) || 0);
+			return effect(currency, { deltas, withdraw: metadata.withdraw ? withdraw : 0 });
+		}
+
+		default:
+			return null;
+	}
+}
+
+/**
+ * Signed change to the spendable balance (deposit + interest + bonus) caused by a transaction
+ */
+export function netBalanceChange(txn: any): number {
+	const effect = balanceEffectOf(txn);
+	if (!effect) return 0;
+	const credited = Object.values(effect.deltas).reduce((sum, delta) => sum + (delta || 0), 0);
+	return +(credited - (effect.spend?.amount || 0)).toFixed(2);
+}
+
+/**
+ * Fee charged on a transaction. Most routes record it as `metadata.fee`; flight bookings made
+ * through /api/flights and card issuance use their own field names.
+ */
+export function feeOf(txn: any): number {
+	const metadata = (txn?.metadata || {}) as Record<string, any>;
+	return Number(metadata.fee ?? metadata.platformFee ?? metadata.issuanceFee) || 0;
+}
+
+/**
+ * Human readable label for a transaction type, e.g. "internal_transfer" -> "Internal transfer"
+ */
+export const typeLabel = (type: string) => {
+	const text = String(type || "transaction").replace(/_/g, " ");
+	return text.charAt(0).toUpperCase() + text.slice(1);
+};
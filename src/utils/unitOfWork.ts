@@ -0,0 +1,77 @@
+import mongoose, { ClientSession } from "mongoose";
+
+/**
+ * Raised inside a unit of work to abort it with an HTTP-facing status and message.
+ * Never retried.
+ */
+export class UnitOfWorkError extends Error {
+	status: number;
+
+	constructor(status: number, message: string) {
+		super(message);
+		this.name = "UnitOfWorkError";
+		this.status = status;
+	}
+}
+
+const hasLabel = (error: any, label: string): boolean =>
+	Boolean(
+		error &&
+			((typeof error.hasErrorLabel === "function" && error.hasErrorLabel(label)) ||
+				(Array.isArray(error.errorLabels) && error.errorLabels.includes(label))),
+	);
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function commitWithRetry(session: ClientSession, maxRetries: number): Promise<void> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			await session.commitTransaction();
+			return;
+		} catch (error) {
+			if (hasLabel(error, "UnknownTransactionCommitResult") && attempt < maxRetries) {
+				console.warn(`Retrying transaction commit... Attempt ${attempt + 1} of ${maxRetries}`);
+				continue;
+			}
+			throw error;
+		}
+	}
+}
+
+/**
+ * Run every balance mutation and transaction record of a money movement inside one
+ * MongoDB transaction. The whole callback is retried on transient errors (write
+ * conflicts, primary step-downs), so it must not have side effects outside the
+ * session such as sending email.
+ */
+export async function runInTransaction<T>(
+	work: (session: ClientSession) => Promise<T>,
+	options: { maxRetries?: number } = {},
+): Promise<T> {
+	const maxRetries = options.maxRetries ?? Math.max(1, parseInt(process.env.TRANSACTION_MAX_RETRIES || "3", 10));
+
+	for (let attempt = 1; ; attempt++) {
+		const session = await mongoose.startSession();
+		try {
+			session.startTransaction({
+				readConcern: { level: "snapshot" },
+				writeConcern: { w: "majority" },
+			});
+			const result = await work(session);
+			await commitWithRetry(session, maxRetries);
+			return result;
+		} catch (error) {
+			if (session.inTransaction()) {
+				await session.abortTransaction().catch(() => undefined);
+			}
+			if (hasLabel(error, "TransientTransactionError") && attempt < maxRetries) {
+				console.warn(`Retrying transaction... Attempt ${attempt + 1} of ${maxRetries}`);
+				await wait(50 * attempt);
+				continue;
+			}
+			throw error;
+		} finally {
+			await session.endSession();
+		}
+	}
+}